@@ -29,6 +29,10 @@ import { LeadsModule } from './modules/leads/leads.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
 import { ProductsModule } from './modules/products/products.module';
 import { FollowupsModule } from './modules/followups/followups.module';
+import { SegmentsModule } from './modules/segments/segments.module';
+import { RecurringBlastsModule } from './modules/recurring-blasts/recurring-blasts.module';
+import { SuppressionsModule } from './modules/suppressions/suppressions.module';
+import { LinksModule } from './modules/links/links.module';
 import {
   databaseConfig,
   redisConfig,
@@ -98,6 +102,10 @@ import { validate } from './config/env.validation';
     AnalyticsModule,
     ProductsModule,
     FollowupsModule,
+    SegmentsModule,
+    RecurringBlastsModule,
+    SuppressionsModule,
+    LinksModule,
   ],
   controllers: [AppController],
   providers: [
@@ -1 +1,2 @@
 export * from './api-response.dto';
+export * from './sending-window.dto';
@@ -0,0 +1,49 @@
+import {
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class SendingWindowDto {
+  @ApiProperty({ example: '08:00', description: 'Window opens (HH:mm)' })
+  @IsString()
+  @Matches(TIME_REGEX, { message: 'startTime must be in HH:mm format' })
+  startTime: string;
+
+  @ApiProperty({
+    example: '20:00',
+    description:
+      'Window closes (HH:mm). May be earlier than startTime for overnight windows',
+  })
+  @IsString()
+  @Matches(TIME_REGEX, { message: 'endTime must be in HH:mm format' })
+  endTime: string;
+
+  @ApiPropertyOptional({
+    example: [1, 2, 3, 4, 5],
+    description:
+      'Allowed days, 0 = Sunday ... 6 = Saturday (default: every day)',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  days?: number[];
+
+  @ApiPropertyOptional({
+    example: 'Asia/Jakarta',
+    description: 'IANA timezone of the window (default: Asia/Jakarta)',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+}
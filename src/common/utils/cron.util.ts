@@ -0,0 +1,147 @@
+/**
+ * Cron Utility
+ *
+ * 5-field cron expressions (minute hour day-of-month month day-of-week)
+ * evaluated as wall-clock time in a timezone. Supports *, lists, ranges
+ * and steps, e.g. '0 9 * * 1' = Mondays 09:00, '0 8 1 * *' = the 1st at 08:00.
+ */
+import { getTimeZoneOffsetMs, zonedTimeToUtc } from './timezone.util';
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Far enough for yearly and leap-day expressions
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseField(field: string, min: number, max: number): number[] {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    if (!/^(\*|\d+(-\d+)?)(\/\d+)?$/.test(part)) {
+      throw new Error(`Invalid cron field '${part}'`);
+    }
+
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (step < 1) {
+      throw new Error(`Invalid step '${part}'`);
+    }
+
+    let from = min;
+    let to = max;
+    if (range !== '*') {
+      const [start, end] = range.split('-').map(Number);
+      from = start;
+      // 'a/n' means from a to the end of the range
+      to = end ?? (stepText === undefined ? start : max);
+    }
+
+    if (from < min || to > max || from > to) {
+      throw new Error(`Value '${part}' out of range ${min}-${max}`);
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a cron expression. Throws on invalid input.
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields');
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: new Set(parseField(dayOfMonth, 1, 31)),
+    months: new Set(parseField(month, 1, 12)),
+    // 7 is also Sunday
+    daysOfWeek: new Set(parseField(dayOfWeek, 0, 7).map((d) => d % 7)),
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*',
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isDayMatch(fields: CronFields, date: Date): boolean {
+  if (!fields.months.has(date.getUTCMonth() + 1)) return false;
+
+  const dayOfMonthMatch = fields.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeekMatch = fields.daysOfWeek.has(date.getUTCDay());
+
+  // Like standard cron: when both day fields are restricted, either may match
+  if (fields.anyDayOfMonth) return dayOfWeekMatch;
+  if (fields.anyDayOfWeek) return dayOfMonthMatch;
+  return dayOfMonthMatch || dayOfWeekMatch;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Get the first run strictly after the given moment, or null when the
+ * expression never matches (e.g. 31 February)
+ */
+export function getNextCronRun(
+  expression: string,
+  after: Date,
+  timeZone: string,
+): Date | null {
+  const fields = parseCronExpression(expression);
+
+  // Wall-clock time of 'after' in the timezone, as a UTC-based Date
+  const local = new Date(
+    after.getTime() + getTimeZoneOffsetMs(after, timeZone),
+  );
+  const localMinutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+  const localDay = Date.UTC(
+    local.getUTCFullYear(),
+    local.getUTCMonth(),
+    local.getUTCDate(),
+  );
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const day = new Date(localDay + offset * DAY_MS);
+    if (!isDayMatch(fields, day)) continue;
+
+    const dateString = day.toISOString().split('T')[0];
+    for (const hour of fields.hours) {
+      for (const minute of fields.minutes) {
+        if (offset === 0 && hour * 60 + minute <= localMinutes) continue;
+
+        const run = zonedTimeToUtc(
+          `${dateString}T${pad(hour)}:${pad(minute)}`,
+          timeZone,
+        );
+        if (run.getTime() > after.getTime()) {
+          return run;
+        }
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+/**
+ * Sending Window Utility
+ *
+ * Allowed hours for outgoing blast messages, e.g. 08:00-20:00 on weekdays
+ * in Asia/Jakarta. Times are wall-clock times in the window's timezone.
+ */
+import { getTimeZoneOffsetMs, zonedTimeToUtc } from './timezone.util';
+
+export interface SendingWindow {
+  startTime: string; // 'HH:mm'
+  endTime: string; // 'HH:mm', may be earlier than startTime for overnight windows
+  days?: number[]; // 0 = Sunday ... 6 = Saturday, empty/undefined = every day
+  timezone?: string; // IANA timezone, default Asia/Jakarta
+}
+
+const DEFAULT_WINDOW_TIMEZONE = 'Asia/Jakarta';
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map((v) => parseInt(v, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+function getLocalParts(
+  date: Date,
+  timeZone: string,
+): { day: number; minutes: number; dateString: string } {
+  const local = new Date(date.getTime() + getTimeZoneOffsetMs(date, timeZone));
+  return {
+    day: local.getUTCDay(),
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+    dateString: local.toISOString().split('T')[0],
+  };
+}
+
+function isDayAllowed(window: SendingWindow, day: number): boolean {
+  return !window.days || window.days.length === 0 || window.days.includes(day);
+}
+
+/**
+ * Check whether a moment falls inside the sending window
+ */
+export function isWithinSendingWindow(
+  date: Date,
+  window: SendingWindow,
+): boolean {
+  const timeZone = window.timezone || DEFAULT_WINDOW_TIMEZONE;
+  const start = parseTime(window.startTime);
+  const end = parseTime(window.endTime);
+  const { day, minutes } = getLocalParts(date, timeZone);
+
+  // Same start and end means the whole day
+  if (start === end) {
+    return isDayAllowed(window, day);
+  }
+
+  if (start < end) {
+    return isDayAllowed(window, day) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window (e.g. 20:00-02:00): the early part belongs to the previous day
+  if (minutes >= start) {
+    return isDayAllowed(window, day);
+  }
+  return minutes < end && isDayAllowed(window, (day + 6) % 7);
+}
+
+/**
+ * Get the next moment the window is open (the date itself when already open)
+ */
+export function getNextWindowOpening(date: Date, window: SendingWindow): Date {
+  if (isWithinSendingWindow(date, window)) {
+    return date;
+  }
+
+  const timeZone = window.timezone || DEFAULT_WINDOW_TIMEZONE;
+
+  // Check today's and the next 7 days' opening times
+  for (let offset = 0; offset <= 7; offset++) {
+    const { dateString, day } = getLocalParts(
+      new Date(date.getTime() + offset * DAY_MS),
+      timeZone,
+    );
+    if (!isDayAllowed(window, day)) continue;
+
+    const opening = zonedTimeToUtc(
+      `${dateString}T${window.startTime}`,
+      timeZone,
+    );
+    if (opening.getTime() > date.getTime()) {
+      return opening;
+    }
+  }
+
+  // No allowed day configured - do not block sending forever
+  return date;
+}
+
+/**
+ * Plan send times for a sequence of messages spaced by delayMs,
+ * pushing messages that fall outside the window to its next opening.
+ * delayMs may be a function returning the gap after message i.
+ */
+export function planSendTimes(
+  start: Date,
+  count: number,
+  delayMs: number | ((index: number) => number),
+  window?: SendingWindow | null,
+): Date[] {
+  const times: Date[] = [];
+  const getDelay = typeof delayMs === 'number' ? () => delayMs : delayMs;
+  let cursor = start;
+
+  for (let i = 0; i < count; i++) {
+    if (window) {
+      cursor = getNextWindowOpening(cursor, window);
+    }
+    times.push(cursor);
+    cursor = new Date(cursor.getTime() + getDelay(i));
+  }
+
+  return times;
+}
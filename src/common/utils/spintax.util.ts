@@ -0,0 +1,66 @@
+/**
+ * Spintax Utility
+ *
+ * Expands spintax like "{Halo|Hai|Hi} kak" into one of its options.
+ * Choices are driven by a seed so the same recipient always gets the same text
+ * (retries and resumes send identical messages).
+ */
+
+// Innermost {a|b|c} group (no nested braces inside)
+const SPIN_GROUP_REGEX = /\{([^{}]*\|[^{}]*)\}/;
+
+/**
+ * Hash a string into a 32-bit unsigned seed (FNV-1a)
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32), returns values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Check whether a message contains spintax groups
+ */
+export function hasSpintax(text: string): boolean {
+  return SPIN_GROUP_REGEX.test(text);
+}
+
+/**
+ * Expand all spintax groups, innermost first (supports nesting)
+ *
+ * Example: spin('{Halo|Hai} {kak|bos}', 42) -> 'Hai kak'
+ */
+export function spin(text: string, seed: number): string {
+  const random = createSeededRandom(seed);
+  let result = text;
+  let match = SPIN_GROUP_REGEX.exec(result);
+
+  while (match) {
+    const options = match[1].split('|');
+    const choice = options[Math.floor(random() * options.length)];
+    result =
+      result.slice(0, match.index) +
+      choice +
+      result.slice(match.index + match[0].length);
+    match = SPIN_GROUP_REGEX.exec(result);
+  }
+
+  return result;
+}
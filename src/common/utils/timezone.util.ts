@@ -42,6 +42,85 @@ export function getTodayString(): string {
   return now.toISOString().split('T')[0];
 }
 
+/**
+ * Check whether a string is a valid IANA timezone (e.g. 'Asia/Jakarta')
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Creating Intl formatters is slow, reuse one per timezone
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the offset (in ms) of a timezone from UTC at a given instant
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+
+  const get = (type: string) =>
+    parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Convert a wall-clock date/time in a timezone to a UTC Date.
+ * Strings that already carry an offset ('Z' or '+07:00') are parsed as-is.
+ *
+ * Example: zonedTimeToUtc('2026-02-01T09:00', 'Asia/Jakarta') -> 2026-02-01T02:00:00Z
+ */
+export function zonedTimeToUtc(dateTime: string, timeZone: string): Date {
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(dateTime.trim())) {
+    return new Date(dateTime);
+  }
+
+  // Treat the wall-clock time as UTC first, then shift by the zone offset
+  const naive = new Date(`${dateTime.trim()}Z`);
+  if (isNaN(naive.getTime())) {
+    return naive;
+  }
+
+  const offset = getTimeZoneOffsetMs(naive, timeZone);
+  const result = new Date(naive.getTime() - offset);
+
+  // Re-check offset at the resulting instant (handles DST transitions)
+  const correctedOffset = getTimeZoneOffsetMs(result, timeZone);
+  if (correctedOffset !== offset) {
+    return new Date(naive.getTime() - correctedOffset);
+  }
+
+  return result;
+}
+
 /**
  * DEPRECATED: These Indonesia-specific functions are kept for backwards compatibility
  * but should be removed once frontend handles timezone conversion.
@@ -9,10 +9,16 @@ export default registerAs('app', () => {
     throw new Error('JWT_SECRET must be set in production environment');
   }
 
+  const port = parseInt(process.env.APP_PORT ?? '3000', 10);
+
   return {
-    port: parseInt(process.env.APP_PORT ?? '3000', 10),
+    port,
     nodeEnv,
     jwtSecret: jwtSecret || 'dev-only-secret-change-in-production',
     jwtExpiresIn: parseInt(process.env.JWT_EXPIRES_IN ?? '604800', 10), // 7 days in seconds
+    // Public base of tracked short links, served by GET /l/:code
+    shortLinkBaseUrl: (
+      process.env.SHORT_LINK_BASE_URL || `http://localhost:${port}/l`
+    ).replace(/\/+$/, ''),
   };
 });
@@ -84,6 +84,11 @@ export class EnvironmentVariables {
   @IsOptional()
   R2_PUBLIC_URL?: string;
 
+  // Tracked short links
+  @IsString()
+  @IsOptional()
+  SHORT_LINK_BASE_URL?: string;
+
   // Mail
   @IsString()
   MAIL_HOST: string;
@@ -27,6 +27,15 @@ import { Product } from './entities/product.entity';
 import { FollowupCampaign } from './entities/followup-campaign.entity';
 import { FollowupMessage } from './entities/followup-message.entity';
 import { ContactFollowup } from './entities/contact-followup.entity';
+import { Segment } from './entities/segment.entity';
+import {
+  RecurringBlast,
+  RecurringBlastRun,
+} from './entities/recurring-blast.entity';
+import { Suppression } from './entities/suppression.entity';
+import { TrackedLink, LinkClick } from './entities/tracked-link.entity';
+import { QuotaRefund } from './entities/quota-refund.entity';
+import { WhatsAppAuthState } from './entities/whatsapp-auth-state.entity';
 
 @Module({
   imports: [
@@ -74,6 +83,14 @@ import { ContactFollowup } from './entities/contact-followup.entity';
             FollowupCampaign,
             FollowupMessage,
             ContactFollowup,
+            Segment,
+            RecurringBlast,
+            RecurringBlastRun,
+            Suppression,
+            TrackedLink,
+            LinkClick,
+            QuotaRefund,
+            WhatsAppAuthState,
           ],
           migrations: [__dirname + '/migrations/*{.ts,.js}'],
           // IMPORTANT: synchronize is disabled in production to prevent data loss
@@ -10,18 +10,36 @@ import {
   Index,
 } from 'typeorm';
 import { User } from './user.entity';
+import { WhatsAppSession } from './whatsapp-session.entity';
+import { SendingWindow } from '../../common/utils/sending-window.util';
 
 export enum BlastStatus {
   PENDING = 'pending',
+  SCHEDULED = 'scheduled',
+  QUEUED = 'queued', // Waiting for the user's running blast to finish
   PROCESSING = 'processing',
+  PAUSED = 'paused',
   COMPLETED = 'completed',
   CANCELLED = 'cancelled',
   FAILED = 'failed',
 }
 
+export enum AbTestStatus {
+  TESTING = 'testing', // Sending to the test sample
+  EVALUATING = 'evaluating', // Waiting for replies during the evaluation window
+  COMPLETED = 'completed', // Winner chosen and sent to the remaining recipients
+}
+
+export enum ThrottleProfile {
+  SAFE = 'safe', // Long delays and frequent cooldowns, for new or sensitive numbers
+  NORMAL = 'normal',
+  AGGRESSIVE = 'aggressive', // Fastest, for well-established numbers
+}
+
 @Entity('blasts')
 @Index(['userId', 'status'])
 @Index(['userId', 'createdAt'])
+@Index(['status', 'scheduledAt'])
 export class Blast {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -39,6 +57,19 @@ export class Blast {
   @Column({ type: 'text' })
   message: string;
 
+  // Set on blasts cloned from another blast (clone or retry of failed messages)
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  parentBlastId?: string | null;
+
+  // Recipients come from this segment, resolved when the blast starts
+  @Column({ type: 'uuid', nullable: true })
+  segmentId?: string | null;
+
+  // Alternative texts; each recipient gets one of [message, ...messageVariants]
+  @Column({ type: 'jsonb', nullable: true })
+  messageVariants?: string[];
+
   @Column({
     type: 'enum',
     enum: BlastStatus,
@@ -58,12 +89,52 @@ export class Blast {
   @Column({ default: 0 })
   invalidCount: number;
 
+  @Column({ default: 0 })
+  suppressedCount: number;
+
+  // Recipients skipped because they hit the user's frequency cap
+  @Column({ default: 0 })
+  frequencyCappedCount: number;
+
+  // Sent messages with a delivered / read receipt (read implies delivered)
+  @Column({ default: 0 })
+  deliveredCount: number;
+
+  @Column({ default: 0 })
+  readCount: number;
+
+  // Recipients who clicked at least one tracked link
+  @Column({ default: 0 })
+  clickedCount: number;
+
   @Column({ default: 0 })
   pendingCount: number;
 
   @Column({ default: 3000 })
   delayMs: number;
 
+  // Allowed sending hours for this blast (null = use the user's setting)
+  @Column({ type: 'jsonb', nullable: true })
+  sendingWindow?: SendingWindow | null;
+
+  // Expected time the last queued message goes out
+  @Column({ type: 'timestamptz', nullable: true })
+  projectedFinishAt?: Date | null;
+
+  // Scheduled start time (stored in UTC)
+  @Column({ type: 'timestamptz', nullable: true })
+  scheduledAt?: Date;
+
+  @Column({ nullable: true })
+  timezone?: string; // IANA timezone the schedule was set in, e.g. 'Asia/Jakarta'
+
+  // Order in the user's blast queue (lowest starts next), set while QUEUED
+  @Column({ type: 'int', nullable: true })
+  queuePosition?: number | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  queuedAt?: Date | null;
+
   @Column({ type: 'timestamptz', nullable: true })
   startedAt: Date;
 
@@ -73,6 +144,9 @@ export class Blast {
   @Column({ type: 'timestamptz', nullable: true })
   cancelledAt: Date;
 
+  @Column({ type: 'timestamptz', nullable: true })
+  pausedAt?: Date | null;
+
   @Column({ nullable: true })
   errorMessage: string;
 
@@ -82,9 +156,63 @@ export class Blast {
   @Column({ nullable: true })
   mediaType?: string; // 'image' | 'video' | 'audio' | 'document'
 
+  // Default values for message placeholders, used when a recipient has no own value
+  @Column({ type: 'jsonb', nullable: true })
+  variableValues?: Record<string, string>;
+
   @Column({ default: 0 })
   replyCount: number;
 
+  // Rewrite URLs in the message into per-recipient tracked short links
+  @Column({ default: false })
+  trackLinks: boolean;
+
+  // Transactional blasts ignore the frequency cap and don't count towards it
+  @Column({ default: false })
+  isTransactional: boolean;
+
+  // Number to send from (null = the user's default number)
+  @ManyToOne(() => WhatsAppSession, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'sessionId' })
+  session?: WhatsAppSession | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  sessionId?: string | null;
+
+  // Spread recipients across all connected numbers instead
+  @Column({ default: false })
+  rotateSenders: boolean;
+
+  // A/B test: a sample is split across the variants, the winner goes to the rest
+  @Column({ default: false })
+  abTestEnabled: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  abTestPercentage?: number; // Share of recipients in the test sample (1-100)
+
+  @Column({ type: 'int', nullable: true })
+  abTestWindowMinutes?: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  abTestStatus?: AbTestStatus | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  abTestEvaluateAt?: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  abTestWinnerIndex?: number | null;
+
+  // Throttling: jitter, batch cooldowns and warm-up come from the profile
+  @Column({ type: 'varchar', default: ThrottleProfile.NORMAL })
+  throttleProfile: ThrottleProfile;
+
+  // Delay multiplier raised when rate limit / session errors spike (1 = no slowdown)
+  @Column({ type: 'float', default: 1 })
+  throttleSlowdown: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  throttleSlowedAt?: Date | null;
+
   @CreateDateColumn({ type: 'timestamptz' })
   createdAt: Date;
 
@@ -99,11 +227,22 @@ export enum MessageStatus {
   PENDING = 'pending',
   QUEUED = 'queued',
   SENT = 'sent',
+  DELIVERED = 'delivered', // Receipt from the recipient's device
+  READ = 'read',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
   INVALID_NUMBER = 'invalid_number',
+  SUPPRESSED = 'suppressed', // Recipient is on the do-not-contact list
+  SKIPPED_FREQUENCY = 'skipped_frequency', // Recipient hit the frequency cap
 }
 
+// Statuses of a message that went out (receipts only move it forward)
+export const SENT_MESSAGE_STATUSES = [
+  MessageStatus.SENT,
+  MessageStatus.DELIVERED,
+  MessageStatus.READ,
+];
+
 export enum MessageErrorType {
   NONE = 'none',
   INVALID_NUMBER = 'invalid_number',
@@ -115,6 +254,7 @@ export enum MessageErrorType {
 
 @Entity('blast_messages')
 @Index(['blastId', 'status'])
+@Index(['phoneNumber', 'sentAt'])
 export class BlastMessage {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -129,6 +269,22 @@ export class BlastMessage {
   @Column()
   phoneNumber: string;
 
+  // Per-recipient placeholder values (e.g. extra columns from an uploaded file)
+  @Column({ type: 'jsonb', nullable: true })
+  variables?: Record<string, string>;
+
+  // Which text this recipient received (0 = main message, 1+ = messageVariants)
+  @Column({ type: 'int', nullable: true })
+  variantIndex?: number;
+
+  // Part of the A/B test sample (variantIndex is assigned up front)
+  @Column({ default: false })
+  isTestSample: boolean;
+
+  // Final text after variant, placeholders and spintax were applied
+  @Column({ type: 'text', nullable: true })
+  renderedMessage?: string;
+
   @Column({
     type: 'enum',
     enum: MessageStatus,
@@ -137,8 +293,13 @@ export class BlastMessage {
   status: MessageStatus;
 
   @Column({ nullable: true })
+  @Index()
   whatsappMessageId: string;
 
+  // WhatsApp number (session) the message was sent from
+  @Column({ type: 'uuid', nullable: true })
+  sessionId?: string | null;
+
   @Column({ default: 0 })
   retryCount: number;
 
@@ -155,6 +316,23 @@ export class BlastMessage {
   @Column({ type: 'timestamptz', nullable: true })
   sentAt: Date;
 
+  @Column({ type: 'timestamptz', nullable: true })
+  deliveredAt?: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  readAt?: Date | null;
+
+  // First click on one of this message's tracked links
+  @Column({ type: 'timestamptz', nullable: true })
+  clickedAt?: Date | null;
+
+  // When blast quota was charged for this recipient / given back
+  @Column({ type: 'timestamptz', nullable: true })
+  quotaChargedAt?: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  quotaRefundedAt?: Date | null;
+
   @CreateDateColumn({ type: 'timestamptz' })
   createdAt: Date;
 
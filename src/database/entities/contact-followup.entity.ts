@@ -16,6 +16,7 @@ export enum ContactFollowupStatus {
   SENT = 'sent',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
+  SUPPRESSED = 'suppressed',
 }
 
 @Entity('contact_followups')
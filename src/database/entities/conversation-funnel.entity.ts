@@ -122,6 +122,13 @@ export class ConversationFunnel {
   @Column({ type: 'timestamp', nullable: true })
   closedAt: Date | null;
 
+  // Clicks on tracked links from blasts / followups
+  @Column({ type: 'int', default: 0 })
+  linkClickCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastLinkClickedAt: Date | null;
+
   // Revenue tracking
   @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
   dealValue: number | null;
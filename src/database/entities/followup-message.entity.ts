@@ -18,6 +18,7 @@ export enum FollowupMessageStatus {
   FAILED = 'failed',
   SKIPPED = 'skipped',
   CANCELLED = 'cancelled',
+  SUPPRESSED = 'suppressed',
 }
 
 @Entity('followup_messages')
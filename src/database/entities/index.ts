@@ -18,3 +18,9 @@ export * from './analytics-snapshot.entity';
 export * from './followup-campaign.entity';
 export * from './followup-message.entity';
 export * from './contact-followup.entity';
+export * from './segment.entity';
+export * from './recurring-blast.entity';
+export * from './suppression.entity';
+export * from './tracked-link.entity';
+export * from './quota-refund.entity';
+export * from './whatsapp-auth-state.entity';
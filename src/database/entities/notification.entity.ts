@@ -30,6 +30,8 @@ export enum NotificationType {
   SESSION_CONNECTED = 'session_connected',
   SESSION_DISCONNECTED = 'session_disconnected',
   SESSION_EXPIRED = 'session_expired',
+  SESSION_HEALTH_WARNING = 'session_health_warning',
+  SESSION_HEALTH_CRITICAL = 'session_health_critical',
 
   // Blast
   BLAST_STARTED = 'blast_started',
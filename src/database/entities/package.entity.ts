@@ -5,6 +5,7 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import { ThrottleProfile } from './blast.entity';
 
 @Entity('packages')
 export class Package {
@@ -66,6 +67,17 @@ export class Package {
   @Column({ default: true })
   hasFollowupFeature: boolean;
 
+  // Blast throttling caps
+  @Column({ type: 'varchar', default: ThrottleProfile.AGGRESSIVE })
+  maxThrottleProfile: ThrottleProfile; // Fastest profile allowed
+
+  @Column({ default: 1000 })
+  minDelayMs: number;
+
+  // Connected WhatsApp numbers per account (0 = unlimited)
+  @Column({ default: 1 })
+  maxWhatsappNumbers: number;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Subscription } from './subscription.entity';
+import { Blast } from './blast.entity';
+
+export enum QuotaRefundReason {
+  CANCELLED = 'cancelled', // Blast cancelled before the message went out
+  INVALID_NUMBER = 'invalid_number', // Number turned out not to be on WhatsApp
+  SUPPRESSED = 'suppressed', // Recipient opted out while the blast was running
+}
+
+/**
+ * Blast quota given back for recipients that were charged but never sent to
+ */
+@Entity('quota_refunds')
+@Index(['userId', 'createdAt'])
+@Index(['blastId'])
+export class QuotaRefund {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column('uuid')
+  userId: string;
+
+  @ManyToOne(() => Subscription, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscriptionId' })
+  subscription: Subscription;
+
+  @Column('uuid')
+  subscriptionId: string;
+
+  @ManyToOne(() => Blast, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'blastId' })
+  blast?: Blast | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  blastId?: string | null;
+
+  @Column({ type: 'enum', enum: QuotaRefundReason })
+  reason: QuotaRefundReason;
+
+  // Recipients given back to the monthly quota
+  @Column()
+  count: number;
+
+  // Part of count that was charged today and given back to the daily limit
+  @Column({ default: 0 })
+  dailyCount: number;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
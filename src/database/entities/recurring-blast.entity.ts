@@ -0,0 +1,156 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { ThrottleProfile } from './blast.entity';
+import { SendingWindow } from '../../common/utils/sending-window.util';
+
+export enum RecurringBlastStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+}
+
+export enum RecurringAudienceType {
+  STATIC = 'static', // Fixed phone number list
+  TAG = 'tag', // Contacts with a tag at run time
+  SEGMENT = 'segment', // Saved segment, resolved when the child blast starts
+}
+
+export enum RecurringRunStatus {
+  SPAWNED = 'spawned', // Child blast created
+  SKIPPED = 'skipped', // Session down, no quota, empty audience...
+  FAILED = 'failed',
+}
+
+@Entity('recurring_blasts')
+@Index(['userId', 'status'])
+@Index(['status', 'nextRunAt'])
+export class RecurringBlast {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  name: string;
+
+  // 5-field cron in the definition's timezone, e.g. '0 9 * * 1'
+  @Column()
+  cronExpression: string;
+
+  @Column({ default: 'Asia/Jakarta' })
+  timezone: string;
+
+  @Column({
+    type: 'enum',
+    enum: RecurringBlastStatus,
+    default: RecurringBlastStatus.ACTIVE,
+  })
+  status: RecurringBlastStatus;
+
+  // Either message or templateId; the template is read on every run
+  @Column({ type: 'text', nullable: true })
+  message?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  templateId?: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  messageVariants?: string[] | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  variableValues?: Record<string, string> | null;
+
+  @Column({
+    type: 'enum',
+    enum: RecurringAudienceType,
+    default: RecurringAudienceType.STATIC,
+  })
+  audienceType: RecurringAudienceType;
+
+  @Column({ type: 'jsonb', nullable: true })
+  phoneNumbers?: string[] | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  contactTag?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  segmentId?: string | null;
+
+  // Empty = package/profile default at run time
+  @Column({ type: 'int', nullable: true })
+  delayMs?: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  throttleProfile?: ThrottleProfile | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  sendingWindow?: SendingWindow | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  nextRunAt?: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastRunAt?: Date | null;
+
+  @Column({ default: 0 })
+  runCount: number;
+
+  @OneToMany(() => RecurringBlastRun, (run) => run.recurringBlast)
+  runs: RecurringBlastRun[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
+
+@Entity('recurring_blast_runs')
+@Index(['recurringBlastId', 'createdAt'])
+export class RecurringBlastRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  recurringBlastId: string;
+
+  @ManyToOne(() => RecurringBlast, (recurring) => recurring.runs, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'recurringBlastId' })
+  recurringBlast: RecurringBlast;
+
+  // The cron occurrence this run belongs to
+  @Column({ type: 'timestamptz' })
+  scheduledFor: Date;
+
+  @Column({ type: 'enum', enum: RecurringRunStatus })
+  status: RecurringRunStatus;
+
+  // Child blast (when spawned)
+  @Column({ type: 'uuid', nullable: true })
+  blastId?: string | null;
+
+  @Column({ default: 0 })
+  recipientCount: number;
+
+  @Column({ type: 'text', nullable: true })
+  reason?: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { LeadScoreLevel } from './lead-score.entity';
+import { FunnelStage } from './conversation-funnel.entity';
+
+/**
+ * Contact filter rules. All set rules must match (AND).
+ * Dates are ISO strings.
+ */
+export interface SegmentRules {
+  tags?: string[];
+  tagMatch?: 'any' | 'all'; // default 'any'
+  excludeTags?: string[];
+  sources?: string[]; // 'manual' | 'whatsapp' | 'import'
+  onlyWaContacts?: boolean;
+  createdAfter?: string;
+  createdBefore?: string;
+  leadScores?: LeadScoreLevel[];
+  funnelStages?: FunnelStage[];
+  lastInteractionAfter?: string; // Chatted on or after this date
+  lastInteractionBefore?: string; // No chat since this date (includes never chatted)
+}
+
+@Entity('segments')
+@Index(['userId'])
+export class Segment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column()
+  userId: string;
+
+  @Column()
+  name: string;
+
+  @Column({ nullable: true })
+  description?: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  rules: SegmentRules;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum SuppressionSource {
+  KEYWORD = 'keyword', // Recipient replied with an opt-out keyword
+  MANUAL = 'manual',
+  IMPORT = 'import',
+}
+
+/**
+ * Do-not-contact entry. Blasts and followups of the user skip this number.
+ */
+@Entity('suppressions')
+@Index(['userId', 'phoneNumber'], { unique: true })
+export class Suppression {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column('uuid')
+  userId: string;
+
+  @Column()
+  phoneNumber: string;
+
+  @Column({
+    type: 'enum',
+    enum: SuppressionSource,
+    default: SuppressionSource.MANUAL,
+  })
+  source: SuppressionSource;
+
+  // The keyword that triggered the opt-out
+  @Column({ type: 'varchar', nullable: true })
+  keyword?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  note?: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,109 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Blast, BlastMessage } from './blast.entity';
+import { FollowupMessage } from './followup-message.entity';
+
+/**
+ * Short link that stands in for a URL in one recipient's blast or
+ * followup message, so clicks can be attributed to that recipient.
+ */
+@Entity('tracked_links')
+@Index(['blastId'])
+@Index(['blastMessageId'])
+@Index(['userId', 'phoneNumber'])
+export class TrackedLink {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ unique: true })
+  code: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column('uuid')
+  userId: string;
+
+  @ManyToOne(() => Blast, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blastId' })
+  blast: Blast;
+
+  @Column('uuid')
+  blastId: string;
+
+  @ManyToOne(() => BlastMessage, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blastMessageId' })
+  blastMessage: BlastMessage;
+
+  @Column('uuid')
+  blastMessageId: string;
+
+  // Set when the link was sent in a followup rather than the blast itself
+  @ManyToOne(() => FollowupMessage, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'followupMessageId' })
+  followupMessage?: FollowupMessage | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  followupMessageId?: string | null;
+
+  @Column({ type: 'text' })
+  url: string;
+
+  @Column()
+  phoneNumber: string;
+
+  @Column({ default: 0 })
+  clickCount: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  firstClickedAt?: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastClickedAt?: Date | null;
+
+  @OneToMany(() => LinkClick, (click) => click.link)
+  clicks: LinkClick[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
+
+@Entity('link_clicks')
+@Index(['linkId'])
+@Index(['userId', 'phoneNumber'])
+export class LinkClick {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => TrackedLink, (link) => link.clicks, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'linkId' })
+  link: TrackedLink;
+
+  @Column('uuid')
+  linkId: string;
+
+  @Column('uuid')
+  userId: string;
+
+  @Column('uuid')
+  blastId: string;
+
+  @Column()
+  phoneNumber: string;
+
+  @Column({ type: 'text', nullable: true })
+  userAgent?: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  clickedAt: Date;
+}
@@ -8,6 +8,12 @@ import {
   JoinColumn,
 } from 'typeorm';
 import { User } from './user.entity';
+import { SendingWindow } from '../../common/utils/sending-window.util';
+
+export interface FrequencyCap {
+  maxMessages: number;
+  periodDays: number;
+}
 
 export enum ThemeMode {
   LIGHT = 'light',
@@ -43,6 +49,22 @@ export class UserSettings {
   @Column({ nullable: true })
   language: string;
 
+  // Default allowed hours for blast sending (null = any time)
+  @Column({ type: 'jsonb', nullable: true })
+  sendingWindow?: SendingWindow | null;
+
+  // Incoming messages equal to one of these opt the sender out (null = defaults)
+  @Column({ type: 'jsonb', nullable: true })
+  optOutKeywords?: string[] | null;
+
+  // Sent back after an opt-out (null = no reply)
+  @Column({ type: 'text', nullable: true })
+  optOutReply?: string | null;
+
+  // Max marketing blast messages per contact in a rolling period (null = no cap)
+  @Column({ type: 'jsonb', nullable: true })
+  frequencyCap?: FrequencyCap | null;
+
   @CreateDateColumn({ type: 'timestamptz' })
   createdAt: Date;
 
@@ -0,0 +1,32 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { WhatsAppSession } from './whatsapp-session.entity';
+
+/**
+ * One encrypted entry of a number's Baileys auth state: the credentials
+ * (`creds`), signal keys, or the session's wrapped data key (`__dek`).
+ */
+@Entity('whatsapp_auth_states')
+export class WhatsAppAuthState {
+  @PrimaryColumn('uuid')
+  sessionId: string;
+
+  @PrimaryColumn()
+  key: string;
+
+  @ManyToOne(() => WhatsAppSession, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sessionId' })
+  session: WhatsAppSession;
+
+  @Column({ type: 'text' })
+  value: string;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -4,8 +4,9 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
-  OneToOne,
+  ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { User } from './user.entity';
 
@@ -17,18 +18,39 @@ export enum SessionStatus {
   FAILED = 'failed',
 }
 
+// Inputs of the last health score, rates in percent
+export interface SessionHealthSignals {
+  sampleSize: number;
+  failureRate: number;
+  invalidRate: number;
+  rateLimitedCount: number;
+  replyRate: number;
+  disconnectReason: string | null;
+}
+
+/**
+ * One connected WhatsApp number. A user can link several numbers; the
+ * default one is used wherever no number is chosen explicitly.
+ */
 @Entity('whatsapp_sessions')
+@Index(['userId'])
 export class WhatsAppSession {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @OneToOne(() => User)
+  @ManyToOne(() => User)
   @JoinColumn({ name: 'userId' })
   user: User;
 
-  @Column({ unique: true })
+  @Column()
   userId: string;
 
+  @Column({ type: 'varchar', nullable: true })
+  label?: string | null;
+
+  @Column({ default: false })
+  isDefault: boolean;
+
   @Column({ nullable: true })
   phoneNumber: string;
 
@@ -51,9 +73,27 @@ export class WhatsAppSession {
   @Column({ nullable: true })
   lastDisconnectedAt: Date;
 
+  // When the current phone number was first linked (drives blast warm-up)
+  @Column({ type: 'timestamptz', nullable: true })
+  pairedAt?: Date | null;
+
   @Column({ nullable: true })
   disconnectReason: string;
 
+  // 0-100, recomputed from recent sends; low scores mean ban risk
+  @Column({ default: 100 })
+  healthScore: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  healthSignals?: SessionHealthSignals | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  healthCheckedAt?: Date | null;
+
+  // Set when a critical score paused sending; cleared once it recovers
+  @Column({ type: 'timestamptz', nullable: true })
+  healthPausedAt?: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlastScheduling1770010000000 implements MigrationInterface {
+  name = 'AddBlastScheduling1770010000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "blasts_status_enum" ADD VALUE IF NOT EXISTS 'scheduled'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "scheduledAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "timezone" character varying`,
+    );
+    await queryRunner.query(`
+      CREATE INDEX "IDX_blasts_status_scheduledAt"
+      ON "blasts" ("status", "scheduledAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_blasts_status_scheduledAt"`,
+    );
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "timezone"`);
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "scheduledAt"`);
+    // Note: PostgreSQL does not support removing enum values.
+    // Move scheduled blasts back to pending so the old enum remains valid.
+    await queryRunner.query(
+      `UPDATE "blasts" SET "status" = 'pending' WHERE "status" = 'scheduled'`,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlastPause1770020000000 implements MigrationInterface {
+  name = 'AddBlastPause1770020000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "blasts_status_enum" ADD VALUE IF NOT EXISTS 'paused'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "pausedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "pausedAt"`);
+    // Note: PostgreSQL does not support removing enum values.
+    // Cancel paused blasts so the old enum remains valid.
+    await queryRunner.query(
+      `UPDATE "blasts" SET "status" = 'cancelled' WHERE "status" = 'paused'`,
+    );
+  }
+}
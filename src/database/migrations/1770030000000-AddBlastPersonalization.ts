@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlastPersonalization1770030000000 implements MigrationInterface {
+  name = 'AddBlastPersonalization1770030000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "blasts" ADD "variableValues" jsonb`);
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "variables" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "variables"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" DROP COLUMN "variableValues"`,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlastMessageVariants1770040000000 implements MigrationInterface {
+  name = 'AddBlastMessageVariants1770040000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "blasts" ADD "messageVariants" jsonb`);
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "variantIndex" integer`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "renderedMessage" text`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "renderedMessage"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "variantIndex"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" DROP COLUMN "messageVariants"`,
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlastAbTest1770050000000 implements MigrationInterface {
+  name = 'AddBlastAbTest1770050000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "blasts"
+      ADD "abTestEnabled" boolean NOT NULL DEFAULT false,
+      ADD "abTestPercentage" integer,
+      ADD "abTestWindowMinutes" integer,
+      ADD "abTestStatus" character varying,
+      ADD "abTestEvaluateAt" TIMESTAMP WITH TIME ZONE,
+      ADD "abTestWinnerIndex" integer
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "isTestSample" boolean NOT NULL DEFAULT false`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "isTestSample"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "blasts"
+      DROP COLUMN "abTestWinnerIndex",
+      DROP COLUMN "abTestEvaluateAt",
+      DROP COLUMN "abTestStatus",
+      DROP COLUMN "abTestWindowMinutes",
+      DROP COLUMN "abTestPercentage",
+      DROP COLUMN "abTestEnabled"
+    `);
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSendingWindows1770060000000 implements MigrationInterface {
+  name = 'AddSendingWindows1770060000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" ADD "sendingWindow" jsonb`,
+    );
+    await queryRunner.query(`ALTER TABLE "blasts" ADD "sendingWindow" jsonb`);
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "projectedFinishAt" TIMESTAMP WITH TIME ZONE`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "blasts" DROP COLUMN "projectedFinishAt"`,
+    );
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "sendingWindow"`);
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" DROP COLUMN "sendingWindow"`,
+    );
+  }
+}
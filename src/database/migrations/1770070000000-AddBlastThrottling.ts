@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlastThrottling1770070000000 implements MigrationInterface {
+  name = 'AddBlastThrottling1770070000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "blasts"
+      ADD "throttleProfile" character varying NOT NULL DEFAULT 'normal',
+      ADD "throttleSlowdown" double precision NOT NULL DEFAULT 1,
+      ADD "throttleSlowedAt" TIMESTAMP WITH TIME ZONE
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "packages"
+      ADD "maxThrottleProfile" character varying NOT NULL DEFAULT 'aggressive',
+      ADD "minDelayMs" integer NOT NULL DEFAULT 1000
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" ADD "pairedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    // Existing sessions are treated as already warmed up
+    await queryRunner.query(
+      `UPDATE "whatsapp_sessions" SET "pairedAt" = "createdAt" WHERE "phoneNumber" IS NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" DROP COLUMN "pairedAt"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "packages"
+      DROP COLUMN "minDelayMs",
+      DROP COLUMN "maxThrottleProfile"
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "blasts"
+      DROP COLUMN "throttleSlowedAt",
+      DROP COLUMN "throttleSlowdown",
+      DROP COLUMN "throttleProfile"
+    `);
+  }
+}
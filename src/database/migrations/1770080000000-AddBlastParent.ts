@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlastParent1770080000000 implements MigrationInterface {
+  name = 'AddBlastParent1770080000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "blasts" ADD "parentBlastId" uuid`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_blasts_parentBlastId" ON "blasts" ("parentBlastId")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_blasts_parentBlastId"`);
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "parentBlastId"`);
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSegments1770090000000 implements MigrationInterface {
+  name = 'CreateSegments1770090000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "segments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "name" character varying NOT NULL,
+        "description" character varying,
+        "rules" jsonb NOT NULL DEFAULT '{}',
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_segments" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "segments"
+      ADD CONSTRAINT "FK_segments_user"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_segments_userId" ON "segments" ("userId")`,
+    );
+
+    // Blasts targeting a segment resolve their recipients at start time
+    await queryRunner.query(`ALTER TABLE "blasts" ADD "segmentId" uuid`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "segmentId"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_segments_userId"`);
+    await queryRunner.query(
+      `ALTER TABLE "segments" DROP CONSTRAINT "FK_segments_user"`,
+    );
+    await queryRunner.query(`DROP TABLE "segments"`);
+  }
+}
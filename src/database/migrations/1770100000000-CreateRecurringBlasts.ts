@@ -0,0 +1,112 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateRecurringBlasts1770100000000 implements MigrationInterface {
+  name = 'CreateRecurringBlasts1770100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "recurring_blasts_status_enum" AS ENUM ('active', 'paused')
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "recurring_blasts_audiencetype_enum" AS ENUM (
+        'static',
+        'tag',
+        'segment'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "recurring_blast_runs_status_enum" AS ENUM (
+        'spawned',
+        'skipped',
+        'failed'
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "recurring_blasts" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "name" character varying NOT NULL,
+        "cronExpression" character varying NOT NULL,
+        "timezone" character varying NOT NULL DEFAULT 'Asia/Jakarta',
+        "status" "recurring_blasts_status_enum" NOT NULL DEFAULT 'active',
+        "message" text,
+        "templateId" uuid,
+        "messageVariants" jsonb,
+        "variableValues" jsonb,
+        "audienceType" "recurring_blasts_audiencetype_enum" NOT NULL DEFAULT 'static',
+        "phoneNumbers" jsonb,
+        "contactTag" character varying,
+        "segmentId" uuid,
+        "delayMs" integer,
+        "throttleProfile" character varying,
+        "sendingWindow" jsonb,
+        "nextRunAt" TIMESTAMP WITH TIME ZONE,
+        "lastRunAt" TIMESTAMP WITH TIME ZONE,
+        "runCount" integer NOT NULL DEFAULT 0,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_recurring_blasts" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "recurring_blast_runs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "recurringBlastId" uuid NOT NULL,
+        "scheduledFor" TIMESTAMP WITH TIME ZONE NOT NULL,
+        "status" "recurring_blast_runs_status_enum" NOT NULL,
+        "blastId" uuid,
+        "recipientCount" integer NOT NULL DEFAULT 0,
+        "reason" text,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_recurring_blast_runs" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "recurring_blasts"
+      ADD CONSTRAINT "FK_recurring_blasts_user"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "recurring_blast_runs"
+      ADD CONSTRAINT "FK_recurring_blast_runs_recurring_blast"
+      FOREIGN KEY ("recurringBlastId") REFERENCES "recurring_blasts"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_recurring_blasts_userId_status"
+      ON "recurring_blasts" ("userId", "status")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_recurring_blasts_status_nextRunAt"
+      ON "recurring_blasts" ("status", "nextRunAt")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_recurring_blast_runs_recurringBlastId_createdAt"
+      ON "recurring_blast_runs" ("recurringBlastId", "createdAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "recurring_blast_runs"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "recurring_blasts"`);
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "recurring_blast_runs_status_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "recurring_blasts_audiencetype_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "recurring_blasts_status_enum"`,
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSuppressions1770110000000 implements MigrationInterface {
+  name = 'CreateSuppressions1770110000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "suppressions_source_enum" AS ENUM ('keyword', 'manual', 'import')
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "suppressions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "phoneNumber" character varying NOT NULL,
+        "source" "suppressions_source_enum" NOT NULL DEFAULT 'manual',
+        "keyword" character varying,
+        "note" text,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_suppressions" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "suppressions"
+      ADD CONSTRAINT "FK_suppressions_user"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_suppressions_userId_phoneNumber"
+      ON "suppressions" ("userId", "phoneNumber")
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" ADD "optOutKeywords" jsonb`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" ADD "optOutReply" text`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "suppressedCount" integer NOT NULL DEFAULT 0`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "blast_messages_status_enum" ADD VALUE IF NOT EXISTS 'suppressed'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "followup_message_status_enum" ADD VALUE IF NOT EXISTS 'suppressed'`,
+    );
+    // contact_followups was created by synchronize, its enum may not exist yet
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'contact_followups_status_enum') THEN
+          ALTER TYPE "contact_followups_status_enum" ADD VALUE IF NOT EXISTS 'suppressed';
+        END IF;
+      END $$
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Note: PostgreSQL does not support removing enum values.
+    // Move suppressed rows to cancelled so the old enums remain valid.
+    await queryRunner.query(
+      `UPDATE "blast_messages" SET "status" = 'cancelled' WHERE "status" = 'suppressed'`,
+    );
+    await queryRunner.query(
+      `UPDATE "followup_messages" SET "status" = 'cancelled' WHERE "status" = 'suppressed'`,
+    );
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_tables WHERE tablename = 'contact_followups') THEN
+          UPDATE "contact_followups" SET "status" = 'cancelled' WHERE "status" = 'suppressed';
+        END IF;
+      END $$
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "blasts" DROP COLUMN "suppressedCount"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" DROP COLUMN "optOutReply"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" DROP COLUMN "optOutKeywords"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_suppressions_userId_phoneNumber"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "suppressions" DROP CONSTRAINT "FK_suppressions_user"`,
+    );
+    await queryRunner.query(`DROP TABLE "suppressions"`);
+    await queryRunner.query(`DROP TYPE "suppressions_source_enum"`);
+  }
+}
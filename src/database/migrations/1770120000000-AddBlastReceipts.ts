@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlastReceipts1770120000000 implements MigrationInterface {
+  name = 'AddBlastReceipts1770120000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "blast_messages_status_enum" ADD VALUE IF NOT EXISTS 'delivered'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "blast_messages_status_enum" ADD VALUE IF NOT EXISTS 'read'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "deliveredAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "readAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    // Receipts are matched by the WhatsApp message id
+    await queryRunner.query(`
+      CREATE INDEX "IDX_blast_messages_whatsappMessageId"
+      ON "blast_messages" ("whatsappMessageId")
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "deliveredCount" integer NOT NULL DEFAULT 0`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "readCount" integer NOT NULL DEFAULT 0`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "readCount"`);
+    await queryRunner.query(
+      `ALTER TABLE "blasts" DROP COLUMN "deliveredCount"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_blast_messages_whatsappMessageId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "readAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "deliveredAt"`,
+    );
+    // Note: PostgreSQL does not support removing enum values.
+    // Move delivered/read messages back to sent so the old enum remains valid.
+    await queryRunner.query(
+      `UPDATE "blast_messages" SET "status" = 'sent' WHERE "status" IN ('delivered', 'read')`,
+    );
+  }
+}
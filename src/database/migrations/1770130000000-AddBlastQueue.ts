@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlastQueue1770130000000 implements MigrationInterface {
+  name = 'AddBlastQueue1770130000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "blasts_status_enum" ADD VALUE IF NOT EXISTS 'queued'`,
+    );
+    await queryRunner.query(`ALTER TABLE "blasts" ADD "queuePosition" integer`);
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "queuedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Note: PostgreSQL does not support removing enum values.
+    // Put queued blasts back to pending so the old enum remains valid.
+    await queryRunner.query(
+      `UPDATE "blasts" SET "status" = 'pending' WHERE "status" = 'queued'`,
+    );
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "queuedAt"`);
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "queuePosition"`);
+  }
+}
@@ -0,0 +1,122 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTrackedLinks1770140000000 implements MigrationInterface {
+  name = 'CreateTrackedLinks1770140000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "tracked_links" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "code" character varying NOT NULL,
+        "userId" uuid NOT NULL,
+        "blastId" uuid NOT NULL,
+        "blastMessageId" uuid NOT NULL,
+        "followupMessageId" uuid,
+        "url" text NOT NULL,
+        "phoneNumber" character varying NOT NULL,
+        "clickCount" integer NOT NULL DEFAULT 0,
+        "firstClickedAt" TIMESTAMP WITH TIME ZONE,
+        "lastClickedAt" TIMESTAMP WITH TIME ZONE,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_tracked_links_code" UNIQUE ("code"),
+        CONSTRAINT "PK_tracked_links" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "tracked_links"
+      ADD CONSTRAINT "FK_tracked_links_user"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "tracked_links"
+      ADD CONSTRAINT "FK_tracked_links_blast"
+      FOREIGN KEY ("blastId") REFERENCES "blasts"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "tracked_links"
+      ADD CONSTRAINT "FK_tracked_links_blast_message"
+      FOREIGN KEY ("blastMessageId") REFERENCES "blast_messages"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "tracked_links"
+      ADD CONSTRAINT "FK_tracked_links_followup_message"
+      FOREIGN KEY ("followupMessageId") REFERENCES "followup_messages"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_tracked_links_blastId" ON "tracked_links" ("blastId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_tracked_links_blastMessageId" ON "tracked_links" ("blastMessageId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_tracked_links_userId_phoneNumber" ON "tracked_links" ("userId", "phoneNumber")`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE "link_clicks" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "linkId" uuid NOT NULL,
+        "userId" uuid NOT NULL,
+        "blastId" uuid NOT NULL,
+        "phoneNumber" character varying NOT NULL,
+        "userAgent" text,
+        "clickedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_link_clicks" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "link_clicks"
+      ADD CONSTRAINT "FK_link_clicks_link"
+      FOREIGN KEY ("linkId") REFERENCES "tracked_links"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_link_clicks_linkId" ON "link_clicks" ("linkId")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_link_clicks_userId_phoneNumber" ON "link_clicks" ("userId", "phoneNumber")`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "trackLinks" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "clickedCount" integer NOT NULL DEFAULT 0`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "clickedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+
+    // conversation_funnels was created by synchronize and may not exist yet
+    await queryRunner.query(
+      `ALTER TABLE IF EXISTS "conversation_funnels" ADD COLUMN IF NOT EXISTS "linkClickCount" integer NOT NULL DEFAULT 0`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE IF EXISTS "conversation_funnels" ADD COLUMN IF NOT EXISTS "lastLinkClickedAt" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE IF EXISTS "conversation_funnels" DROP COLUMN IF EXISTS "lastLinkClickedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE IF EXISTS "conversation_funnels" DROP COLUMN IF EXISTS "linkClickCount"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "clickedAt"`,
+    );
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "clickedCount"`);
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "trackLinks"`);
+    await queryRunner.query(`DROP TABLE "link_clicks"`);
+    await queryRunner.query(`DROP TABLE "tracked_links"`);
+  }
+}
@@ -0,0 +1,80 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateQuotaRefunds1770150000000 implements MigrationInterface {
+  name = 'CreateQuotaRefunds1770150000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "quota_refunds_reason_enum" AS ENUM ('cancelled', 'invalid_number')
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "quota_refunds" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "userId" uuid NOT NULL,
+        "subscriptionId" uuid NOT NULL,
+        "blastId" uuid,
+        "reason" "quota_refunds_reason_enum" NOT NULL,
+        "count" integer NOT NULL,
+        "dailyCount" integer NOT NULL DEFAULT 0,
+        "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_quota_refunds" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "quota_refunds"
+      ADD CONSTRAINT "FK_quota_refunds_user"
+      FOREIGN KEY ("userId") REFERENCES "users"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "quota_refunds"
+      ADD CONSTRAINT "FK_quota_refunds_subscription"
+      FOREIGN KEY ("subscriptionId") REFERENCES "subscriptions"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "quota_refunds"
+      ADD CONSTRAINT "FK_quota_refunds_blast"
+      FOREIGN KEY ("blastId") REFERENCES "blasts"("id")
+      ON DELETE SET NULL ON UPDATE NO ACTION
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX "IDX_quota_refunds_userId_createdAt" ON "quota_refunds" ("userId", "createdAt")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_quota_refunds_blastId" ON "quota_refunds" ("blastId")`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "quotaChargedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "quotaRefundedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+
+    // Unsent messages of running blasts were charged when the blast started
+    await queryRunner.query(`
+      UPDATE "blast_messages" bm
+      SET "quotaChargedAt" = b."startedAt"
+      FROM "blasts" b
+      WHERE bm."blastId" = b."id"
+        AND b."status" IN ('processing', 'paused')
+        AND b."startedAt" IS NOT NULL
+        AND bm."status" IN ('pending', 'queued')
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "quotaRefundedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "quotaChargedAt"`,
+    );
+    await queryRunner.query(`DROP TABLE "quota_refunds"`);
+    await queryRunner.query(`DROP TYPE "quota_refunds_reason_enum"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFrequencyCap1770160000000 implements MigrationInterface {
+  name = 'AddFrequencyCap1770160000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "blast_messages_status_enum" ADD VALUE IF NOT EXISTS 'skipped_frequency'`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "frequencyCappedCount" integer NOT NULL DEFAULT 0`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "isTransactional" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" ADD "frequencyCap" jsonb`,
+    );
+
+    // Counting recent messages per contact when a blast starts
+    await queryRunner.query(
+      `CREATE INDEX "IDX_blast_messages_phoneNumber_sentAt" ON "blast_messages" ("phoneNumber", "sentAt")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_blast_messages_phoneNumber_sentAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_settings" DROP COLUMN "frequencyCap"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" DROP COLUMN "isTransactional"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" DROP COLUMN "frequencyCappedCount"`,
+    );
+    // Postgres cannot drop an enum value; leave it unused
+    await queryRunner.query(
+      `UPDATE "blast_messages" SET "status" = 'cancelled' WHERE "status" = 'skipped_frequency'`,
+    );
+  }
+}
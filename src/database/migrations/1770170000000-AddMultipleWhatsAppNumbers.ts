@@ -0,0 +1,92 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMultipleWhatsAppNumbers1770170000000 implements MigrationInterface {
+  name = 'AddMultipleWhatsAppNumbers1770170000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The one-session-per-user unique constraints were generated by
+    // synchronize, so look them up instead of guessing their names
+    await queryRunner.query(`
+      DO $$
+      DECLARE c record;
+      BEGIN
+        FOR c IN
+          SELECT con.conname
+          FROM pg_constraint con
+          JOIN pg_class rel ON rel.oid = con.conrelid
+          JOIN pg_attribute att
+            ON att.attrelid = rel.oid AND att.attname = 'userId'
+          WHERE rel.relname = 'whatsapp_sessions'
+            AND con.contype = 'u'
+            AND con.conkey = ARRAY[att.attnum]
+        LOOP
+          EXECUTE format('ALTER TABLE "whatsapp_sessions" DROP CONSTRAINT %I', c.conname);
+        END LOOP;
+      END $$
+    `);
+
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" ADD "label" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" ADD "isDefault" boolean NOT NULL DEFAULT false`,
+    );
+    // Existing sessions are the only number of their user
+    await queryRunner.query(
+      `UPDATE "whatsapp_sessions" SET "isDefault" = true`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_whatsapp_sessions_userId" ON "whatsapp_sessions" ("userId")`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "packages" ADD "maxWhatsappNumbers" integer NOT NULL DEFAULT 1`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "blasts" ADD "sessionId" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "blasts" ADD "rotateSenders" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "blasts"
+      ADD CONSTRAINT "FK_blasts_session"
+      FOREIGN KEY ("sessionId") REFERENCES "whatsapp_sessions"("id")
+      ON DELETE SET NULL ON UPDATE NO ACTION
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" ADD "sessionId" uuid`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "blast_messages" DROP COLUMN "sessionId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blasts" DROP CONSTRAINT "FK_blasts_session"`,
+    );
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "rotateSenders"`);
+    await queryRunner.query(`ALTER TABLE "blasts" DROP COLUMN "sessionId"`);
+    await queryRunner.query(
+      `ALTER TABLE "packages" DROP COLUMN "maxWhatsappNumbers"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_whatsapp_sessions_userId"`,
+    );
+
+    // Keep only the default number of each user
+    await queryRunner.query(
+      `DELETE FROM "whatsapp_sessions" WHERE "isDefault" = false`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" DROP COLUMN "isDefault"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" DROP COLUMN "label"`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "whatsapp_sessions"
+      ADD CONSTRAINT "UQ_whatsapp_sessions_userId" UNIQUE ("userId")
+    `);
+  }
+}
@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSessionHealth1770180000000 implements MigrationInterface {
+  name = 'AddSessionHealth1770180000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" ADD "healthScore" integer NOT NULL DEFAULT 100`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" ADD "healthSignals" jsonb`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" ADD "healthCheckedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" ADD "healthPausedAt" TIMESTAMP WITH TIME ZONE`,
+    );
+
+    // notifications was created by synchronize, its enum may not exist yet
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notifications_type_enum') THEN
+          ALTER TYPE "notifications_type_enum" ADD VALUE IF NOT EXISTS 'session_health_warning';
+          ALTER TYPE "notifications_type_enum" ADD VALUE IF NOT EXISTS 'session_health_critical';
+        END IF;
+      END $$
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop an enum value; remove the rows that use them
+    await queryRunner.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notifications_type_enum') THEN
+          DELETE FROM "notifications"
+          WHERE "type"::text IN ('session_health_warning', 'session_health_critical');
+        END IF;
+      END $$
+    `);
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" DROP COLUMN "healthPausedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" DROP COLUMN "healthCheckedAt"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" DROP COLUMN "healthSignals"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "whatsapp_sessions" DROP COLUMN "healthScore"`,
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateWhatsAppAuthStates1770190000000 implements MigrationInterface {
+  name = 'CreateWhatsAppAuthStates1770190000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "whatsapp_auth_states" (
+        "sessionId" uuid NOT NULL,
+        "key" character varying NOT NULL,
+        "value" text NOT NULL,
+        "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_whatsapp_auth_states" PRIMARY KEY ("sessionId", "key")
+      )
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "whatsapp_auth_states"
+      ADD CONSTRAINT "FK_whatsapp_auth_states_session"
+      FOREIGN KEY ("sessionId") REFERENCES "whatsapp_sessions"("id")
+      ON DELETE CASCADE ON UPDATE NO ACTION
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "whatsapp_auth_states"`);
+  }
+}
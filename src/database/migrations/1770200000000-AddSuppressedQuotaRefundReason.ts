@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSuppressedQuotaRefundReason1770200000000 implements MigrationInterface {
+  name = 'AddSuppressedQuotaRefundReason1770200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "quota_refunds_reason_enum" ADD VALUE IF NOT EXISTS 'suppressed'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Note: PostgreSQL does not support removing enum values.
+    // Record opt-out refunds as cancelled so the old enum remains valid.
+    await queryRunner.query(
+      `UPDATE "quota_refunds" SET "reason" = 'cancelled' WHERE "reason" = 'suppressed'`,
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NestFactory } from '@nestjs/core';
 import helmet from 'helmet';
-import { ValidationPipe, Logger } from '@nestjs/common';
+import { ValidationPipe, Logger, RequestMethod } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
@@ -91,8 +91,10 @@ async function bootstrap() {
     credentials: true,
   });
 
-  // Global prefix
-  app.setGlobalPrefix('api');
+  // Global prefix (tracked short links stay at /l/:code)
+  app.setGlobalPrefix('api', {
+    exclude: [{ path: 'l/:code', method: RequestMethod.GET }],
+  });
 
   // Swagger documentation - only in non-production
   if (nodeEnv !== 'production') {
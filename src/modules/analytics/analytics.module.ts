@@ -5,7 +5,8 @@ import { ConversationFunnel } from '../../database/entities/conversation-funnel.
 import { AnalyticsSnapshot } from '../../database/entities/analytics-snapshot.entity';
 import { ChatMessage } from '../../database/entities/chat-message.entity';
 import { LeadScore } from '../../database/entities/lead-score.entity';
-import { Blast } from '../../database/entities/blast.entity';
+import { Blast, BlastMessage } from '../../database/entities/blast.entity';
+import { BlastReply } from '../../database/entities/blast-reply.entity';
 import { Contact } from '../../database/entities/contact.entity';
 import { LeadScoreSettings } from '../../database/entities/lead-score-settings.entity';
 import { AnalyticsController } from './analytics.controller';
@@ -24,6 +25,8 @@ import { FeatureGuard, AiQuotaGuard } from '../auth/guards';
       ChatMessage,
       LeadScore,
       Blast,
+      BlastMessage,
+      BlastReply,
       Contact,
       LeadScoreSettings,
     ]),
@@ -19,7 +19,12 @@ import {
   LeadScore,
   LeadScoreLevel,
 } from '../../../database/entities/lead-score.entity';
-import { Blast } from '../../../database/entities/blast.entity';
+import {
+  Blast,
+  BlastMessage,
+  SENT_MESSAGE_STATUSES,
+} from '../../../database/entities/blast.entity';
+import { BlastReply } from '../../../database/entities/blast-reply.entity';
 import { Contact } from '../../../database/entities/contact.entity';
 import {
   AnalyticsPeriod,
@@ -34,6 +39,23 @@ interface DateRange {
   endDate: Date;
 }
 
+export interface AbTestVariantResult {
+  index: number; // 0 = main message, 1+ = messageVariants
+  message: string;
+  sent: number;
+  replied: number;
+  replyRate: number; // percent
+}
+
+export interface AbTestResult {
+  status?: string | null;
+  testPercentage: number;
+  windowMinutes: number;
+  evaluateAt?: Date | null;
+  winnerIndex?: number | null;
+  variants: AbTestVariantResult[];
+}
+
 @Injectable()
 export class AnalyticsService {
   private readonly logger = new Logger(AnalyticsService.name);
@@ -53,6 +75,10 @@ export class AnalyticsService {
     private readonly leadScoreRepository: Repository<LeadScore>,
     @InjectRepository(Blast)
     private readonly blastRepository: Repository<Blast>,
+    @InjectRepository(BlastMessage)
+    private readonly blastMessageRepository: Repository<BlastMessage>,
+    @InjectRepository(BlastReply)
+    private readonly blastReplyRepository: Repository<BlastReply>,
     @InjectRepository(Contact)
     private readonly contactRepository: Repository<Contact>,
   ) {}
@@ -602,17 +628,25 @@ export class AnalyticsService {
         sentAt: blast.createdAt,
         totalRecipients: total,
       },
+      // From WhatsApp delivery/read receipts
       delivery: {
-        sent: stageCounts[FunnelStage.BLAST_SENT],
-        delivered:
-          stageCounts[FunnelStage.DELIVERED] +
-          stageCounts[FunnelStage.REPLIED] +
-          stageCounts[FunnelStage.INTERESTED] +
-          stageCounts[FunnelStage.NEGOTIATING] +
-          stageCounts[FunnelStage.CLOSED_WON],
-        deliveryRate: Math.round(
-          ((total - stageCounts[FunnelStage.BLAST_SENT]) / total) * 100,
-        ),
+        sent: blast.sentCount,
+        delivered: blast.deliveredCount,
+        read: blast.readCount,
+        deliveryRate:
+          blast.sentCount > 0
+            ? Math.round((blast.deliveredCount / blast.sentCount) * 100)
+            : 0,
+        readRate:
+          blast.sentCount > 0
+            ? Math.round((blast.readCount / blast.sentCount) * 100)
+            : 0,
+        // Recipients who clicked a tracked link
+        clicked: blast.clickedCount,
+        clickRate:
+          blast.sentCount > 0
+            ? Math.round((blast.clickedCount / blast.sentCount) * 100)
+            : 0,
       },
       engagement: {
         replied:
@@ -642,6 +676,66 @@ export class AnalyticsService {
           10,
         revenue: totalRevenue,
       },
+      abTest: blast.abTestEnabled ? await this.getAbTestResults(blast) : null,
+    };
+  }
+
+  /**
+   * Sent/replied/reply rate per variant within the A/B test sample
+   */
+  async getAbTestResults(blast: Blast): Promise<AbTestResult> {
+    const sentRows: { variantIndex: number; sent: string }[] =
+      await this.blastMessageRepository
+        .createQueryBuilder('bm')
+        .select('bm.variantIndex', 'variantIndex')
+        .addSelect('COUNT(*)', 'sent')
+        .where('bm.blastId = :blastId', { blastId: blast.id })
+        .andWhere('bm.isTestSample = true')
+        .andWhere('bm.status IN (:...statuses)', {
+          statuses: SENT_MESSAGE_STATUSES,
+        })
+        .groupBy('bm.variantIndex')
+        .getRawMany();
+
+    const repliedRows: { variantIndex: number; replied: string }[] =
+      await this.blastReplyRepository
+        .createQueryBuilder('reply')
+        .innerJoin('reply.blastMessage', 'bm')
+        .select('bm.variantIndex', 'variantIndex')
+        .addSelect('COUNT(DISTINCT reply.blastMessageId)', 'replied')
+        .where('reply.blastId = :blastId', { blastId: blast.id })
+        .andWhere('bm.isTestSample = true')
+        .groupBy('bm.variantIndex')
+        .getRawMany();
+
+    const texts = [blast.message, ...(blast.messageVariants || [])];
+    const variants = texts.map((message, index) => {
+      const sent = parseInt(
+        sentRows.find((r) => Number(r.variantIndex) === index)?.sent || '0',
+        10,
+      );
+      const replied = parseInt(
+        repliedRows.find((r) => Number(r.variantIndex) === index)?.replied ||
+          '0',
+        10,
+      );
+
+      return {
+        index,
+        message,
+        sent,
+        replied,
+        replyRate: sent > 0 ? Math.round((replied / sent) * 1000) / 10 : 0,
+      };
+    });
+
+    return {
+      status: blast.abTestStatus,
+      testPercentage: blast.abTestPercentage || 0,
+      windowMinutes: blast.abTestWindowMinutes || 0,
+      evaluateAt: blast.abTestEvaluateAt,
+      winnerIndex: blast.abTestWinnerIndex,
+      variants,
     };
   }
 
@@ -131,6 +131,34 @@ export class FunnelTrackerService {
     );
   }
 
+  /**
+   * Called when the recipient clicks a tracked link from a blast or followup.
+   * A click proves the message arrived, so the funnel moves to DELIVERED.
+   */
+  async onLinkClicked(userId: string, phoneNumber: string): Promise<void> {
+    const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
+
+    await this.funnelRepository
+      .createQueryBuilder()
+      .update(ConversationFunnel)
+      .set({
+        linkClickCount: () => '"linkClickCount" + 1',
+        lastLinkClickedAt: new Date(),
+      })
+      .where('"userId" = :userId AND "phoneNumber" = :phoneNumber', {
+        userId,
+        phoneNumber: normalizedPhone,
+      })
+      .execute();
+
+    await this.advanceStageIfNeeded(
+      userId,
+      normalizedPhone,
+      FunnelStage.DELIVERED,
+      'auto:link_click',
+    );
+  }
+
   /**
    * Called when incoming message received - main entry point for keyword detection
    */
@@ -23,6 +23,8 @@ import {
 import { FileFieldsInterceptor } from '@nestjs/platform-express';
 import { BlastsService } from './blasts.service';
 import { BlastRepliesService } from './services/blast-replies.service';
+import { BlastPreviewService } from './services/blast-preview.service';
+import { BlastReconciliationService } from './services/blast-reconciliation.service';
 import {
   CreateBlastDto,
   BlastResponseDto,
@@ -32,6 +34,14 @@ import {
   BlastReplyDto,
   ReplyStatsDto,
   BlastAdminQueryDto,
+  RescheduleBlastDto,
+  RetryFailedBlastDto,
+  CloneBlastDto,
+  BlastPreviewQueryDto,
+  StartBlastDto,
+  ReorderBlastQueueDto,
+  BlastQueueDto,
+  BlastReconciliationResultDto,
 } from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
@@ -50,6 +60,8 @@ export class BlastsController {
   constructor(
     private readonly blastsService: BlastsService,
     private readonly blastRepliesService: BlastRepliesService,
+    private readonly blastPreviewService: BlastPreviewService,
+    private readonly blastReconciliationService: BlastReconciliationService,
     private readonly uploadsService: UploadsService,
     private readonly contactsService: ContactsService,
     private readonly templatesService: TemplatesService,
@@ -65,7 +77,7 @@ export class BlastsController {
   @ApiOperation({
     summary: 'Create blast campaign',
     description:
-      'Create a new blast campaign. Recipients can be selected via: manual (input numbers), from_contacts (select from saved contacts), or file (upload CSV/Excel).',
+      'Create a new blast campaign. Recipients can be selected via: manual (input numbers), from_contacts (select from saved contacts), file (upload CSV/Excel), or segment (saved segment, resolved when the blast starts).',
   })
   @ApiConsumes('multipart/form-data', 'application/json')
   @ApiBody({
@@ -94,14 +106,38 @@ export class BlastsController {
           type: 'object',
           example: { name: 'John', product: 'Laptop' },
           description:
-            'Variable values to replace in template message (JSON string for multipart).',
+            'Default values for message placeholders, used when a recipient has no own value (JSON string for multipart). Per-recipient placeholders: {name}, {waName}, {phone}, {email}, {tags}, file columns, and {key|fallback}.',
+        },
+        messageVariants: {
+          type: 'array',
+          items: { type: 'string' },
+          example: ['Hai {name}, promo hari ini!', '{Halo|Hi} {name}!'],
+          description:
+            'Optional alternative texts (max 10). Each recipient gets one of [message, ...messageVariants]. Spintax {a|b|c} is supported.',
+        },
+        abTestEnabled: {
+          type: 'boolean',
+          example: false,
+          description:
+            'A/B test the variants on a sample, then send the variant with the best reply rate to the rest. Requires messageVariants.',
+        },
+        abTestPercentage: {
+          type: 'number',
+          example: 20,
+          description: 'Test sample size in percent (default: 20)',
+        },
+        abTestWindowMinutes: {
+          type: 'number',
+          example: 120,
+          description:
+            'Minutes to collect replies before picking the winner (default: 120, 10-4320)',
         },
         recipientSource: {
           type: 'string',
-          enum: ['manual', 'from_contacts', 'file'],
+          enum: ['manual', 'from_contacts', 'file', 'segment'],
           example: 'manual',
           description:
-            'How to select recipients: manual (input numbers min 2), from_contacts (select from saved contacts), file (upload CSV/Excel).',
+            'How to select recipients: manual (input numbers min 2), from_contacts (select from saved contacts), file (upload CSV/Excel), segment (saved segment).',
         },
         phoneNumbers: {
           type: 'array',
@@ -117,16 +153,46 @@ export class BlastsController {
           description:
             'Selected contact IDs from checkbox (when recipientSource = from_contacts).',
         },
+        segmentId: {
+          type: 'string',
+          example: 'segment-uuid',
+          description:
+            'Saved segment ID (when recipientSource = segment). Recipients are resolved when the blast starts.',
+        },
         delayMs: {
           type: 'number',
           example: 3000,
           description: 'Delay between messages in ms (minimum 1000)',
         },
+        throttleProfile: {
+          type: 'string',
+          enum: ['safe', 'normal', 'aggressive'],
+          example: 'normal',
+          description:
+            'Sending pace (jitter, batch cooldowns, warm-up, slowdown on rate limits). Default: normal',
+        },
+        scheduledAt: {
+          type: 'string',
+          example: '2026-02-01T09:00',
+          description:
+            'Optional start time. Creates a scheduled blast that starts automatically. Local time in `timezone`, or ISO string with offset.',
+        },
+        timezone: {
+          type: 'string',
+          example: 'Asia/Jakarta',
+          description: 'IANA timezone for scheduledAt (default: Asia/Jakarta)',
+        },
+        sendingWindow: {
+          type: 'string',
+          example: '{"startTime":"08:00","endTime":"20:00","days":[1,2,3,4,5]}',
+          description:
+            'Optional JSON allowed sending hours (startTime, endTime, days 0-6, timezone). Default: sendingWindow from user settings.',
+        },
         phonesFile: {
           type: 'string',
           format: 'binary',
           description:
-            'CSV/Excel file with phone numbers (when recipientSource = file).',
+            'CSV/Excel file with phone numbers (when recipientSource = file). With a header row, other columns can be used as placeholders, e.g. column "Kota" -> {kota}.',
         },
         mediaFile: {
           type: 'string',
@@ -159,6 +225,7 @@ export class BlastsController {
     const mediaFile = files?.mediaFile?.[0];
 
     let phoneNumbers: string[] = [];
+    let recipientVariables: Map<string, Record<string, string>> | undefined;
     let mediaUrl: string | undefined;
     let mediaType: string | undefined;
     let message = createBlastDto.message;
@@ -166,10 +233,10 @@ export class BlastsController {
     try {
       // If templateId is provided, get message and media from template
       if (createBlastDto.templateId) {
+        // Placeholders are rendered per recipient at send time
         const templateData = await this.templatesService.getTemplateForBlast(
           userId,
           createBlastDto.templateId,
-          createBlastDto.variableValues,
         );
         message = templateData.message;
         // Only use template media if no mediaFile is uploaded
@@ -230,10 +297,16 @@ export class BlastsController {
             );
           }
           this.uploadsService.validatePhoneFile(phonesFile);
-          const parsed = await this.uploadsService.parsePhoneNumbersFile(
+          const parsed = await this.uploadsService.parseRecipientsFile(
             phonesFile.path,
           );
-          phoneNumbers = parsed.phoneNumbers;
+          phoneNumbers = parsed.recipients.map((r) => r.phoneNumber);
+          // Keep extra columns per recipient for message personalization
+          if (parsed.columns.length > 0) {
+            recipientVariables = new Map(
+              parsed.recipients.map((r) => [r.phoneNumber, r.variables]),
+            );
+          }
           this.uploadsService.cleanupTempFile(phonesFile.path);
           if (phoneNumbers.length === 0) {
             throw new BadRequestException(
@@ -242,9 +315,19 @@ export class BlastsController {
           }
           break;
 
+        case 'segment':
+          // Recipients are resolved from the segment when the blast starts
+          if (!createBlastDto.segmentId) {
+            throw new BadRequestException(
+              'segmentId is required when recipientSource is "segment".',
+            );
+          }
+          phoneNumbers = [];
+          break;
+
         default:
           throw new BadRequestException(
-            `Invalid recipientSource: ${recipientSource}. Use "manual", "from_contacts", or "file".`,
+            `Invalid recipientSource: ${recipientSource}. Use "manual", "from_contacts", "file", or "segment".`,
           );
       }
 
@@ -268,6 +351,7 @@ export class BlastsController {
         createBlastDto,
         mediaUrl,
         mediaType,
+        recipientVariables,
       );
     } catch (error) {
       // Cleanup files on error
@@ -281,13 +365,18 @@ export class BlastsController {
   }
 
   @Post(':id/start')
-  @ApiOperation({ summary: 'Start blast campaign' })
-  @ApiResponse({ status: 200, description: 'Blast started successfully' })
+  @ApiOperation({
+    summary: 'Start blast campaign',
+    description:
+      'When another blast is running or paused, the blast is queued (status: queued) and starts automatically once that blast completes or is cancelled.',
+  })
+  @ApiResponse({ status: 200, description: 'Blast started or queued' })
   startBlast(
     @CurrentUser('id') userId: string,
     @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: StartBlastDto,
   ) {
-    return this.blastsService.startBlast(userId, id);
+    return this.blastsService.startBlast(userId, id, dto.priority);
   }
 
   @Post(':id/cancel')
@@ -300,6 +389,71 @@ export class BlastsController {
     return this.blastsService.cancelBlast(userId, id);
   }
 
+  @Post(':id/pause')
+  @ApiOperation({
+    summary: 'Pause a running blast',
+    description:
+      'Removes remaining jobs from the queue. Unsent recipients are kept and sent again on resume.',
+  })
+  @ApiResponse({ status: 200, description: 'Blast paused successfully' })
+  pauseBlast(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.blastsService.pauseBlast(userId, id);
+  }
+
+  @Post(':id/resume')
+  @ApiOperation({
+    summary: 'Resume a paused blast',
+    description: 'Requeues only the recipients that have not been sent yet.',
+  })
+  @ApiResponse({ status: 200, description: 'Blast resumed successfully' })
+  resumeBlast(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.blastsService.resumeBlast(userId, id);
+  }
+
+  @Post(':id/retry-failed')
+  @ApiOperation({
+    summary: 'Retry the failed recipients of a finished blast',
+    description:
+      'Sends failed messages again (default: network and session errors), in the same blast or as a new child blast. Quota is charged for the retried recipients only.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Retry started (returns the retried or child blast)',
+    type: BlastResponseDto,
+  })
+  retryFailed(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RetryFailedBlastDto,
+  ) {
+    return this.blastsService.retryFailed(userId, id, dto);
+  }
+
+  @Post(':id/clone')
+  @ApiOperation({
+    summary: 'Clone a blast for a new audience',
+    description:
+      'Copies message, media and settings into a new pending blast. Recipients come from the original blast, filtered by reply outcome and conversation funnel stage.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Pending blast created',
+    type: BlastResponseDto,
+  })
+  cloneBlast(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CloneBlastDto,
+  ) {
+    return this.blastsService.cloneBlast(userId, id, dto);
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get all user blasts with pagination and search' })
   @ApiResponse({
@@ -310,6 +464,63 @@ export class BlastsController {
     return this.blastsService.findAll(userId, query);
   }
 
+  @Get('scheduled')
+  @ApiOperation({ summary: 'Get scheduled blasts ordered by start time' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of scheduled blasts',
+    type: [BlastResponseDto],
+  })
+  findScheduled(@CurrentUser('id') userId: string) {
+    return this.blastsService.findScheduled(userId);
+  }
+
+  @Patch(':id/schedule')
+  @ApiOperation({
+    summary: 'Schedule or reschedule a blast',
+    description:
+      'Set a new start time for a pending or scheduled blast. Use POST /blasts/:id/cancel to cancel it.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Blast rescheduled',
+    type: BlastResponseDto,
+  })
+  reschedule(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: RescheduleBlastDto,
+  ) {
+    return this.blastsService.reschedule(userId, id, dto);
+  }
+
+  @Get('queue')
+  @ApiOperation({
+    summary: 'Get the blast queue',
+    description: 'The running or paused blast and the blasts waiting for it.',
+  })
+  @ApiResponse({ status: 200, type: BlastQueueDto })
+  getQueue(@CurrentUser('id') userId: string) {
+    return this.blastsService.getBlastQueue(userId);
+  }
+
+  @Patch('queue')
+  @ApiOperation({
+    summary: 'Reorder the blast queue',
+    description: 'The first blast in blastIds starts next.',
+  })
+  @ApiResponse({ status: 200, type: BlastQueueDto })
+  @ApiResponse({
+    status: 400,
+    description: 'blastIds does not match the queued blasts',
+  })
+  reorderQueue(
+    @CurrentUser('id') userId: string,
+    @Body() dto: ReorderBlastQueueDto,
+  ) {
+    return this.blastsService.reorderBlastQueue(userId, dto.blastIds);
+  }
+
   @Get('stats')
   @ApiOperation({ summary: 'Get blast statistics' })
   @ApiResponse({ status: 200, description: 'User blast statistics' })
@@ -318,7 +529,11 @@ export class BlastsController {
   }
 
   @Get(':id')
-  @ApiOperation({ summary: 'Get blast details' })
+  @ApiOperation({
+    summary: 'Get blast details',
+    description:
+      'Includes A/B test results (sent, replied, reply rate per variant, winner) when the blast is an A/B test.',
+  })
   @ApiResponse({
     status: 200,
     description: 'Blast details',
@@ -328,7 +543,23 @@ export class BlastsController {
     @CurrentUser('id') userId: string,
     @Param('id', ParseUUIDPipe) id: string,
   ) {
-    return this.blastsService.findOne(userId, id);
+    return this.blastsService.getBlastDetail(userId, id);
+  }
+
+  @Get(':id/preview')
+  @ApiOperation({
+    summary: 'Dry-run preview before starting a blast',
+    description:
+      'Rendered message for a sample of recipients, quota the blast will consume, duplicates, numbers not on WhatsApp (checked in bulk) and the estimated finish time. Only for pending/scheduled blasts; nothing is sent or consumed.',
+  })
+  @ApiResponse({ status: 200, description: 'Blast preview' })
+  @ApiResponse({ status: 400, description: 'Blast already started' })
+  preview(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: BlastPreviewQueryDto,
+  ) {
+    return this.blastPreviewService.preview(userId, id, query);
   }
 
   @Get(':id/messages')
@@ -431,4 +662,18 @@ export class BlastsController {
       totalPages: Math.ceil(total / (query.limit || 10)),
     };
   }
+
+  @Post('admin/:id/reconcile')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Reconcile a blast with its messages and queue jobs (Admin)',
+    description:
+      'Recomputes the counters from the message rows, requeues messages without a queue job and completes or fails the blast when nothing is left to send. Also runs on startup and every 10 minutes for running blasts.',
+  })
+  @ApiResponse({ status: 200, type: BlastReconciliationResultDto })
+  @ApiResponse({ status: 404, description: 'Blast not found' })
+  reconcileBlast(@Param('id', ParseUUIDPipe) id: string) {
+    return this.blastReconciliationService.reconcileBlast(id);
+  }
 }
@@ -9,6 +9,8 @@ import { ChatMessage } from '../../database/entities/chat-message.entity';
 import { ChatConversation } from '../../database/entities/chat-conversation.entity';
 import { BlastReply } from '../../database/entities/blast-reply.entity';
 import { User } from '../../database/entities/user.entity';
+import { Contact } from '../../database/entities/contact.entity';
+import { WhatsAppSession } from '../../database/entities/whatsapp-session.entity';
 import { WhatsAppModule } from '../whatsapp/whatsapp.module';
 import { WhatsAppService } from '../whatsapp/whatsapp.service';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
@@ -16,8 +18,20 @@ import { UploadsModule } from '../uploads';
 import { ContactsModule } from '../contacts/contacts.module';
 import { TemplatesModule } from '../templates/templates.module';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { SettingsModule } from '../settings/settings.module';
+import { SegmentsModule } from '../segments/segments.module';
+import { SuppressionsModule } from '../suppressions/suppressions.module';
+import { LinksModule } from '../links/links.module';
 import { ReplyDetectionService } from './services/reply-detection.service';
 import { BlastRepliesService } from './services/blast-replies.service';
+import { BlastSchedulerService } from './services/blast-scheduler.service';
+import { MessagePersonalizationService } from './services/message-personalization.service';
+import { BlastAbTestService } from './services/blast-ab-test.service';
+import { BlastThrottleService } from './services/blast-throttle.service';
+import { BlastPreviewService } from './services/blast-preview.service';
+import { BlastReceiptService } from './services/blast-receipt.service';
+import { BlastReconciliationService } from './services/blast-reconciliation.service';
+import { SessionHealthService } from './services/session-health.service';
 import { AnalyticsModule } from '../analytics/analytics.module';
 import { FollowupsModule } from '../followups/followups.module';
 
@@ -30,6 +44,8 @@ import { FollowupsModule } from '../followups/followups.module';
       ChatConversation,
       BlastReply,
       User,
+      Contact,
+      WhatsAppSession,
     ]),
     BullModule.registerQueue({
       name: 'blast',
@@ -40,6 +56,10 @@ import { FollowupsModule } from '../followups/followups.module';
     ContactsModule,
     TemplatesModule,
     NotificationsModule,
+    SettingsModule,
+    SegmentsModule,
+    SuppressionsModule,
+    LinksModule,
     AnalyticsModule,
     forwardRef(() => FollowupsModule),
   ],
@@ -49,6 +69,14 @@ import { FollowupsModule } from '../followups/followups.module';
     BlastProcessor,
     ReplyDetectionService,
     BlastRepliesService,
+    BlastSchedulerService,
+    MessagePersonalizationService,
+    BlastAbTestService,
+    BlastThrottleService,
+    BlastPreviewService,
+    BlastReceiptService,
+    BlastReconciliationService,
+    SessionHealthService,
   ],
   exports: [BlastsService, ReplyDetectionService],
 })
@@ -56,10 +84,13 @@ export class BlastsModule implements OnModuleInit {
   constructor(
     private readonly whatsAppService: WhatsAppService,
     private readonly replyDetectionService: ReplyDetectionService,
+    private readonly blastReceiptService: BlastReceiptService,
   ) {}
 
   onModuleInit() {
     // Register reply handler with WhatsApp service
     this.whatsAppService.setReplyHandler(this.replyDetectionService);
+    // Delivered/read receipts for blast messages
+    this.whatsAppService.addMessageStatusHandler(this.blastReceiptService);
   }
 }
@@ -6,7 +6,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
+import { Repository, DataSource, LessThanOrEqual, In } from 'typeorm';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import {
@@ -14,16 +14,53 @@ import {
   BlastStatus,
   BlastMessage,
   MessageStatus,
+  MessageErrorType,
+  AbTestStatus,
+  SENT_MESSAGE_STATUSES,
 } from '../../database/entities/blast.entity';
+import { BlastReply } from '../../database/entities/blast-reply.entity';
+import { ConversationFunnel } from '../../database/entities/conversation-funnel.entity';
+import { QuotaRefundReason } from '../../database/entities/quota-refund.entity';
 import { WhatsAppService } from '../whatsapp/whatsapp.service';
 import { WhatsAppGateway } from '../whatsapp/gateways/whatsapp.gateway';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
-import { CreateBlastDto, BlastQueryDto } from './dto';
+import { SettingsService } from '../settings/settings.service';
+import { SegmentsService } from '../segments/segments.service';
+import { ContactsService } from '../contacts/contacts.service';
+import { SuppressionsService } from '../suppressions/suppressions.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  AnalyticsService,
+  AbTestResult,
+} from '../analytics/services/analytics.service';
+import {
+  CreateBlastDto,
+  BlastQueryDto,
+  RescheduleBlastDto,
+  RetryFailedBlastDto,
+  RetryFailedMode,
+  CloneBlastDto,
+  CloneAudience,
+  BlastQueuePriority,
+  BlastQueueDto,
+} from './dto';
 import { BlastJobData } from './processors/blast.processor';
+import { BlastThrottleService } from './services/blast-throttle.service';
+import {
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from '../../common/utils/timezone.util';
+import {
+  SendingWindow,
+  planSendTimes,
+} from '../../common/utils/sending-window.util';
 
 @Injectable()
 export class BlastsService {
   private readonly logger = new Logger(BlastsService.name);
+  private readonly DEFAULT_TIMEZONE = 'Asia/Jakarta';
+  private readonly DEFAULT_AB_TEST_PERCENTAGE = 20;
+  private readonly DEFAULT_AB_TEST_WINDOW_MINUTES = 120;
 
   constructor(
     @InjectRepository(Blast)
@@ -35,6 +72,13 @@ export class BlastsService {
     private readonly whatsappService: WhatsAppService,
     private readonly whatsappGateway: WhatsAppGateway,
     private readonly subscriptionsService: SubscriptionsService,
+    private readonly analyticsService: AnalyticsService,
+    private readonly settingsService: SettingsService,
+    private readonly blastThrottleService: BlastThrottleService,
+    private readonly segmentsService: SegmentsService,
+    private readonly contactsService: ContactsService,
+    private readonly suppressionsService: SuppressionsService,
+    private readonly notificationsService: NotificationsService,
     private readonly dataSource: DataSource,
   ) {}
 
@@ -43,50 +87,76 @@ export class BlastsService {
     createBlastDto: CreateBlastDto,
     mediaUrl?: string,
     mediaType?: string,
+    recipientVariables?: Map<string, Record<string, string>>,
   ): Promise<Blast> {
-    // Check WhatsApp session
-    const isReady = await this.whatsappService.isSessionReady(userId);
-    if (!isReady) {
-      throw new BadRequestException(
-        'WhatsApp session is not connected. Please connect first.',
-      );
+    if (
+      createBlastDto.sessionId &&
+      !(await this.whatsappService.getSessionStatus(
+        userId,
+        createBlastDto.sessionId,
+      ))
+    ) {
+      throw new BadRequestException('WhatsApp number not found');
     }
 
-    // Check subscription quota
-    const quotaCheck = await this.subscriptionsService.checkQuota(userId);
-    if (!quotaCheck.hasSubscription) {
-      throw new ForbiddenException(
-        'No active subscription. Please subscribe first.',
-      );
+    // Check WhatsApp session (scheduled blasts re-check it at fire time)
+    if (!createBlastDto.scheduledAt) {
+      const isReady = await this.isSenderReady({
+        userId,
+        sessionId: createBlastDto.sessionId,
+        rotateSenders: !!createBlastDto.rotateSenders,
+      });
+      if (!isReady) {
+        throw new BadRequestException(
+          'WhatsApp session is not connected. Please connect first.',
+        );
+      }
     }
 
-    // Check blast limit
-    const blastLimitCheck =
-      await this.subscriptionsService.checkBlastLimit(userId);
-    if (!blastLimitCheck.canCreate) {
-      throw new ForbiddenException(
-        blastLimitCheck.message || 'Daily blast limit exceeded',
+    const phoneNumbers = createBlastDto.phoneNumbers || [];
+    let recipientCount = phoneNumbers.length;
+
+    // Segment recipients are resolved at start, use the live count until then
+    const segmentId =
+      createBlastDto.recipientSource === 'segment'
+        ? createBlastDto.segmentId
+        : undefined;
+    if (segmentId) {
+      const { count } = await this.segmentsService.countRecipients(
+        userId,
+        segmentId,
       );
+      if (count === 0) {
+        throw new BadRequestException(
+          'The selected segment has no matching contacts.',
+        );
+      }
+      recipientCount = count;
     }
 
-    const phoneNumbers = createBlastDto.phoneNumbers || [];
-    const recipientCount = phoneNumbers.length;
-
-    // -1 indicates unlimited quota
-    const isMonthlyUnlimited = quotaCheck.remainingQuota === -1;
-    const isDailyUnlimited = quotaCheck.remainingDaily === -1;
+    // Check subscription quota and blast limit
+    await this.assertQuotaAvailable(userId, recipientCount);
 
-    if (!isMonthlyUnlimited && quotaCheck.remainingQuota < recipientCount) {
-      throw new ForbiddenException(
-        `Insufficient quota. Required: ${recipientCount}, Available: ${quotaCheck.remainingQuota}`,
+    // Throttle profile and delay are capped by the package
+    const { throttleProfile, delayMs } =
+      await this.blastThrottleService.resolveSettings(
+        userId,
+        createBlastDto.throttleProfile,
+        createBlastDto.delayMs,
       );
-    }
 
-    if (!isDailyUnlimited && quotaCheck.remainingDaily < recipientCount) {
-      throw new ForbiddenException(
-        `Daily limit exceeded. Required: ${recipientCount}, Remaining today: ${quotaCheck.remainingDaily}`,
-      );
-    }
+    const messageVariants = createBlastDto.messageVariants?.filter((v) =>
+      v.trim(),
+    );
+    const abTest = createBlastDto.abTestEnabled
+      ? this.resolveAbTest(createBlastDto, messageVariants, recipientCount)
+      : undefined;
+
+    // Resolve schedule (if any) before touching the database
+    const timezone = createBlastDto.timezone || this.DEFAULT_TIMEZONE;
+    const scheduledAt = createBlastDto.scheduledAt
+      ? this.resolveScheduledAt(createBlastDto.scheduledAt, timezone)
+      : undefined;
 
     // Use transaction for atomicity
     const queryRunner = this.dataSource.createQueryRunner();
@@ -99,10 +169,24 @@ export class BlastsService {
         userId,
         name: createBlastDto.name,
         message: createBlastDto.message,
+        messageVariants,
         totalRecipients: recipientCount,
         pendingCount: recipientCount,
-        delayMs: createBlastDto.delayMs || 3000,
-        status: BlastStatus.PENDING,
+        delayMs,
+        throttleProfile,
+        segmentId,
+        status: scheduledAt ? BlastStatus.SCHEDULED : BlastStatus.PENDING,
+        scheduledAt,
+        timezone: scheduledAt ? timezone : undefined,
+        variableValues: createBlastDto.variableValues,
+        sendingWindow: createBlastDto.sendingWindow,
+        trackLinks: !!createBlastDto.trackLinks,
+        isTransactional: !!createBlastDto.isTransactional,
+        sessionId: createBlastDto.sessionId || null,
+        rotateSenders: !!createBlastDto.rotateSenders,
+        abTestEnabled: !!abTest,
+        abTestPercentage: abTest?.percentage,
+        abTestWindowMinutes: abTest?.windowMinutes,
         mediaUrl,
         mediaType,
       });
@@ -110,19 +194,28 @@ export class BlastsService {
       await queryRunner.manager.save(blast);
 
       // Create message records in bulk
-      const messages = phoneNumbers.map((phoneNumber) =>
-        this.messageRepository.create({
+      const messages = phoneNumbers.map((phoneNumber) => {
+        const formatted = this.formatPhoneNumber(phoneNumber);
+        return this.messageRepository.create({
           blastId: blast.id,
-          phoneNumber: this.formatPhoneNumber(phoneNumber),
+          phoneNumber: formatted,
+          variables: recipientVariables?.get(formatted),
           status: MessageStatus.PENDING,
-        }),
-      );
+        });
+      });
+
+      // Split the test sample evenly across the variants
+      if (abTest) {
+        this.assignAbTestSample(messages, abTest.sampleSize, abTest.variants);
+      }
 
       await queryRunner.manager.save(messages);
       await queryRunner.commitTransaction();
 
       this.logger.log(
-        `Blast ${blast.id} created with ${recipientCount} recipients`,
+        scheduledAt
+          ? `Blast ${blast.id} scheduled at ${scheduledAt.toISOString()} with ${recipientCount} recipients`
+          : `Blast ${blast.id} created with ${recipientCount} recipients`,
       );
       return blast;
     } catch (error) {
@@ -133,85 +226,121 @@ export class BlastsService {
     }
   }
 
-  async startBlast(userId: string, blastId: string): Promise<Blast> {
+  async startBlast(
+    userId: string,
+    blastId: string,
+    priority: BlastQueuePriority = BlastQueuePriority.NORMAL,
+  ): Promise<Blast> {
     const blast = await this.findOne(userId, blastId);
 
-    if (blast.status !== BlastStatus.PENDING) {
+    if (
+      blast.status !== BlastStatus.PENDING &&
+      blast.status !== BlastStatus.SCHEDULED
+    ) {
       throw new BadRequestException(
         `Blast cannot be started. Current status: ${blast.status}`,
       );
     }
 
-    // Check if user has another blast in progress
-    const processingBlast = await this.blastRepository.findOne({
-      where: {
-        userId,
-        status: BlastStatus.PROCESSING,
-      },
-    });
-
-    if (processingBlast) {
-      throw new BadRequestException(
-        `You have a blast in progress (${processingBlast.name}). Please wait for it to complete before starting another.`,
-      );
+    // Another blast is running or paused - wait in the user's queue
+    if (await this.hasActiveBlast(userId)) {
+      return this.queueBlast(blast, priority);
     }
 
+    // Returns the blast as is when another caller already started it
+    await this.launchBlast(blast);
+    return this.findOne(userId, blastId);
+  }
+
+  /**
+   * Resolve and pre-validate the recipients, charge quota and queue the messages.
+   * Returns false when another caller claimed the blast first.
+   */
+  private async launchBlast(blast: Blast): Promise<boolean> {
+    const { userId, id: blastId } = blast;
+
     // Check WhatsApp session again
-    const isReady = await this.whatsappService.isSessionReady(userId);
+    const isReady = await this.isSenderReady(blast);
     if (!isReady) {
       throw new BadRequestException('WhatsApp session is not connected');
     }
 
-    // Use quota
-    await this.subscriptionsService.useQuota(userId, blast.totalRecipients);
+    // The scheduler, the queue and a double-clicked start can pick up the
+    // same blast - only the caller that moves it to processing launches it
+    const previousStatus = blast.status;
+    const { affected } = await this.blastRepository.update(
+      { id: blastId, status: previousStatus },
+      {
+        status: BlastStatus.PROCESSING,
+        startedAt: new Date(),
+        queuePosition: null,
+      },
+    );
+    if (affected !== 1) {
+      this.logger.log(`Blast ${blastId} was already started elsewhere`);
+      return false;
+    }
 
-    // Use blast limit
-    await this.subscriptionsService.useBlastLimit(userId);
+    try {
+      // Segment blasts get their recipients now
+      if (blast.segmentId) {
+        await this.materializeSegment(blast);
+      }
 
-    // Update blast status
-    await this.blastRepository.update(blastId, {
-      status: BlastStatus.PROCESSING,
-      startedAt: new Date(),
-    });
+      // Drop opted-out numbers, contacts over the frequency cap and numbers
+      // that are not on WhatsApp before they take a queue slot
+      await this.suppressRecipients(blast);
+      if (!blast.isTransactional) {
+        await this.applyFrequencyCap(blast);
+      }
+      await this.prevalidateRecipients(blast);
+      const validRecipients =
+        blast.totalRecipients -
+        blast.invalidCount -
+        blast.suppressedCount -
+        blast.frequencyCappedCount;
+      if (validRecipients <= 0) {
+        throw new BadRequestException(
+          'None of the recipients can be messaged: they opted out, reached the frequency cap or are not registered on WhatsApp.',
+        );
+      }
 
-    // Get all messages
-    const messages = await this.messageRepository.find({
-      where: { blastId },
-    });
+      // Re-check quota (it may have been used up since the blast was created)
+      await this.assertQuotaAvailable(userId, validRecipients);
 
-    // Build bulk job data
-    const jobs = messages.map((message, i) => ({
-      name: 'send-message',
-      data: {
-        blastId,
-        messageId: message.id,
-        userId,
-        phoneNumber: message.phoneNumber,
-        message: blast.message,
-        mediaUrl: blast.mediaUrl || undefined,
-        mediaType: blast.mediaType || undefined,
-      } as BlastJobData,
-      opts: {
-        delay: i * blast.delayMs,
-        attempts: 3,
-        backoff: {
-          type: 'exponential' as const,
-          delay: 5000,
+      // Use quota
+      await this.subscriptionsService.useQuota(userId, validRecipients);
+      await this.messageRepository.update(
+        { blastId, status: MessageStatus.PENDING },
+        { quotaChargedAt: new Date() },
+      );
+
+      // Use blast limit
+      await this.subscriptionsService.useBlastLimit(userId);
+    } catch (error) {
+      // Hand the blast back so the caller can fail or retry it
+      await this.blastRepository.update(
+        { id: blastId, status: BlastStatus.PROCESSING },
+        {
+          status: previousStatus,
+          startedAt: () => 'NULL',
+          queuePosition: blast.queuePosition,
         },
-      },
-    }));
+      );
+      throw error;
+    }
 
-    // Add all jobs in bulk
-    await this.blastQueue.addBulk(jobs);
+    await this.blastRepository.update(blastId, {
+      abTestStatus: blast.abTestEnabled ? AbTestStatus.TESTING : null,
+    });
 
-    // Bulk update all messages to queued status
-    const messageIds = messages.map((m) => m.id);
-    await this.messageRepository
-      .createQueryBuilder()
-      .update()
-      .set({ status: MessageStatus.QUEUED })
-      .whereInIds(messageIds)
-      .execute();
+    // Get pending messages and queue them (A/B tests start with the sample only)
+    const messages = await this.messageRepository.find({
+      where: blast.abTestEnabled
+        ? { blastId, status: MessageStatus.PENDING, isTestSample: true }
+        : { blastId, status: MessageStatus.PENDING },
+    });
+    await this.enqueueMessages(blast, messages);
 
     // Send blast-started WebSocket event
     this.whatsappGateway.sendBlastStarted(userId, {
@@ -223,8 +352,7 @@ export class BlastsService {
     this.logger.log(
       `Blast ${blastId} started with ${messages.length} messages queued`,
     );
-
-    return this.findOne(userId, blastId);
+    return true;
   }
 
   async cancelBlast(userId: string, blastId: string): Promise<Blast> {
@@ -232,7 +360,10 @@ export class BlastsService {
 
     if (
       blast.status !== BlastStatus.PENDING &&
-      blast.status !== BlastStatus.PROCESSING
+      blast.status !== BlastStatus.SCHEDULED &&
+      blast.status !== BlastStatus.QUEUED &&
+      blast.status !== BlastStatus.PROCESSING &&
+      blast.status !== BlastStatus.PAUSED
     ) {
       throw new BadRequestException(
         `Blast cannot be cancelled. Current status: ${blast.status}`,
@@ -248,128 +379,975 @@ export class BlastsService {
       { blastId, status: MessageStatus.QUEUED },
       { status: MessageStatus.CANCELLED },
     );
+    await this.refundQuota(userId, blastId, QuotaRefundReason.CANCELLED);
 
     // Update blast status
     await this.blastRepository.update(blastId, {
       status: BlastStatus.CANCELLED,
       cancelledAt: new Date(),
+      queuePosition: null,
     });
 
     // Drain queue for this blast (remove pending jobs)
-    const jobs = await this.blastQueue.getJobs(['delayed', 'waiting']);
-    for (const job of jobs) {
-      if (job.data.blastId === blastId) {
-        await job.remove();
-      }
-    }
+    await this.removeQueuedJobs(blastId, MessageStatus.CANCELLED);
 
     this.logger.log(`Blast ${blastId} cancelled`);
 
+    if (
+      blast.status === BlastStatus.PROCESSING ||
+      blast.status === BlastStatus.PAUSED
+    ) {
+      await this.startNextQueuedBlast(userId);
+    } else if (blast.status === BlastStatus.QUEUED) {
+      this.whatsappGateway.sendBlastQueueUpdated(
+        userId,
+        await this.getBlastQueue(userId),
+      );
+    }
+
     return this.findOne(userId, blastId);
   }
 
-  async findAll(
+  /**
+   * Give back the quota charged for messages that ended up cancelled, on
+   * an invalid number or opted out. Each message is refunded at most once.
+   */
+  async refundQuota(
     userId: string,
-    query: BlastQueryDto,
-  ): Promise<{
-    data: Blast[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  }> {
-    const page = query.page || 1;
-    const limit = query.limit || 10;
-    const skip = (page - 1) * limit;
+    blastId: string,
+    reason: QuotaRefundReason,
+    messageIds?: string[],
+  ): Promise<void> {
+    const status = {
+      [QuotaRefundReason.CANCELLED]: MessageStatus.CANCELLED,
+      [QuotaRefundReason.INVALID_NUMBER]: MessageStatus.INVALID_NUMBER,
+      [QuotaRefundReason.SUPPRESSED]: MessageStatus.SUPPRESSED,
+    }[reason];
+
+    // Claim the messages first so concurrent refunds don't count them twice
+    const query = this.messageRepository
+      .createQueryBuilder()
+      .update(BlastMessage)
+      .set({ quotaRefundedAt: new Date() })
+      .where('"blastId" = :blastId', { blastId })
+      .andWhere('status = :status', { status })
+      .andWhere('"quotaChargedAt" IS NOT NULL')
+      .andWhere('"quotaRefundedAt" IS NULL');
+    if (messageIds) {
+      query.andWhere('id IN (:...messageIds)', { messageIds });
+    }
+    const result = await query.returning(['quotaChargedAt']).execute();
 
-    const qb = this.blastRepository.createQueryBuilder('blast');
-    qb.where('blast.userId = :userId', { userId });
+    const claimed = result.raw as Pick<BlastMessage, 'quotaChargedAt'>[];
+    if (claimed.length === 0) return;
 
-    // Search by name
-    if (query.search) {
-      qb.andWhere('blast.name ILIKE :search', { search: `%${query.search}%` });
+    try {
+      await this.subscriptionsService.refundQuota(userId, {
+        blastId,
+        reason,
+        chargedAt: claimed.map((message) => new Date(message.quotaChargedAt!)),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to refund quota for blast ${blastId}: ${error}`,
+      );
     }
+  }
 
-    // Filter by status
-    if (query.status) {
-      qb.andWhere('blast.status = :status', { status: query.status });
+  async pauseBlast(userId: string, blastId: string): Promise<Blast> {
+    const blast = await this.findOne(userId, blastId);
+
+    if (blast.status !== BlastStatus.PROCESSING) {
+      throw new BadRequestException(
+        `Blast cannot be paused. Current status: ${blast.status}`,
+      );
     }
 
-    qb.orderBy('blast.createdAt', 'DESC');
-    qb.skip(skip).take(limit);
+    // Flip status first so jobs already picked up by the worker are skipped
+    await this.blastRepository.update(blastId, {
+      status: BlastStatus.PAUSED,
+      pausedAt: new Date(),
+      projectedFinishAt: null,
+    });
 
-    const [data, total] = await qb.getManyAndCount();
+    // Pull remaining jobs out of the queue and put their messages back to pending
+    const removedMessageIds = await this.removeQueuedJobs(blastId);
+    if (removedMessageIds.length > 0) {
+      await this.messageRepository
+        .createQueryBuilder()
+        .update()
+        .set({ status: MessageStatus.PENDING })
+        .whereInIds(removedMessageIds)
+        .andWhere('status = :status', { status: MessageStatus.QUEUED })
+        .execute();
+    }
 
-    return {
-      data,
-      total,
-      page,
-      limit,
-      totalPages: Math.ceil(total / limit),
-    };
-  }
+    // Allow the idle session to auto-disconnect while paused
+    this.whatsappService.setBlastingStatus(userId, false);
 
-  async findOne(userId: string, blastId: string): Promise<Blast> {
-    const blast = await this.blastRepository.findOne({
-      where: { id: blastId },
-    });
+    const paused = await this.findOne(userId, blastId);
 
-    if (!blast) {
-      throw new NotFoundException(`Blast with ID ${blastId} not found`);
-    }
+    this.whatsappGateway.sendBlastPaused(userId, {
+      blastId,
+      name: paused.name,
+      sent: paused.sentCount,
+      failed: paused.failedCount,
+      invalid: paused.invalidCount,
+      pending: paused.pendingCount,
+      total: paused.totalRecipients,
+    });
 
-    if (blast.userId !== userId) {
-      throw new ForbiddenException('You do not have access to this blast');
-    }
+    this.logger.log(
+      `Blast ${blastId} paused with ${removedMessageIds.length} jobs removed from queue`,
+    );
 
-    return blast;
+    return paused;
   }
 
-  async findOneWithMessages(userId: string, blastId: string): Promise<Blast> {
-    const blast = await this.blastRepository.findOne({
-      where: { id: blastId },
-      relations: ['messages'],
+  async resumeBlast(userId: string, blastId: string): Promise<Blast> {
+    const blast = await this.findOne(userId, blastId);
+
+    if (blast.status !== BlastStatus.PAUSED) {
+      throw new BadRequestException(
+        `Blast cannot be resumed. Current status: ${blast.status}`,
+      );
+    }
+
+    const processingBlast = await this.blastRepository.findOne({
+      where: {
+        userId,
+        status: BlastStatus.PROCESSING,
+      },
     });
 
-    if (!blast) {
-      throw new NotFoundException(`Blast with ID ${blastId} not found`);
+    if (processingBlast) {
+      throw new BadRequestException(
+        `You have a blast in progress (${processingBlast.name}). Please wait for it to complete before resuming another.`,
+      );
     }
 
-    if (blast.userId !== userId) {
-      throw new ForbiddenException('You do not have access to this blast');
+    const isReady = await this.isSenderReady(blast);
+    if (!isReady) {
+      throw new BadRequestException('WhatsApp session is not connected');
     }
 
-    return blast;
-  }
+    // Quota was already used when the blast started, only requeue unsent recipients
+    // Recipients outside the A/B sample wait for the winner
+    const holdBackRest =
+      blast.abTestEnabled && blast.abTestStatus !== AbTestStatus.COMPLETED;
+    const messages = await this.messageRepository.find({
+      where: holdBackRest
+        ? { blastId, status: MessageStatus.PENDING, isTestSample: true }
+        : { blastId, status: MessageStatus.PENDING },
+    });
 
-  async getStats(userId: string): Promise<{
-    totalBlasts: number;
-    completedBlasts: number;
-    totalMessagesSent: number;
-    totalMessagesFailed: number;
-  }> {
-    // Use SQL aggregation for better performance
-    const result = await this.blastRepository
-      .createQueryBuilder('blast')
-      .select('COUNT(*)', 'totalBlasts')
-      .addSelect(
-        `SUM(CASE WHEN blast.status = 'completed' THEN 1 ELSE 0 END)`,
-        'completedBlasts',
-      )
-      .addSelect('COALESCE(SUM(blast.sentCount), 0)', 'totalMessagesSent')
-      .addSelect('COALESCE(SUM(blast.failedCount), 0)', 'totalMessagesFailed')
-      .where('blast.userId = :userId', { userId })
-      .getRawOne();
+    await this.blastRepository.update(blastId, {
+      status: BlastStatus.PROCESSING,
+      pausedAt: null,
+    });
 
-    return {
-      totalBlasts: parseInt(result.totalBlasts, 10) || 0,
-      completedBlasts: parseInt(result.completedBlasts, 10) || 0,
-      totalMessagesSent: parseInt(result.totalMessagesSent, 10) || 0,
-      totalMessagesFailed: parseInt(result.totalMessagesFailed, 10) || 0,
-    };
+    await this.enqueueMessages(blast, messages);
+
+    this.whatsappGateway.sendBlastResumed(userId, {
+      blastId,
+      name: blast.name,
+      remaining: messages.length,
+      total: blast.totalRecipients,
+    });
+
+    this.logger.log(
+      `Blast ${blastId} resumed with ${messages.length} messages requeued`,
+    );
+
+    return this.findOne(userId, blastId);
   }
 
-  async findAllAdmin(query?: {
+  /**
+   * Send the failed messages of a finished blast again, either within the same
+   * blast or as a new child blast. Quota is only charged for the retried count.
+   */
+  async retryFailed(
+    userId: string,
+    blastId: string,
+    dto: RetryFailedBlastDto,
+  ): Promise<Blast> {
+    const blast = await this.findOne(userId, blastId);
+
+    if (
+      blast.status !== BlastStatus.COMPLETED &&
+      blast.status !== BlastStatus.FAILED
+    ) {
+      throw new BadRequestException(
+        `Only finished blasts can be retried. Current status: ${blast.status}`,
+      );
+    }
+
+    const errorTypes = dto.errorTypes?.length
+      ? dto.errorTypes
+      : [MessageErrorType.NETWORK_ERROR, MessageErrorType.SESSION_ERROR];
+    const failedMessages = await this.messageRepository.find({
+      where: {
+        blastId,
+        status: MessageStatus.FAILED,
+        errorType: In(errorTypes),
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    if (failedMessages.length === 0) {
+      throw new BadRequestException(
+        `No failed messages with error type: ${errorTypes.join(', ')}`,
+      );
+    }
+
+    if (dto.mode === RetryFailedMode.CLONE) {
+      const child = await this.createFromBlast(
+        blast,
+        `${blast.name} (Retry)`,
+        failedMessages,
+      );
+      this.logger.log(
+        `Blast ${child.id} created to retry ${failedMessages.length} failed messages of blast ${blastId}`,
+      );
+
+      // Charges quota for the child's recipients only
+      return this.startBlast(userId, child.id);
+    }
+
+    // In-place retries bypass the queue, so they must not jump ahead of
+    // queued blasts or run next to a paused one
+    const activeBlast = await this.blastRepository.findOne({
+      where: {
+        userId,
+        status: In([
+          BlastStatus.PROCESSING,
+          BlastStatus.PAUSED,
+          BlastStatus.QUEUED,
+        ]),
+      },
+    });
+    if (activeBlast) {
+      throw new BadRequestException(
+        `You have a blast in progress or queued (${activeBlast.name}). Wait for it to finish, or retry with mode '${RetryFailedMode.CLONE}' to queue the retry.`,
+      );
+    }
+
+    const isReady = await this.isSenderReady(blast);
+    if (!isReady) {
+      throw new BadRequestException('WhatsApp session is not connected');
+    }
+
+    // A retry is not a new blast - only the quota is checked and charged
+    await this.assertQuotaAvailable(userId, failedMessages.length, false);
+    await this.subscriptionsService.useQuota(userId, failedMessages.length);
+
+    const messageIds = failedMessages.map((m) => m.id);
+    await this.messageRepository
+      .createQueryBuilder()
+      .update()
+      .set({
+        status: MessageStatus.PENDING,
+        errorType: MessageErrorType.NONE,
+        errorMessage: () => 'NULL',
+        retryCount: 0,
+        quotaChargedAt: new Date(),
+        quotaRefundedAt: null,
+      })
+      .whereInIds(messageIds)
+      .execute();
+
+    // Move the retried messages from failed back to pending
+    await this.blastRepository
+      .createQueryBuilder()
+      .update(Blast)
+      .set({
+        status: BlastStatus.PROCESSING,
+        failedCount: () => `"failedCount" - ${messageIds.length}`,
+        pendingCount: () => `"pendingCount" + ${messageIds.length}`,
+        completedAt: () => 'NULL',
+      })
+      .where('id = :id', { id: blastId })
+      .execute();
+
+    await this.enqueueMessages(blast, failedMessages);
+
+    this.whatsappGateway.sendBlastStarted(userId, {
+      blastId,
+      name: blast.name,
+      total: blast.totalRecipients,
+    });
+
+    this.logger.log(
+      `Blast ${blastId} retrying ${messageIds.length} failed messages`,
+    );
+
+    return this.findOne(userId, blastId);
+  }
+
+  /**
+   * Copy a blast's message and settings into a new pending blast,
+   * re-targeted by the outcome of the original (replies, funnel stage)
+   */
+  async cloneBlast(
+    userId: string,
+    blastId: string,
+    dto: CloneBlastDto,
+  ): Promise<Blast> {
+    const source = await this.findOne(userId, blastId);
+
+    const query = this.messageRepository
+      .createQueryBuilder('bm')
+      .where('bm.blastId = :blastId', { blastId })
+      .orderBy('bm.createdAt', 'ASC');
+
+    if (dto.excludeInvalid !== false) {
+      query.andWhere('bm.status != :invalid', {
+        invalid: MessageStatus.INVALID_NUMBER,
+      });
+    }
+
+    const audience = dto.audience || CloneAudience.ALL;
+    if (audience !== CloneAudience.ALL) {
+      const replied = query
+        .subQuery()
+        .select('1')
+        .from(BlastReply, 'br')
+        .where('br."blastId" = bm."blastId"')
+        .andWhere('br."phoneNumber" = bm."phoneNumber"')
+        .getQuery();
+      query.andWhere(
+        audience === CloneAudience.REPLIED
+          ? `EXISTS ${replied}`
+          : `NOT EXISTS ${replied}`,
+      );
+    }
+
+    if (dto.funnelStages?.length) {
+      const inStage = query
+        .subQuery()
+        .select('1')
+        .from(ConversationFunnel, 'cf')
+        .where('cf."userId" = :userId')
+        .andWhere('cf."phoneNumber" = bm."phoneNumber"')
+        .andWhere('cf."currentStage" IN (:...funnelStages)')
+        .getQuery();
+      query.andWhere(`EXISTS ${inStage}`, {
+        userId,
+        funnelStages: dto.funnelStages,
+      });
+    }
+
+    const recipients = await query.getMany();
+    if (recipients.length === 0) {
+      throw new BadRequestException('No recipients match the audience filter');
+    }
+
+    await this.assertQuotaAvailable(userId, recipients.length);
+
+    const abTest = source.abTestEnabled
+      ? this.resolveAbTest(
+          {
+            abTestPercentage: source.abTestPercentage,
+            abTestWindowMinutes: source.abTestWindowMinutes,
+          },
+          source.messageVariants,
+          recipients.length,
+        )
+      : undefined;
+
+    const clone = await this.createFromBlast(
+      source,
+      dto.name || `${source.name} (Copy)`,
+      recipients,
+      abTest,
+    );
+
+    this.logger.log(
+      `Blast ${clone.id} cloned from ${blastId} with ${recipients.length} recipients (${audience})`,
+    );
+
+    return clone;
+  }
+
+  /**
+   * Blast detail, including A/B test results when enabled
+   */
+  async getBlastDetail(
+    userId: string,
+    blastId: string,
+  ): Promise<Blast & { abTest?: AbTestResult }> {
+    const blast = await this.findOne(userId, blastId);
+
+    // Not started yet - project from the (scheduled) start time
+    if (
+      blast.status === BlastStatus.PENDING ||
+      blast.status === BlastStatus.SCHEDULED
+    ) {
+      const { finishAt } = await this.projectSchedule(
+        blast,
+        blast.pendingCount,
+      );
+      blast.projectedFinishAt = finishAt;
+    }
+
+    if (!blast.abTestEnabled) {
+      return blast;
+    }
+
+    const abTest = await this.analyticsService.getAbTestResults(blast);
+    return Object.assign(blast, { abTest });
+  }
+
+  /**
+   * Projected start and finish of a blast that has not started yet
+   */
+  async projectSchedule(
+    blast: Blast,
+    recipientCount: number,
+  ): Promise<{ startAt: Date; finishAt: Date | null }> {
+    const startAt = new Date(
+      Math.max(Date.now(), blast.scheduledAt?.getTime() || 0),
+    );
+    const sendTimes = planSendTimes(
+      startAt,
+      recipientCount,
+      await this.blastThrottleService.createDelayPlanner(blast),
+      await this.getSendingWindow(blast),
+    );
+
+    return { startAt, finishAt: sendTimes[sendTimes.length - 1] || null };
+  }
+
+  // ==================== Sending Window ====================
+
+  /**
+   * Sending window of a blast, falling back to the user's default
+   */
+  async getSendingWindow(
+    blast: Pick<Blast, 'userId' | 'sendingWindow'>,
+  ): Promise<SendingWindow | null> {
+    return (
+      blast.sendingWindow ||
+      (await this.settingsService.getSendingWindow(blast.userId))
+    );
+  }
+
+  /**
+   * Replan the blast's queued jobs (plus the given message) from now.
+   * Used when a job fires while the window is closed or the blast was slowed down.
+   */
+  async replanQueuedJobs(blastId: string, messageId?: string): Promise<number> {
+    const blast = await this.blastRepository.findOne({
+      where: { id: blastId },
+    });
+    if (!blast || blast.status !== BlastStatus.PROCESSING) return 0;
+
+    const messageIds = await this.removeQueuedJobs(blastId);
+    if (messageId && !messageIds.includes(messageId)) {
+      messageIds.unshift(messageId);
+    }
+    if (messageIds.length === 0) return 0;
+
+    const messages = await this.messageRepository.find({
+      where: {
+        id: In(messageIds),
+        status: In([MessageStatus.PENDING, MessageStatus.QUEUED]),
+      },
+      order: { createdAt: 'ASC' },
+    });
+    await this.enqueueMessages(blast, messages);
+
+    return messages.length;
+  }
+
+  /**
+   * Queue jobs again for messages that lost theirs (e.g. Redis was flushed)
+   */
+  async requeueMessages(blast: Blast, messages: BlastMessage[]): Promise<void> {
+    await this.enqueueMessages(blast, messages);
+  }
+
+  // ==================== A/B Test ====================
+
+  /**
+   * Get blasts whose A/B test still needs a decision
+   */
+  async findActiveAbTests(): Promise<Blast[]> {
+    return this.blastRepository.find({
+      where: {
+        abTestEnabled: true,
+        abTestStatus: In([AbTestStatus.TESTING, AbTestStatus.EVALUATING]),
+        status: In([
+          BlastStatus.PROCESSING,
+          BlastStatus.PAUSED,
+          BlastStatus.COMPLETED,
+        ]),
+      },
+    });
+  }
+
+  async countUnsentTestSample(blastId: string): Promise<number> {
+    return this.messageRepository.count({
+      where: {
+        blastId,
+        isTestSample: true,
+        status: In([MessageStatus.PENDING, MessageStatus.QUEUED]),
+      },
+    });
+  }
+
+  /**
+   * Test sample is fully sent - start the reply evaluation window
+   */
+  async startAbTestEvaluation(blast: Blast): Promise<Date> {
+    const evaluateAt = new Date(
+      Date.now() + (blast.abTestWindowMinutes || 0) * 60 * 1000,
+    );
+
+    await this.blastRepository.update(
+      { id: blast.id, abTestStatus: AbTestStatus.TESTING },
+      { abTestStatus: AbTestStatus.EVALUATING, abTestEvaluateAt: evaluateAt },
+    );
+
+    this.logger.log(
+      `A/B test sample of blast ${blast.id} sent, picking winner at ${evaluateAt.toISOString()}`,
+    );
+
+    return evaluateAt;
+  }
+
+  /**
+   * Send the winning variant to the recipients outside the test sample
+   */
+  async releaseAbTestWinner(blast: Blast, winnerIndex: number): Promise<void> {
+    const result = await this.blastRepository.update(
+      { id: blast.id, abTestStatus: AbTestStatus.EVALUATING },
+      {
+        abTestStatus: AbTestStatus.COMPLETED,
+        abTestWinnerIndex: winnerIndex,
+      },
+    );
+    if (!result.affected) return;
+
+    await this.messageRepository.update(
+      { blastId: blast.id, isTestSample: false },
+      { variantIndex: winnerIndex },
+    );
+
+    // Paused blasts pick the rest up on resume
+    const current = await this.blastRepository.findOne({
+      where: { id: blast.id },
+      select: ['id', 'status'],
+    });
+    if (current?.status === BlastStatus.PROCESSING) {
+      const messages = await this.messageRepository.find({
+        where: {
+          blastId: blast.id,
+          isTestSample: false,
+          status: MessageStatus.PENDING,
+        },
+      });
+      await this.enqueueMessages(blast, messages);
+    }
+
+    this.logger.log(
+      `A/B test of blast ${blast.id} completed, winner: variant ${winnerIndex}`,
+    );
+  }
+
+  // ==================== Queue ====================
+
+  /**
+   * The user's running or paused blast and the blasts waiting behind it
+   */
+  async getBlastQueue(userId: string): Promise<BlastQueueDto> {
+    const [active, queued] = await Promise.all([
+      this.blastRepository.findOne({
+        where: {
+          userId,
+          status: In([BlastStatus.PROCESSING, BlastStatus.PAUSED]),
+        },
+        order: { startedAt: 'ASC' },
+      }),
+      this.blastRepository.find({
+        where: { userId, status: BlastStatus.QUEUED },
+        order: { queuePosition: 'ASC', queuedAt: 'ASC' },
+      }),
+    ]);
+
+    const toItem = (blast: Blast) => ({
+      id: blast.id,
+      name: blast.name,
+      status: blast.status,
+      totalRecipients: blast.totalRecipients,
+    });
+
+    return {
+      active: active ? toItem(active) : null,
+      queued: queued.map((blast, index) => ({
+        ...toItem(blast),
+        position: index + 1,
+        queuedAt: blast.queuedAt ?? undefined,
+      })),
+    };
+  }
+
+  /**
+   * Set the order of the queued blasts. blastIds must list every queued blast.
+   */
+  async reorderBlastQueue(
+    userId: string,
+    blastIds: string[],
+  ): Promise<BlastQueueDto> {
+    const queued = await this.blastRepository.find({
+      where: { userId, status: BlastStatus.QUEUED },
+      select: ['id'],
+    });
+    const queuedIds = new Set(queued.map((blast) => blast.id));
+
+    if (
+      new Set(blastIds).size !== blastIds.length ||
+      blastIds.length !== queuedIds.size ||
+      blastIds.some((id) => !queuedIds.has(id))
+    ) {
+      throw new BadRequestException(
+        'blastIds must contain every queued blast exactly once',
+      );
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      for (const [index, id] of blastIds.entries()) {
+        await manager.update(
+          Blast,
+          { id, status: BlastStatus.QUEUED },
+          { queuePosition: index + 1 },
+        );
+      }
+    });
+
+    const queue = await this.getBlastQueue(userId);
+    this.whatsappGateway.sendBlastQueueUpdated(userId, queue);
+    return queue;
+  }
+
+  /**
+   * Start the user's next queued blast once no blast is running or paused.
+   * Blasts that cannot start are failed and the next one is tried.
+   */
+  async startNextQueuedBlast(userId: string): Promise<void> {
+    if (await this.hasActiveBlast(userId)) return;
+
+    // Keep the queue while the session is down; it resumes once reconnected
+    if (!(await this.whatsappService.hasReadySession(userId))) return;
+
+    for (;;) {
+      const next = await this.blastRepository.findOne({
+        where: { userId, status: BlastStatus.QUEUED },
+        order: { queuePosition: 'ASC', queuedAt: 'ASC' },
+        relations: { user: true },
+      });
+      if (!next) break;
+
+      try {
+        if (await this.launchBlast(next)) {
+          this.logger.log(`Queued blast ${next.id} started`);
+        }
+        break;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.failQueuedBlast(
+          next,
+          `Blast antrian gagal dimulai: ${message}`,
+        );
+      }
+    }
+
+    this.whatsappGateway.sendBlastQueueUpdated(
+      userId,
+      await this.getBlastQueue(userId),
+    );
+  }
+
+  /**
+   * Users with queued blasts but nothing running, e.g. because the session
+   * was down when the previous blast finished
+   */
+  async findUsersWithStalledQueue(): Promise<string[]> {
+    const rows: { userId: string }[] = await this.blastRepository
+      .createQueryBuilder('blast')
+      .select('DISTINCT blast.userId', 'userId')
+      .where('blast.status = :queued', { queued: BlastStatus.QUEUED })
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM blasts active
+          WHERE active."userId" = blast."userId"
+          AND active.status IN (:...activeStatuses)
+        )`,
+        { activeStatuses: [BlastStatus.PROCESSING, BlastStatus.PAUSED] },
+      )
+      .getRawMany();
+    return rows.map((row) => row.userId);
+  }
+
+  private async queueBlast(
+    blast: Blast,
+    priority: BlastQueuePriority,
+  ): Promise<Blast> {
+    // Fail early - quota is checked and charged again when the blast starts
+    await this.assertQuotaAvailable(blast.userId, blast.totalRecipients);
+
+    const bounds = await this.blastRepository
+      .createQueryBuilder('blast')
+      .select('MIN(blast.queuePosition)', 'min')
+      .addSelect('MAX(blast.queuePosition)', 'max')
+      .where('blast.userId = :userId', { userId: blast.userId })
+      .andWhere('blast.status = :status', { status: BlastStatus.QUEUED })
+      .getRawOne<{ min: number | null; max: number | null }>();
+    const queuePosition =
+      priority === BlastQueuePriority.HIGH
+        ? (bounds?.min ?? 1) - 1
+        : (bounds?.max ?? 0) + 1;
+
+    await this.blastRepository.update(blast.id, {
+      status: BlastStatus.QUEUED,
+      queuePosition,
+      queuedAt: new Date(),
+    });
+
+    const queue = await this.getBlastQueue(blast.userId);
+    const position = queue.queued.findIndex((item) => item.id === blast.id) + 1;
+
+    this.whatsappGateway.sendBlastQueued(blast.userId, {
+      blastId: blast.id,
+      name: blast.name,
+      position,
+      total: blast.totalRecipients,
+    });
+    this.whatsappGateway.sendBlastQueueUpdated(blast.userId, queue);
+
+    this.logger.log(`Blast ${blast.id} queued at position ${position}`);
+
+    return this.findOne(blast.userId, blast.id);
+  }
+
+  /**
+   * Expects the blast with its user relation loaded
+   */
+  private async failQueuedBlast(blast: Blast, reason: string): Promise<void> {
+    await this.messageRepository.update(
+      { blastId: blast.id, status: MessageStatus.PENDING },
+      { status: MessageStatus.CANCELLED },
+    );
+    await this.blastRepository.update(
+      { id: blast.id, status: BlastStatus.QUEUED },
+      {
+        status: BlastStatus.FAILED,
+        errorMessage: reason,
+        completedAt: new Date(),
+        queuePosition: null,
+      },
+    );
+    this.logger.warn(`Queued blast ${blast.id} failed: ${reason}`);
+
+    this.notificationsService
+      .notifyBlastFailed(blast.userId, blast.user.email, blast.name, reason)
+      .catch((err) =>
+        this.logger.error('Failed to send blast failed notification:', err),
+      );
+  }
+
+  // ==================== Scheduling ====================
+
+  async findScheduled(userId: string): Promise<Blast[]> {
+    return this.blastRepository.find({
+      where: { userId, status: BlastStatus.SCHEDULED },
+      order: { scheduledAt: 'ASC' },
+    });
+  }
+
+  async reschedule(
+    userId: string,
+    blastId: string,
+    dto: RescheduleBlastDto,
+  ): Promise<Blast> {
+    const blast = await this.findOne(userId, blastId);
+
+    if (
+      blast.status !== BlastStatus.SCHEDULED &&
+      blast.status !== BlastStatus.PENDING
+    ) {
+      throw new BadRequestException(
+        `Blast cannot be rescheduled. Current status: ${blast.status}`,
+      );
+    }
+
+    const timezone = dto.timezone || blast.timezone || this.DEFAULT_TIMEZONE;
+    const scheduledAt = this.resolveScheduledAt(dto.scheduledAt, timezone);
+
+    await this.blastRepository.update(blastId, {
+      status: BlastStatus.SCHEDULED,
+      scheduledAt,
+      timezone,
+    });
+
+    this.logger.log(
+      `Blast ${blastId} rescheduled to ${scheduledAt.toISOString()} (${timezone})`,
+    );
+
+    return this.findOne(userId, blastId);
+  }
+
+  /**
+   * Get scheduled blasts whose start time has passed
+   */
+  async findDueScheduledBlasts(limit = 50): Promise<Blast[]> {
+    return this.blastRepository.find({
+      where: {
+        status: BlastStatus.SCHEDULED,
+        scheduledAt: LessThanOrEqual(new Date()),
+      },
+      order: { scheduledAt: 'ASC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Whether the user has a running or paused blast. New blasts wait in the
+   * queue until it is finished or cancelled.
+   */
+  async hasActiveBlast(userId: string): Promise<boolean> {
+    const count = await this.blastRepository.count({
+      where: {
+        userId,
+        status: In([BlastStatus.PROCESSING, BlastStatus.PAUSED]),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Mark a scheduled blast as failed when it could not be started at fire time
+   */
+  async markScheduledBlastFailed(
+    blastId: string,
+    reason: string,
+  ): Promise<void> {
+    await this.messageRepository.update(
+      { blastId, status: MessageStatus.PENDING },
+      { status: MessageStatus.CANCELLED },
+    );
+    await this.blastRepository.update(
+      { id: blastId, status: BlastStatus.SCHEDULED },
+      {
+        status: BlastStatus.FAILED,
+        errorMessage: reason,
+        completedAt: new Date(),
+      },
+    );
+  }
+
+  async findAll(
+    userId: string,
+    query: BlastQueryDto,
+  ): Promise<{
+    data: Blast[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const qb = this.blastRepository.createQueryBuilder('blast');
+    qb.where('blast.userId = :userId', { userId });
+
+    // Search by name
+    if (query.search) {
+      qb.andWhere('blast.name ILIKE :search', { search: `%${query.search}%` });
+    }
+
+    // Filter by status
+    if (query.status) {
+      qb.andWhere('blast.status = :status', { status: query.status });
+    }
+
+    qb.orderBy('blast.createdAt', 'DESC');
+    qb.skip(skip).take(limit);
+
+    const [data, total] = await qb.getManyAndCount();
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(userId: string, blastId: string): Promise<Blast> {
+    const blast = await this.blastRepository.findOne({
+      where: { id: blastId },
+    });
+
+    if (!blast) {
+      throw new NotFoundException(`Blast with ID ${blastId} not found`);
+    }
+
+    if (blast.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this blast');
+    }
+
+    return blast;
+  }
+
+  async findOneWithMessages(userId: string, blastId: string): Promise<Blast> {
+    const blast = await this.blastRepository.findOne({
+      where: { id: blastId },
+      relations: ['messages'],
+    });
+
+    if (!blast) {
+      throw new NotFoundException(`Blast with ID ${blastId} not found`);
+    }
+
+    if (blast.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this blast');
+    }
+
+    return blast;
+  }
+
+  async getStats(userId: string): Promise<{
+    totalBlasts: number;
+    completedBlasts: number;
+    totalMessagesSent: number;
+    totalMessagesFailed: number;
+  }> {
+    // Use SQL aggregation for better performance
+    const result = await this.blastRepository
+      .createQueryBuilder('blast')
+      .select('COUNT(*)', 'totalBlasts')
+      .addSelect(
+        `SUM(CASE WHEN blast.status = 'completed' THEN 1 ELSE 0 END)`,
+        'completedBlasts',
+      )
+      .addSelect('COALESCE(SUM(blast.sentCount), 0)', 'totalMessagesSent')
+      .addSelect('COALESCE(SUM(blast.failedCount), 0)', 'totalMessagesFailed')
+      .where('blast.userId = :userId', { userId })
+      .getRawOne();
+
+    return {
+      totalBlasts: parseInt(result.totalBlasts, 10) || 0,
+      completedBlasts: parseInt(result.completedBlasts, 10) || 0,
+      totalMessagesSent: parseInt(result.totalMessagesSent, 10) || 0,
+      totalMessagesFailed: parseInt(result.totalMessagesFailed, 10) || 0,
+    };
+  }
+
+  async findAllAdmin(query?: {
     page?: number;
     limit?: number;
     search?: string;
@@ -408,6 +1386,553 @@ export class BlastsService {
     return { data, total };
   }
 
+  /**
+   * Queue send jobs for the given messages with fresh delays and mark them queued.
+   * Send times follow the throttle profile and are pushed into the sending window.
+   */
+  private async enqueueMessages(
+    blast: Blast,
+    messages: BlastMessage[],
+  ): Promise<void> {
+    if (messages.length === 0) return;
+
+    const now = Date.now();
+    const sendTimes = planSendTimes(
+      new Date(now),
+      messages.length,
+      await this.blastThrottleService.createDelayPlanner(blast),
+      await this.getSendingWindow(blast),
+    );
+
+    // Build bulk job data
+    const jobs = messages.map((message, i) => ({
+      name: 'send-message',
+      data: {
+        blastId: blast.id,
+        messageId: message.id,
+        userId: blast.userId,
+        phoneNumber: message.phoneNumber,
+        message: blast.message,
+        mediaUrl: blast.mediaUrl || undefined,
+        mediaType: blast.mediaType || undefined,
+      } as BlastJobData,
+      opts: {
+        jobId: this.getJobId(blast.id, message.id),
+        // A kept job would block requeueing its message under the same id
+        removeOnComplete: true,
+        removeOnFail: true,
+        delay: sendTimes[i].getTime() - now,
+        attempts: 3,
+        backoff: {
+          type: 'exponential' as const,
+          delay: 5000,
+        },
+      },
+    }));
+
+    // Add all jobs in bulk
+    await this.blastQueue.addBulk(jobs);
+
+    // Bulk update all messages to queued status
+    const messageIds = messages.map((m) => m.id);
+    await this.messageRepository
+      .createQueryBuilder()
+      .update()
+      .set({ status: MessageStatus.QUEUED })
+      .whereInIds(messageIds)
+      .execute();
+
+    await this.blastRepository.update(blast.id, {
+      projectedFinishAt: sendTimes[sendTimes.length - 1],
+    });
+  }
+
+  /**
+   * Create a pending blast with the source blast's message and settings
+   * for the given recipients (per-recipient file data is kept)
+   */
+  private async createFromBlast(
+    source: Blast,
+    name: string,
+    recipients: BlastMessage[],
+    abTest?: { percentage: number; windowMinutes: number; sampleSize: number },
+  ): Promise<Blast> {
+    // The package may have changed since the source blast was created
+    const { throttleProfile, delayMs } =
+      await this.blastThrottleService.resolveSettings(
+        source.userId,
+        source.throttleProfile,
+        source.delayMs,
+      );
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const blast = this.blastRepository.create({
+        userId: source.userId,
+        parentBlastId: source.id,
+        name,
+        message: source.message,
+        messageVariants: source.messageVariants,
+        variableValues: source.variableValues,
+        mediaUrl: source.mediaUrl,
+        mediaType: source.mediaType,
+        delayMs,
+        throttleProfile,
+        sendingWindow: source.sendingWindow,
+        trackLinks: source.trackLinks,
+        isTransactional: source.isTransactional,
+        sessionId: source.sessionId,
+        rotateSenders: source.rotateSenders,
+        abTestEnabled: !!abTest,
+        abTestPercentage: abTest?.percentage,
+        abTestWindowMinutes: abTest?.windowMinutes,
+        totalRecipients: recipients.length,
+        pendingCount: recipients.length,
+        status: BlastStatus.PENDING,
+      });
+      await queryRunner.manager.save(blast);
+
+      const messages = recipients.map((recipient) =>
+        this.messageRepository.create({
+          blastId: blast.id,
+          phoneNumber: recipient.phoneNumber,
+          variables: recipient.variables,
+          status: MessageStatus.PENDING,
+        }),
+      );
+      if (abTest) {
+        this.assignAbTestSample(
+          messages,
+          abTest.sampleSize,
+          1 + (source.messageVariants?.length || 0),
+        );
+      }
+
+      await queryRunner.manager.save(messages);
+      await queryRunner.commitTransaction();
+      return blast;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Remove delayed/waiting jobs of the blast's messages in the given status
+   * from the queue (jobs being processed stay).
+   * Returns the message IDs of the removed jobs
+   */
+  private async removeQueuedJobs(
+    blastId: string,
+    status = MessageStatus.QUEUED,
+  ): Promise<string[]> {
+    // Job ids are derived from message ids, so the shared queue is not scanned
+    const messages = await this.messageRepository.find({
+      where: { blastId, status },
+      select: ['id'],
+    });
+
+    const removed: string[] = [];
+    for (let i = 0; i < messages.length; i += 100) {
+      const batch = messages.slice(i, i + 100);
+      const results = await Promise.all(
+        batch.map(({ id }) =>
+          this.blastQueue.remove(this.getJobId(blastId, id)),
+        ),
+      );
+      batch.forEach(({ id }, j) => {
+        if (results[j] === 1) removed.push(id);
+      });
+    }
+    return removed;
+  }
+
+  private getJobId(blastId: string, messageId: string): string {
+    return `${blastId}_${messageId}`;
+  }
+
+  /**
+   * Replace the blast's recipients with the segment's current contacts.
+   * Updates totalRecipients on the passed blast.
+   */
+  private async materializeSegment(blast: Blast): Promise<void> {
+    const phoneNumbers = await this.segmentsService.resolvePhoneNumbers(
+      blast.userId,
+      blast.segmentId!,
+    );
+    const uniquePhones = [
+      ...new Set(phoneNumbers.map((phone) => this.formatPhoneNumber(phone))),
+    ];
+    if (uniquePhones.length === 0) {
+      throw new BadRequestException(
+        'The selected segment has no matching contacts.',
+      );
+    }
+
+    const abTest = blast.abTestEnabled
+      ? this.resolveAbTest(blast, blast.messageVariants, uniquePhones.length)
+      : undefined;
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      // A previous start attempt may have left messages behind
+      await queryRunner.manager.delete(BlastMessage, { blastId: blast.id });
+
+      const messages = uniquePhones.map((phoneNumber) =>
+        this.messageRepository.create({
+          blastId: blast.id,
+          phoneNumber,
+          status: MessageStatus.PENDING,
+        }),
+      );
+      if (abTest) {
+        this.assignAbTestSample(messages, abTest.sampleSize, abTest.variants);
+      }
+      await queryRunner.manager.save(messages);
+
+      await queryRunner.manager.update(Blast, blast.id, {
+        totalRecipients: messages.length,
+        pendingCount: messages.length,
+        invalidCount: 0,
+        suppressedCount: 0,
+        frequencyCappedCount: 0,
+      });
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+
+    blast.totalRecipients = uniquePhones.length;
+    blast.pendingCount = uniquePhones.length;
+    blast.invalidCount = 0;
+    blast.suppressedCount = 0;
+    blast.frequencyCappedCount = 0;
+    this.logger.log(
+      `Blast ${blast.id} resolved ${uniquePhones.length} recipients from segment ${blast.segmentId}`,
+    );
+  }
+
+  /**
+   * Mark pending recipients on the user's opt-out list SUPPRESSED.
+   * Updates the counters on the passed blast.
+   */
+  private async suppressRecipients(blast: Blast): Promise<void> {
+    const messages = await this.messageRepository.find({
+      where: { blastId: blast.id, status: MessageStatus.PENDING },
+      select: ['id', 'phoneNumber'],
+    });
+    if (messages.length === 0) return;
+
+    const suppressedPhones =
+      await this.suppressionsService.getSuppressedNumbers(blast.userId, [
+        ...new Set(messages.map((m) => m.phoneNumber)),
+      ]);
+    const suppressedIds = messages
+      .filter((m) => suppressedPhones.has(m.phoneNumber))
+      .map((m) => m.id);
+    if (suppressedIds.length === 0) return;
+
+    for (let i = 0; i < suppressedIds.length; i += 1000) {
+      await this.messageRepository.update(
+        { id: In(suppressedIds.slice(i, i + 1000)) },
+        {
+          status: MessageStatus.SUPPRESSED,
+          errorMessage: 'Recipient opted out',
+        },
+      );
+    }
+
+    await this.blastRepository
+      .createQueryBuilder()
+      .update(Blast)
+      .set({
+        suppressedCount: () => `"suppressedCount" + ${suppressedIds.length}`,
+        pendingCount: () => `"pendingCount" - ${suppressedIds.length}`,
+      })
+      .where('id = :id', { id: blast.id })
+      .execute();
+
+    blast.suppressedCount += suppressedIds.length;
+    blast.pendingCount -= suppressedIds.length;
+    this.logger.log(
+      `Blast ${blast.id}: ${suppressedIds.length} recipients are on the opt-out list`,
+    );
+  }
+
+  /**
+   * Whether the blast can send: any connected number when rotating,
+   * otherwise its chosen number or the default one
+   */
+  async isSenderReady(
+    blast: Pick<Blast, 'userId' | 'sessionId' | 'rotateSenders'>,
+  ): Promise<boolean> {
+    return blast.rotateSenders
+      ? this.whatsappService.hasReadySession(blast.userId)
+      : this.whatsappService.isSessionReady(blast.userId, blast.sessionId);
+  }
+
+  /**
+   * Mark pending recipients who already received the user's frequency cap
+   * of marketing blast messages SKIPPED_FREQUENCY.
+   * Updates the counters on the passed blast.
+   */
+  private async applyFrequencyCap(blast: Blast): Promise<void> {
+    const messages = await this.messageRepository.find({
+      where: { blastId: blast.id, status: MessageStatus.PENDING },
+      select: ['id', 'phoneNumber'],
+    });
+    if (messages.length === 0) return;
+
+    const cappedPhones = await this.getFrequencyCappedNumbers(blast.userId, [
+      ...new Set(messages.map((m) => m.phoneNumber)),
+    ]);
+    const cappedIds = messages
+      .filter((m) => cappedPhones.has(m.phoneNumber))
+      .map((m) => m.id);
+    if (cappedIds.length === 0) return;
+
+    for (let i = 0; i < cappedIds.length; i += 1000) {
+      await this.messageRepository.update(
+        { id: In(cappedIds.slice(i, i + 1000)) },
+        {
+          status: MessageStatus.SKIPPED_FREQUENCY,
+          errorMessage: 'Recipient reached the frequency cap',
+        },
+      );
+    }
+
+    await this.blastRepository
+      .createQueryBuilder()
+      .update(Blast)
+      .set({
+        frequencyCappedCount: () =>
+          `"frequencyCappedCount" + ${cappedIds.length}`,
+        pendingCount: () => `"pendingCount" - ${cappedIds.length}`,
+      })
+      .where('id = :id', { id: blast.id })
+      .execute();
+
+    blast.frequencyCappedCount += cappedIds.length;
+    blast.pendingCount -= cappedIds.length;
+    this.logger.log(
+      `Blast ${blast.id}: ${cappedIds.length} recipients reached the frequency cap`,
+    );
+  }
+
+  /**
+   * Numbers that already received the user's frequency cap of messages
+   * from non-transactional blasts within the cap period
+   */
+  async getFrequencyCappedNumbers(
+    userId: string,
+    phoneNumbers: string[],
+  ): Promise<Set<string>> {
+    const capped = new Set<string>();
+    const cap = await this.settingsService.getFrequencyCap(userId);
+    if (!cap || phoneNumbers.length === 0) return capped;
+
+    const since = new Date(Date.now() - cap.periodDays * 24 * 60 * 60 * 1000);
+    for (let i = 0; i < phoneNumbers.length; i += 1000) {
+      const rows = await this.messageRepository
+        .createQueryBuilder('bm')
+        .innerJoin('bm.blast', 'blast')
+        .select('bm.phoneNumber', 'phoneNumber')
+        .where('blast.userId = :userId', { userId })
+        .andWhere('blast.isTransactional = false')
+        .andWhere('bm.status IN (:...sent)', { sent: SENT_MESSAGE_STATUSES })
+        .andWhere('bm.sentAt >= :since', { since })
+        .andWhere('bm.phoneNumber IN (:...phones)', {
+          phones: phoneNumbers.slice(i, i + 1000),
+        })
+        .groupBy('bm.phoneNumber')
+        .having('COUNT(*) >= :max', { max: cap.maxMessages })
+        .getRawMany<{ phoneNumber: string }>();
+      rows.forEach((row) => capped.add(row.phoneNumber));
+    }
+    return capped;
+  }
+
+  /**
+   * Check pending recipients against WhatsApp in bulk and mark the
+   * unregistered ones INVALID_NUMBER. Updates the counters on the passed blast.
+   * Numbers that could not be checked stay pending for the processor.
+   */
+  private async prevalidateRecipients(blast: Blast): Promise<void> {
+    const messages = await this.messageRepository.find({
+      where: { blastId: blast.id, status: MessageStatus.PENDING },
+      select: ['id', 'phoneNumber'],
+    });
+    if (messages.length === 0) return;
+
+    const { registered, notRegistered } =
+      await this.whatsappService.checkNumbersBulk(blast.userId, [
+        ...new Set(messages.map((m) => m.phoneNumber)),
+      ]);
+    await this.contactsService.updateWaStatus(
+      blast.userId,
+      registered,
+      notRegistered,
+    );
+    if (notRegistered.length === 0) return;
+
+    const invalidPhones = new Set(notRegistered);
+    const invalidIds = messages
+      .filter((m) => invalidPhones.has(m.phoneNumber))
+      .map((m) => m.id);
+
+    for (let i = 0; i < invalidIds.length; i += 1000) {
+      await this.messageRepository.update(
+        { id: In(invalidIds.slice(i, i + 1000)) },
+        {
+          status: MessageStatus.INVALID_NUMBER,
+          errorType: MessageErrorType.INVALID_NUMBER,
+          errorMessage: 'Number not registered on WhatsApp',
+        },
+      );
+    }
+
+    await this.blastRepository
+      .createQueryBuilder()
+      .update(Blast)
+      .set({
+        invalidCount: () => `"invalidCount" + ${invalidIds.length}`,
+        pendingCount: () => `"pendingCount" - ${invalidIds.length}`,
+      })
+      .where('id = :id', { id: blast.id })
+      .execute();
+
+    blast.invalidCount += invalidIds.length;
+    blast.pendingCount -= invalidIds.length;
+    this.logger.log(
+      `Blast ${blast.id}: ${invalidIds.length} of ${messages.length} recipients are not on WhatsApp`,
+    );
+  }
+
+  private resolveAbTest(
+    dto: Pick<CreateBlastDto, 'abTestPercentage' | 'abTestWindowMinutes'>,
+    messageVariants: string[] | undefined,
+    recipientCount: number,
+  ): {
+    variants: number;
+    percentage: number;
+    windowMinutes: number;
+    sampleSize: number;
+  } {
+    const variants = 1 + (messageVariants?.length || 0);
+    if (variants < 2) {
+      throw new BadRequestException(
+        'A/B test requires at least one message variant (messageVariants).',
+      );
+    }
+
+    const percentage = dto.abTestPercentage || this.DEFAULT_AB_TEST_PERCENTAGE;
+    const sampleSize = Math.min(
+      recipientCount,
+      Math.max(variants, Math.ceil((recipientCount * percentage) / 100)),
+    );
+    if (sampleSize < variants) {
+      throw new BadRequestException(
+        `A/B test requires at least ${variants} recipients (one per variant).`,
+      );
+    }
+
+    return {
+      variants,
+      percentage,
+      windowMinutes:
+        dto.abTestWindowMinutes || this.DEFAULT_AB_TEST_WINDOW_MINUTES,
+      sampleSize,
+    };
+  }
+
+  /**
+   * Pick a random sample and assign variants round-robin
+   */
+  private assignAbTestSample(
+    messages: BlastMessage[],
+    sampleSize: number,
+    variants: number,
+  ): void {
+    const indexes = messages.map((_, i) => i);
+    for (let i = indexes.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+    }
+
+    indexes.slice(0, sampleSize).forEach((messageIndex, i) => {
+      messages[messageIndex].isTestSample = true;
+      messages[messageIndex].variantIndex = i % variants;
+    });
+  }
+
+  private async assertQuotaAvailable(
+    userId: string,
+    recipientCount: number,
+    checkBlastLimit = true,
+  ): Promise<void> {
+    const quotaCheck = await this.subscriptionsService.checkQuota(userId);
+    if (!quotaCheck.hasSubscription) {
+      throw new ForbiddenException(
+        'No active subscription. Please subscribe first.',
+      );
+    }
+
+    // Check blast limit
+    if (checkBlastLimit) {
+      const blastLimitCheck =
+        await this.subscriptionsService.checkBlastLimit(userId);
+      if (!blastLimitCheck.canCreate) {
+        throw new ForbiddenException(
+          blastLimitCheck.message || 'Daily blast limit exceeded',
+        );
+      }
+    }
+
+    // -1 indicates unlimited quota
+    const isMonthlyUnlimited = quotaCheck.remainingQuota === -1;
+    const isDailyUnlimited = quotaCheck.remainingDaily === -1;
+
+    if (!isMonthlyUnlimited && quotaCheck.remainingQuota < recipientCount) {
+      throw new ForbiddenException(
+        `Insufficient quota. Required: ${recipientCount}, Available: ${quotaCheck.remainingQuota}`,
+      );
+    }
+
+    if (!isDailyUnlimited && quotaCheck.remainingDaily < recipientCount) {
+      throw new ForbiddenException(
+        `Daily limit exceeded. Required: ${recipientCount}, Remaining today: ${quotaCheck.remainingDaily}`,
+      );
+    }
+  }
+
+  private resolveScheduledAt(scheduledAt: string, timezone: string): Date {
+    if (!isValidTimeZone(timezone)) {
+      throw new BadRequestException(`Invalid timezone: ${timezone}`);
+    }
+
+    const date = zonedTimeToUtc(scheduledAt, timezone);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid scheduledAt: ${scheduledAt}`);
+    }
+
+    if (date.getTime() <= Date.now()) {
+      throw new BadRequestException('scheduledAt must be in the future');
+    }
+
+    return date;
+  }
+
   private formatPhoneNumber(phone: string): string {
     // Remove all non-digit characters (handles +, -, (), spaces, dots, quotes, etc.)
     let cleaned = phone.replace(/\D/g, '');
@@ -3,12 +3,26 @@ import {
   IsArray,
   IsOptional,
   IsNumber,
+  IsInt,
+  IsBoolean,
   Min,
+  Max,
   ArrayMinSize,
+  ArrayMaxSize,
   Allow,
+  IsDateString,
+  IsEnum,
+  IsUUID,
+  ValidateNested,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Transform } from 'class-transformer';
+import { Transform, plainToInstance } from 'class-transformer';
+import { SendingWindowDto } from '../../../common/dto';
+import {
+  MessageErrorType,
+  ThrottleProfile,
+} from '../../../database/entities/blast.entity';
+import { FunnelStage } from '../../../database/entities/conversation-funnel.entity';
 
 export class CreateBlastDto {
   @ApiProperty({ example: 'January Promo', description: 'Campaign name' })
@@ -33,15 +47,16 @@ export class CreateBlastDto {
   templateId?: string;
 
   @ApiPropertyOptional({
-    example: { name: 'John', product: 'Laptop' },
-    description: 'Variable values to replace in template message.',
+    example: { name: 'Kak', product: 'Laptop' },
+    description:
+      'Default values for message placeholders. Placeholders are resolved per recipient at send time from the uploaded file row and contact ({name}, {waName}, {phone}, {email}, {tags}); these values are used when a recipient has none. Inline fallback: {name|Kak}.',
   })
   @IsOptional()
-  @Transform(({ value }) => {
+  @Transform(({ value }: { value: unknown }) => {
     if (typeof value === 'string') {
       if (value === '') return undefined;
       try {
-        return JSON.parse(value);
+        return JSON.parse(value) as unknown;
       } catch {
         return undefined;
       }
@@ -50,17 +65,40 @@ export class CreateBlastDto {
   })
   variableValues?: Record<string, string>;
 
+  @ApiPropertyOptional({
+    example: ['Hai {name}, promo hari ini!', '{Halo|Hi} {name}, ada promo!'],
+    description:
+      'Alternative message texts. Each recipient gets one of [message, ...messageVariants], chosen per recipient. Spintax like {Halo|Hai|Hi} is supported in all texts.',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @Transform(({ value }: { value: unknown }) => {
+    if (value === '' || value === null || value === undefined) return undefined;
+    if (typeof value === 'string') {
+      try {
+        const parsed = JSON.parse(value) as unknown;
+        return Array.isArray(parsed) ? (parsed as unknown[]) : [value];
+      } catch {
+        return [value];
+      }
+    }
+    return value;
+  })
+  messageVariants?: string[];
+
   // ==================== Recipient Source ====================
 
   @ApiPropertyOptional({
     example: 'manual',
-    enum: ['manual', 'from_contacts', 'file'],
+    enum: ['manual', 'from_contacts', 'file', 'segment'],
     description:
-      'How to select recipients: manual (input numbers), from_contacts (select from saved contacts), file (upload CSV/Excel)',
+      'How to select recipients: manual (input numbers), from_contacts (select from saved contacts), file (upload CSV/Excel), segment (saved segment, resolved when the blast starts)',
   })
   @IsOptional()
   @IsString()
-  recipientSource?: 'manual' | 'from_contacts' | 'file';
+  recipientSource?: 'manual' | 'from_contacts' | 'file' | 'segment';
 
   @ApiPropertyOptional({
     example: ['628123456789', '628987654331'],
@@ -70,14 +108,14 @@ export class CreateBlastDto {
   @IsOptional()
   @IsArray()
   @IsString({ each: true })
-  @Transform(({ value }) => {
+  @Transform(({ value }: { value: unknown }) => {
     if (value === '' || value === null || value === undefined) {
       return undefined;
     }
     if (typeof value === 'string') {
       try {
-        const parsed = JSON.parse(value);
-        return Array.isArray(parsed) ? parsed : undefined;
+        const parsed = JSON.parse(value) as unknown;
+        return Array.isArray(parsed) ? (parsed as unknown[]) : undefined;
       } catch {
         if (value.includes(',')) {
           return value
@@ -100,12 +138,12 @@ export class CreateBlastDto {
   @IsOptional()
   @IsArray()
   @IsString({ each: true })
-  @Transform(({ value }) => {
+  @Transform(({ value }: { value: unknown }) => {
     if (value === '' || value === null || value === undefined) return undefined;
     if (typeof value === 'string') {
       try {
-        const parsed = JSON.parse(value);
-        return Array.isArray(parsed) ? parsed : undefined;
+        const parsed = JSON.parse(value) as unknown;
+        return Array.isArray(parsed) ? (parsed as unknown[]) : undefined;
       } catch {
         return value.includes(',')
           ? value
@@ -119,6 +157,14 @@ export class CreateBlastDto {
   })
   contactIds?: string[];
 
+  @ApiPropertyOptional({
+    example: 'segment-uuid',
+    description: 'Saved segment ID (when recipientSource = segment)',
+  })
+  @IsOptional()
+  @IsUUID()
+  segmentId?: string;
+
   @ApiPropertyOptional({
     example: 3000,
     description: 'Delay between messages in ms',
@@ -127,7 +173,7 @@ export class CreateBlastDto {
   @IsNumber()
   @IsOptional()
   @Min(1000)
-  @Transform(({ value }) => {
+  @Transform(({ value }: { value: unknown }) => {
     if (typeof value === 'string') {
       if (value === '') return undefined;
       const parsed = parseInt(value, 10);
@@ -137,6 +183,188 @@ export class CreateBlastDto {
   })
   delayMs?: number;
 
+  @ApiPropertyOptional({
+    enum: ThrottleProfile,
+    example: ThrottleProfile.NORMAL,
+    description:
+      'Sending pace: random jitter around delayMs, a cooldown after every batch, a warm-up for newly linked numbers and automatic slowdown on rate limits. safe = slowest. Limited by the package.',
+    default: ThrottleProfile.NORMAL,
+  })
+  @IsOptional()
+  @IsEnum(ThrottleProfile)
+  @Transform(({ value }: { value: unknown }) =>
+    value === '' ? undefined : value,
+  )
+  throttleProfile?: ThrottleProfile;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Replace URLs in the message (and in followups of this blast) with per-recipient short links to track clicks',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value === 'true';
+    }
+    return value;
+  })
+  trackLinks?: boolean;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Transactional blasts are not subject to the frequency cap and do not count towards it',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value === 'true';
+    }
+    return value;
+  })
+  isTransactional?: boolean;
+
+  // ==================== Sender ====================
+
+  @ApiPropertyOptional({
+    example: 'session-uuid',
+    description:
+      'WhatsApp number (session) to send from. Default: the default number',
+  })
+  @IsOptional()
+  @IsUUID()
+  @Transform(({ value }: { value: unknown }) =>
+    value === '' ? undefined : value,
+  )
+  sessionId?: string;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Spread recipients across all connected numbers (ignores sessionId)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value === 'true';
+    }
+    return value;
+  })
+  rotateSenders?: boolean;
+
+  // ==================== A/B Test ====================
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Split a test sample across [message, ...messageVariants], then send the variant with the best reply rate to the remaining recipients. Requires at least one messageVariant.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      return value === 'true';
+    }
+    return value;
+  })
+  abTestEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    example: 20,
+    description: 'Percentage of recipients in the test sample',
+    default: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      if (value === '') return undefined;
+      const parsed = parseInt(value, 10);
+      return isNaN(parsed) ? undefined : parsed;
+    }
+    return value;
+  })
+  abTestPercentage?: number;
+
+  @ApiPropertyOptional({
+    example: 120,
+    description:
+      'Minutes to wait for replies after the test sample is sent before picking the winner',
+    default: 120,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(10)
+  @Max(4320)
+  @Transform(({ value }: { value: unknown }) => {
+    if (typeof value === 'string') {
+      if (value === '') return undefined;
+      const parsed = parseInt(value, 10);
+      return isNaN(parsed) ? undefined : parsed;
+    }
+    return value;
+  })
+  abTestWindowMinutes?: number;
+
+  // ==================== Scheduling ====================
+
+  @ApiPropertyOptional({
+    example: '2026-02-01T09:00',
+    description:
+      'Schedule the blast to start automatically at this time. Local date/time in `timezone`, or ISO string with offset. Omit to create a pending blast that is started manually.',
+  })
+  @IsOptional()
+  @IsDateString()
+  @Transform(({ value }: { value: unknown }) =>
+    value === '' ? undefined : value,
+  )
+  scheduledAt?: string;
+
+  @ApiPropertyOptional({
+    example: 'Asia/Jakarta',
+    description:
+      'IANA timezone used to interpret scheduledAt (default: Asia/Jakarta)',
+  })
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }: { value: unknown }) =>
+    value === '' ? undefined : value,
+  )
+  timezone?: string;
+
+  // ==================== Sending Window ====================
+
+  @ApiPropertyOptional({
+    type: SendingWindowDto,
+    example: { startTime: '08:00', endTime: '20:00', days: [1, 2, 3, 4, 5] },
+    description:
+      'Allowed sending hours. Messages that would go out outside the window wait for its next opening. JSON string for multipart. Default: the sendingWindow from user settings.',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Transform(({ value }: { value: unknown }) => {
+    if (value === '' || value === null || value === undefined) return undefined;
+    let parsed: unknown = value;
+    if (typeof value === 'string') {
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return plainToInstance(SendingWindowDto, parsed);
+  })
+  sendingWindow?: SendingWindowDto;
+
   // File fields - handled by file interceptor
   @Allow()
   @IsOptional()
@@ -147,6 +375,34 @@ export class CreateBlastDto {
   mediaFile?: any;
 }
 
+export class AbTestVariantResultDto {
+  @ApiProperty({ description: '0 = main message, 1+ = messageVariants' })
+  index: number;
+  @ApiProperty()
+  message: string;
+  @ApiProperty({ description: 'Test sample recipients sent this variant' })
+  sent: number;
+  @ApiProperty()
+  replied: number;
+  @ApiProperty({ description: 'Reply rate in percent' })
+  replyRate: number;
+}
+
+export class AbTestResultDto {
+  @ApiPropertyOptional({ enum: ['testing', 'evaluating', 'completed'] })
+  status?: string;
+  @ApiProperty()
+  testPercentage: number;
+  @ApiProperty()
+  windowMinutes: number;
+  @ApiPropertyOptional({ description: 'When the winner will be picked' })
+  evaluateAt?: Date;
+  @ApiPropertyOptional()
+  winnerIndex?: number;
+  @ApiProperty({ type: [AbTestVariantResultDto] })
+  variants: AbTestVariantResultDto[];
+}
+
 export class BlastResponseDto {
   @ApiProperty()
   id: string;
@@ -154,6 +410,8 @@ export class BlastResponseDto {
   name: string;
   @ApiProperty()
   message: string;
+  @ApiPropertyOptional({ type: [String] })
+  messageVariants?: string[];
   @ApiProperty()
   status: string;
   @ApiProperty()
@@ -166,6 +424,34 @@ export class BlastResponseDto {
   pendingCount: number;
   @ApiProperty()
   delayMs: number;
+  @ApiPropertyOptional({
+    description: 'Blast this one was cloned or retried from',
+  })
+  parentBlastId?: string;
+  @ApiProperty({ enum: ThrottleProfile, example: ThrottleProfile.NORMAL })
+  throttleProfile: ThrottleProfile;
+  @ApiProperty({
+    example: 1,
+    description:
+      'Delay multiplier applied after rate limit / session errors spiked (1 = no slowdown)',
+  })
+  throttleSlowdown: number;
+  @ApiProperty({ description: 'URLs are sent as tracked short links' })
+  trackLinks: boolean;
+  @ApiProperty({ description: 'Recipients who clicked a tracked link' })
+  clickedCount: number;
+  @ApiProperty({ description: 'Blast bypasses the frequency cap' })
+  isTransactional: boolean;
+  @ApiProperty({
+    description: 'Recipients skipped because they reached the frequency cap',
+  })
+  frequencyCappedCount: number;
+  @ApiPropertyOptional({
+    description: 'WhatsApp number (session) to send from',
+  })
+  sessionId?: string;
+  @ApiProperty({ description: 'Recipients are spread across all numbers' })
+  rotateSenders: boolean;
   @ApiPropertyOptional({
     description: 'Media file URL (image, video, audio, document)',
   })
@@ -175,14 +461,216 @@ export class BlastResponseDto {
     description: 'Type of attached media',
   })
   mediaType?: string;
+  @ApiPropertyOptional({
+    type: () => AbTestResultDto,
+    description: 'A/B test results (GET /blasts/:id only)',
+  })
+  abTest?: AbTestResultDto;
+  @ApiPropertyOptional({ description: 'Scheduled start time (UTC)' })
+  scheduledAt?: Date;
+  @ApiPropertyOptional({ example: 'Asia/Jakarta' })
+  timezone?: string;
   @ApiPropertyOptional()
   startedAt?: Date;
+  @ApiPropertyOptional({ description: 'Set while the blast is paused' })
+  pausedAt?: Date;
+  @ApiPropertyOptional({
+    description: 'Order in the blast queue, set while the blast is queued',
+  })
+  queuePosition?: number;
+  @ApiPropertyOptional({
+    type: SendingWindowDto,
+    description: 'Allowed sending hours set on this blast',
+  })
+  sendingWindow?: SendingWindowDto;
+  @ApiPropertyOptional({
+    description:
+      'Expected time the last message goes out, taking the delay and sending window into account',
+  })
+  projectedFinishAt?: Date;
   @ApiPropertyOptional()
   completedAt?: Date;
   @ApiProperty()
   createdAt: Date;
 }
 
+export class RescheduleBlastDto {
+  @ApiProperty({
+    example: '2026-02-01T09:00',
+    description:
+      'New start time. Local date/time in `timezone`, or ISO string with offset.',
+  })
+  @IsDateString()
+  scheduledAt: string;
+
+  @ApiPropertyOptional({
+    example: 'Asia/Jakarta',
+    description:
+      'IANA timezone used to interpret scheduledAt (default: the timezone the blast was scheduled in)',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+}
+
+export enum BlastQueuePriority {
+  NORMAL = 'normal', // Back of the queue
+  HIGH = 'high', // Front of the queue
+}
+
+export class StartBlastDto {
+  @ApiPropertyOptional({
+    enum: BlastQueuePriority,
+    example: BlastQueuePriority.NORMAL,
+    description:
+      'Where the blast joins the queue when another blast is running: high = next in line, normal = last',
+    default: BlastQueuePriority.NORMAL,
+  })
+  @IsOptional()
+  @IsEnum(BlastQueuePriority)
+  priority?: BlastQueuePriority;
+}
+
+export class ReorderBlastQueueDto {
+  @ApiProperty({
+    type: [String],
+    example: ['uuid-2', 'uuid-1'],
+    description:
+      'IDs of all queued blasts in the new order (first starts next)',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID('all', { each: true })
+  blastIds: string[];
+}
+
+export class BlastQueueItemDto {
+  @ApiProperty()
+  id: string;
+  @ApiProperty()
+  name: string;
+  @ApiProperty({ example: 'queued' })
+  status: string;
+  @ApiProperty()
+  totalRecipients: number;
+  @ApiPropertyOptional({ description: '1 = starts next (queued blasts only)' })
+  position?: number;
+  @ApiPropertyOptional()
+  queuedAt?: Date;
+}
+
+export class BlastQueueDto {
+  @ApiPropertyOptional({
+    type: BlastQueueItemDto,
+    nullable: true,
+    description: 'Blast currently running or paused',
+  })
+  active: BlastQueueItemDto | null;
+  @ApiProperty({ type: [BlastQueueItemDto] })
+  queued: BlastQueueItemDto[];
+}
+
+export class BlastReconciliationResultDto {
+  @ApiProperty()
+  blastId: string;
+  @ApiProperty({ example: 'processing' })
+  previousStatus: string;
+  @ApiProperty({ example: 'completed' })
+  status: string;
+  @ApiProperty({
+    example: { pendingCount: { before: 12, after: 0 } },
+    description: 'Counters that had drifted from the message rows',
+  })
+  counters: Record<string, { before: number; after: number }>;
+  @ApiProperty({ description: 'Messages put back in the queue' })
+  requeued: number;
+  @ApiProperty({
+    description:
+      'Unsent messages were failed because the session stayed disconnected',
+  })
+  stalled: boolean;
+  @ApiPropertyOptional({ example: 'Blast is still sending' })
+  skipped?: string;
+}
+
+export enum RetryFailedMode {
+  REQUEUE = 'requeue', // Send again within the same blast
+  CLONE = 'clone', // Create and start a linked child blast
+}
+
+export class RetryFailedBlastDto {
+  @ApiPropertyOptional({
+    enum: MessageErrorType,
+    isArray: true,
+    example: [MessageErrorType.NETWORK_ERROR, MessageErrorType.SESSION_ERROR],
+    description:
+      'Only retry failed messages with these error types (default: network_error, session_error)',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(MessageErrorType, { each: true })
+  errorTypes?: MessageErrorType[];
+
+  @ApiPropertyOptional({
+    enum: RetryFailedMode,
+    example: RetryFailedMode.REQUEUE,
+    description:
+      'requeue = send again in the same blast, clone = new child blast linked by parentBlastId',
+    default: RetryFailedMode.REQUEUE,
+  })
+  @IsOptional()
+  @IsEnum(RetryFailedMode)
+  mode?: RetryFailedMode;
+}
+
+export enum CloneAudience {
+  ALL = 'all',
+  NOT_REPLIED = 'not_replied',
+  REPLIED = 'replied',
+}
+
+export class CloneBlastDto {
+  @ApiPropertyOptional({
+    example: 'January Promo - Follow Up',
+    description: 'Name of the new blast (default: "<original name> (Copy)")',
+  })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({
+    enum: CloneAudience,
+    example: CloneAudience.NOT_REPLIED,
+    description: 'Recipients of the original blast to target, by reply outcome',
+    default: CloneAudience.ALL,
+  })
+  @IsOptional()
+  @IsEnum(CloneAudience)
+  audience?: CloneAudience;
+
+  @ApiPropertyOptional({
+    enum: FunnelStage,
+    isArray: true,
+    example: [FunnelStage.REPLIED, FunnelStage.INTERESTED],
+    description:
+      'Only recipients whose conversation funnel is currently in one of these stages',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(FunnelStage, { each: true })
+  funnelStages?: FunnelStage[];
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Skip recipients that were not registered on WhatsApp',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  excludeInvalid?: boolean;
+}
+
 class BlastMessageDetail {
   @ApiProperty()
   id: string;
@@ -194,6 +682,37 @@ class BlastMessageDetail {
   sentAt?: Date;
   @ApiPropertyOptional()
   errorMessage?: string;
+  @ApiPropertyOptional({
+    description: '0 = main message, 1+ = index in messageVariants',
+  })
+  variantIndex?: number;
+  @ApiPropertyOptional({ description: 'Exact text the recipient received' })
+  renderedMessage?: string;
+}
+
+export class BlastPreviewQueryDto {
+  @ApiPropertyOptional({
+    example: 5,
+    description: 'Number of recipients to render the message for',
+    default: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  @Transform(({ value }: { value: string }) => parseInt(value, 10) || 5)
+  sampleSize?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Check in bulk which numbers are not on WhatsApp (needs a connected session)',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value !== 'false' && value !== false)
+  checkNumbers?: boolean;
 }
 
 export class BlastDetailDto extends BlastResponseDto {
@@ -231,7 +750,7 @@ export class BlastQueryDto {
   @ApiPropertyOptional({
     example: 'completed',
     description:
-      'Filter by status (pending, processing, completed, cancelled, failed)',
+      'Filter by status (pending, scheduled, processing, paused, completed, cancelled, failed)',
   })
   @IsOptional()
   @IsString()
@@ -2,7 +2,7 @@ import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, In } from 'typeorm';
 import {
   Blast,
   BlastStatus,
@@ -16,11 +16,18 @@ import {
   ChatMessageStatus,
 } from '../../../database/entities/chat-message.entity';
 import { ChatConversation } from '../../../database/entities/chat-conversation.entity';
+import { QuotaRefundReason } from '../../../database/entities/quota-refund.entity';
 import { User } from '../../../database/entities/user.entity';
 import { WhatsAppService } from '../../whatsapp/whatsapp.service';
 import { WhatsAppGateway } from '../../whatsapp/gateways/whatsapp.gateway';
 import { NotificationsService } from '../../notifications/notifications.service';
 import { FunnelTrackerService } from '../../analytics/services/funnel-tracker.service';
+import { MessagePersonalizationService } from '../services/message-personalization.service';
+import { BlastThrottleService } from '../services/blast-throttle.service';
+import { BlastsService } from '../blasts.service';
+import { SuppressionsService } from '../../suppressions/suppressions.service';
+import { LinksService } from '../../links/links.service';
+import { isWithinSendingWindow } from '../../../common/utils/sending-window.util';
 
 export interface BlastJobData {
   blastId: string;
@@ -52,39 +59,79 @@ export class BlastProcessor extends WorkerHost {
     private readonly whatsappGateway: WhatsAppGateway,
     private readonly notificationsService: NotificationsService,
     private readonly funnelTrackerService: FunnelTrackerService,
+    private readonly personalizationService: MessagePersonalizationService,
+    private readonly blastsService: BlastsService,
+    private readonly blastThrottleService: BlastThrottleService,
+    private readonly suppressionsService: SuppressionsService,
+    private readonly linksService: LinksService,
   ) {
     super();
   }
 
   async process(job: Job<BlastJobData>): Promise<void> {
-    const {
-      blastId,
-      messageId,
-      userId,
-      phoneNumber,
-      message,
-      mediaUrl,
-      mediaType,
-    } = job.data;
+    const { blastId, messageId, userId, phoneNumber, mediaUrl, mediaType } =
+      job.data;
 
     this.logger.log(`Processing message ${messageId} for blast ${blastId}`);
 
     // Check if blast is still active (only fetch status)
     const blast = await this.blastRepository.findOne({
       where: { id: blastId },
-      select: ['id', 'status'],
+      select: [
+        'id',
+        'userId',
+        'status',
+        'sendingWindow',
+        'variableValues',
+        'messageVariants',
+        'abTestEnabled',
+        'trackLinks',
+        'sessionId',
+        'rotateSenders',
+      ],
     });
     if (!blast || blast.status === BlastStatus.CANCELLED) {
       this.logger.log(
         `Blast ${blastId} was cancelled, skipping message ${messageId}`,
       );
       await this.updateMessageStatus(messageId, MessageStatus.CANCELLED);
+      await this.blastsService.refundQuota(
+        userId,
+        blastId,
+        QuotaRefundReason.CANCELLED,
+        [messageId],
+      );
+      return;
+    }
+
+    // Paused blast - put the message back so it is requeued on resume
+    if (blast.status === BlastStatus.PAUSED) {
+      this.logger.log(
+        `Blast ${blastId} is paused, returning message ${messageId} to pending`,
+      );
+      await this.updateMessageStatus(messageId, MessageStatus.PENDING);
       return;
     }
 
-    // Check WhatsApp session
-    const isReady = await this.whatsappService.isSessionReady(userId);
-    if (!isReady) {
+    // Window closed (retry backoff, slow queue) - defer the rest to the next opening
+    const sendingWindow = await this.blastsService.getSendingWindow(blast);
+    if (sendingWindow && !isWithinSendingWindow(new Date(), sendingWindow)) {
+      const deferred = await this.blastsService.replanQueuedJobs(
+        blastId,
+        messageId,
+      );
+      this.logger.log(
+        `Blast ${blastId} is outside its sending window, ${deferred} messages deferred`,
+      );
+      return;
+    }
+
+    // Check WhatsApp session and pick the number to send from
+    const sender = await this.whatsappService.pickSender(userId, {
+      sessionId: blast.sessionId,
+      rotate: blast.rotateSenders,
+    });
+    if (!sender) {
       throw new Error('WhatsApp session is not connected');
     }
 
@@ -92,7 +139,37 @@ export class BlastProcessor extends WorkerHost {
       // Mark session as actively blasting (protects from auto-disconnect)
       this.whatsappService.setBlastingStatus(userId, true);
 
-      // Check if number is registered on WhatsApp FIRST
+      // Recipient may have opted out after the blast started
+      if (await this.suppressionsService.isSuppressed(userId, phoneNumber)) {
+        this.logger.log(`Number ${phoneNumber} opted out, skipping`);
+
+        await this.messageRepository.update(messageId, {
+          status: MessageStatus.SUPPRESSED,
+          errorMessage: 'Recipient opted out',
+        });
+        await this.blastsService.refundQuota(
+          userId,
+          blastId,
+          QuotaRefundReason.SUPPRESSED,
+          [messageId],
+        );
+        await this.blastRepository
+          .createQueryBuilder()
+          .update(Blast)
+          .set({
+            suppressedCount: () => '"suppressedCount" + 1',
+            pendingCount: () => '"pendingCount" - 1',
+          })
+          .where('id = :id', { id: blastId })
+          .execute();
+
+        await this.sendProgressUpdate(blastId, userId);
+        await this.checkBlastCompletion(blastId);
+        return;
+      }
+
+      // Numbers were checked in bulk at start; this is answered from the cache
+      // unless the check failed or expired
       const isRegistered = await this.whatsappService.isNumberRegistered(
         userId,
         phoneNumber,
@@ -107,7 +184,14 @@ export class BlastProcessor extends WorkerHost {
           status: MessageStatus.INVALID_NUMBER,
           errorType: MessageErrorType.INVALID_NUMBER,
           errorMessage: 'Number not registered on WhatsApp',
+          sessionId: sender.sessionId,
         });
+        await this.blastsService.refundQuota(
+          userId,
+          blastId,
+          QuotaRefundReason.INVALID_NUMBER,
+          [messageId],
+        );
 
         // Atomic counter update (single query instead of two)
         await this.blastRepository
@@ -126,6 +210,17 @@ export class BlastProcessor extends WorkerHost {
         return; // Skip without retry
       }
 
+      // Pick variant, render placeholders ({name}, file columns, ...) and spintax
+      const { text, variantIndex } = await this.composeMessage(job.data, blast);
+      const personalizedMessage = blast.trackLinks
+        ? await this.linksService.rewriteUrls(text, {
+            userId,
+            blastId,
+            blastMessageId: messageId,
+            phoneNumber,
+          })
+        : text;
+
       // Send message with or without media
       let sendResult: { success: boolean; messageId?: string };
       if (mediaUrl) {
@@ -133,9 +228,11 @@ export class BlastProcessor extends WorkerHost {
           sendResult = await this.whatsappService.sendMessageWithMedia(
             userId,
             phoneNumber,
-            message,
+            personalizedMessage,
             mediaUrl,
             mediaType,
+            sender.sessionId,
+            messageId,
           );
         } catch (mediaError) {
           // Check if error is timeout or network related
@@ -153,9 +250,11 @@ export class BlastProcessor extends WorkerHost {
             sendResult = await this.whatsappService.sendMessage(
               userId,
               phoneNumber,
-              message
-                ? `${message}\n\n*[System: Gambar gagal dimuat karena gangguan koneksi server]*`
+              personalizedMessage
+                ? `${personalizedMessage}\n\n*[System: Gambar gagal dimuat karena gangguan koneksi server]*`
                 : '*[System: Gambar gagal dimuat karena gangguan koneksi server]*',
+              sender.sessionId,
+              `${messageId}:text`,
             );
           } else {
             // Re-throw other errors
@@ -166,7 +265,9 @@ export class BlastProcessor extends WorkerHost {
         sendResult = await this.whatsappService.sendMessage(
           userId,
           phoneNumber,
-          message,
+          personalizedMessage,
+          sender.sessionId,
+          messageId,
         );
       }
 
@@ -175,11 +276,17 @@ export class BlastProcessor extends WorkerHost {
         status: MessageStatus.SENT,
         sentAt: new Date(),
         whatsappMessageId: sendResult.messageId || undefined,
+        sessionId: sender.sessionId,
+        variantIndex,
+        renderedMessage: personalizedMessage,
       });
 
       // Store in chat_messages for inbox conversations
       const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
-      const session = await this.whatsappService.getSessionStatus(userId);
+      const session = await this.whatsappService.getSessionStatus(
+        userId,
+        sender.sessionId,
+      );
       const sessionPhoneNumber = session?.phoneNumber || undefined;
       try {
         const chatMsg = this.chatMessageRepository.create({
@@ -187,7 +294,7 @@ export class BlastProcessor extends WorkerHost {
           sessionPhoneNumber,
           phoneNumber: normalizedPhone,
           direction: ChatMessageDirection.OUTGOING,
-          body: message,
+          body: personalizedMessage,
           hasMedia: !!mediaUrl,
           mediaType: mediaType || undefined,
           mediaUrl: mediaUrl || undefined,
@@ -269,7 +376,9 @@ export class BlastProcessor extends WorkerHost {
           retryCount: blastMessage.retryCount + 1,
           errorMessage: String(error),
           errorType,
+          sessionId: sender.sessionId,
         });
+        await this.applyThrottleBackoff(blastId, errorType);
         throw error;
       } else {
         // Max retries reached, mark as failed
@@ -277,7 +386,9 @@ export class BlastProcessor extends WorkerHost {
           status: MessageStatus.FAILED,
           errorMessage: String(error),
           errorType,
+          sessionId: sender.sessionId,
         });
+        await this.applyThrottleBackoff(blastId, errorType);
 
         // Atomic counter update (single query instead of two)
         await this.blastRepository
@@ -298,6 +409,46 @@ export class BlastProcessor extends WorkerHost {
     }
   }
 
+  private async composeMessage(
+    data: BlastJobData,
+    blast: Pick<Blast, 'variableValues' | 'messageVariants' | 'abTestEnabled'>,
+  ): Promise<{ text: string; variantIndex: number }> {
+    const variants = [data.message, ...(blast.messageVariants || [])];
+
+    // Per-row data is only needed for placeholders or an assigned A/B variant
+    const needsMessageRow =
+      blast.abTestEnabled ||
+      variants.some((v) => this.personalizationService.hasPlaceholders(v));
+    const blastMessage = needsMessageRow
+      ? await this.messageRepository.findOne({
+          where: { id: data.messageId },
+          select: ['id', 'variables', 'variantIndex'],
+        })
+      : null;
+
+    return this.personalizationService.compose(
+      variants,
+      `${data.blastId}:${data.phoneNumber}`,
+      data.userId,
+      data.phoneNumber,
+      blastMessage?.variables,
+      blast.variableValues,
+      blast.abTestEnabled ? blastMessage?.variantIndex : undefined,
+    );
+  }
+
+  /**
+   * Rate limit / session errors spiking - slow down and spread the remaining jobs out
+   */
+  private async applyThrottleBackoff(
+    blastId: string,
+    errorType: MessageErrorType,
+  ): Promise<void> {
+    if (await this.blastThrottleService.registerError(blastId, errorType)) {
+      await this.blastsService.replanQueuedJobs(blastId);
+    }
+  }
+
   private categorizeError(error: any): MessageErrorType {
     const msg = (error?.message || String(error)).toLowerCase();
 
@@ -349,13 +500,20 @@ export class BlastProcessor extends WorkerHost {
         'sentCount',
         'failedCount',
         'invalidCount',
+        'suppressedCount',
+        'frequencyCappedCount',
         'pendingCount',
         'totalRecipients',
       ],
     });
     if (!blast) return;
 
-    const processed = blast.sentCount + blast.failedCount + blast.invalidCount;
+    const processed =
+      blast.sentCount +
+      blast.failedCount +
+      blast.invalidCount +
+      blast.suppressedCount +
+      blast.frequencyCappedCount;
 
     // Only send update every PROGRESS_BATCH_SIZE messages or when complete
     if (
@@ -376,7 +534,10 @@ export class BlastProcessor extends WorkerHost {
     }
   }
 
-  private async checkBlastCompletion(blastId: string): Promise<void> {
+  /**
+   * Complete or fail the blast once no messages are pending
+   */
+  async checkBlastCompletion(blastId: string): Promise<void> {
     // Only fetch fields needed for completion check
     const blast = await this.blastRepository.findOne({
       where: { id: blastId },
@@ -389,23 +550,39 @@ export class BlastProcessor extends WorkerHost {
         'sentCount',
         'failedCount',
         'invalidCount',
+        'suppressedCount',
+        'frequencyCappedCount',
         'totalRecipients',
         'startedAt',
       ],
     });
     if (!blast) return;
 
-    if (blast.pendingCount === 0 && blast.status === BlastStatus.PROCESSING) {
-      // Consider failed if all messages failed or were invalid
+    // A blast paused while its last in-flight messages were sending can also complete
+    if (
+      blast.pendingCount === 0 &&
+      (blast.status === BlastStatus.PROCESSING ||
+        blast.status === BlastStatus.PAUSED)
+    ) {
+      // Consider failed if all messages failed, were invalid, opted out or capped
       const allFailed =
-        blast.failedCount + blast.invalidCount === blast.totalRecipients;
+        blast.failedCount +
+          blast.invalidCount +
+          blast.suppressedCount +
+          blast.frequencyCappedCount ===
+        blast.totalRecipients;
       const newStatus = allFailed ? BlastStatus.FAILED : BlastStatus.COMPLETED;
 
+      // The last jobs can finish together - only one of them completes the blast
       const completedAt = new Date();
-      await this.blastRepository.update(blastId, {
-        status: newStatus,
-        completedAt,
-      });
+      const { affected } = await this.blastRepository.update(
+        {
+          id: blastId,
+          status: In([BlastStatus.PROCESSING, BlastStatus.PAUSED]),
+        },
+        { status: newStatus, completedAt },
+      );
+      if (!affected) return;
 
       // Mark session as no longer blasting (allows auto-disconnect)
       this.whatsappService.setBlastingStatus(blast.userId, false);
@@ -492,6 +669,16 @@ export class BlastProcessor extends WorkerHost {
       }
 
       this.logger.log(`Blast ${blastId} completed with status: ${newStatus}`);
+
+      // Start the next blast waiting in the user's queue
+      await this.blastsService
+        .startNextQueuedBlast(blast.userId)
+        .catch((err) =>
+          this.logger.error(
+            `Failed to start next queued blast for user ${blast.userId}:`,
+            err,
+          ),
+        );
     }
   }
 
@@ -0,0 +1,107 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { AbTestStatus, Blast } from '../../../database/entities/blast.entity';
+import { BlastsService } from '../blasts.service';
+import { WhatsAppGateway } from '../../whatsapp/gateways/whatsapp.gateway';
+import {
+  AnalyticsService,
+  AbTestVariantResult,
+} from '../../analytics/services/analytics.service';
+
+@Injectable()
+export class BlastAbTestService {
+  private readonly logger = new Logger(BlastAbTestService.name);
+  private isProcessing = false;
+
+  constructor(
+    private readonly blastsService: BlastsService,
+    private readonly analyticsService: AnalyticsService,
+    private readonly whatsappGateway: WhatsAppGateway,
+  ) {}
+
+  /**
+   * Advance A/B tests every minute:
+   * testing -> evaluating once the sample is sent,
+   * evaluating -> completed once the evaluation window has passed
+   */
+  @Cron('30 * * * * *')
+  async processAbTests(): Promise<void> {
+    if (this.isProcessing) {
+      this.logger.debug('A/B test processing already running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const blasts = await this.blastsService.findActiveAbTests();
+
+      for (const blast of blasts) {
+        try {
+          if (blast.abTestStatus === AbTestStatus.TESTING) {
+            await this.checkSampleSent(blast);
+          } else if (
+            blast.abTestEvaluateAt &&
+            new Date(blast.abTestEvaluateAt).getTime() <= Date.now()
+          ) {
+            await this.pickWinner(blast);
+          }
+        } catch (error) {
+          this.logger.error(`Error processing A/B test ${blast.id}: ${error}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error processing A/B tests: ${error}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async checkSampleSent(blast: Blast): Promise<void> {
+    const unsent = await this.blastsService.countUnsentTestSample(blast.id);
+    if (unsent > 0) return;
+
+    const evaluateAt = await this.blastsService.startAbTestEvaluation(blast);
+
+    this.whatsappGateway.sendBlastAbTestUpdate(blast.userId, {
+      blastId: blast.id,
+      status: AbTestStatus.EVALUATING,
+      evaluateAt,
+    });
+  }
+
+  private async pickWinner(blast: Blast): Promise<void> {
+    const results = await this.analyticsService.getAbTestResults(blast);
+    const winner = this.selectWinner(results.variants);
+
+    await this.blastsService.releaseAbTestWinner(blast, winner.index);
+
+    this.whatsappGateway.sendBlastAbTestUpdate(blast.userId, {
+      blastId: blast.id,
+      status: AbTestStatus.COMPLETED,
+      winnerIndex: winner.index,
+      variants: results.variants.map(({ index, sent, replied, replyRate }) => ({
+        index,
+        sent,
+        replied,
+        replyRate,
+      })),
+    });
+  }
+
+  /**
+   * Highest reply rate wins; ties go to more replies, then the earlier variant
+   */
+  private selectWinner(variants: AbTestVariantResult[]): AbTestVariantResult {
+    return variants.reduce((best, current) => {
+      const bestRate = best.sent > 0 ? best.replied / best.sent : 0;
+      const currentRate = current.sent > 0 ? current.replied / current.sent : 0;
+
+      if (currentRate > bestRate) return current;
+      if (currentRate === bestRate && current.replied > best.replied) {
+        return current;
+      }
+      return best;
+    });
+  }
+}
@@ -0,0 +1,277 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  Blast,
+  BlastMessage,
+  BlastStatus,
+} from '../../../database/entities/blast.entity';
+import { BlastsService } from '../blasts.service';
+import { MessagePersonalizationService } from './message-personalization.service';
+import { SubscriptionsService } from '../../subscriptions/subscriptions.service';
+import { WhatsAppService } from '../../whatsapp/whatsapp.service';
+import { SegmentsService } from '../../segments/segments.service';
+import { SuppressionsService } from '../../suppressions/suppressions.service';
+import { BlastPreviewQueryDto } from '../dto';
+
+// Max phone numbers listed per section of the preview
+const PREVIEW_LIST_LIMIT = 100;
+
+export interface BlastPreview {
+  blastId: string;
+  recipients: {
+    total: number;
+    unique: number;
+    duplicates: number;
+    duplicateNumbers: string[];
+    suppressed: number; // On the opt-out list, skipped at start
+    suppressedNumbers: string[];
+    frequencyCapped: number; // Reached the frequency cap, skipped at start
+    frequencyCappedNumbers: string[];
+  };
+  numberCheck: {
+    checked: boolean;
+    reason?: string;
+    registered?: number;
+    notRegistered?: number;
+    unchecked?: number;
+    notRegisteredNumbers?: string[];
+  };
+  quota: {
+    required: number;
+    remainingQuota: number; // -1 = unlimited
+    remainingDaily: number; // -1 = unlimited
+    canCreateBlast: boolean;
+    sufficient: boolean;
+    wasted: number; // Duplicate rows
+    message?: string;
+  };
+  estimate: {
+    startAt: Date;
+    finishAt: Date | null;
+    durationMs: number;
+  };
+  samples: Array<{ phoneNumber: string; variantIndex: number; text: string }>;
+}
+
+@Injectable()
+export class BlastPreviewService {
+  constructor(
+    @InjectRepository(BlastMessage)
+    private readonly messageRepository: Repository<BlastMessage>,
+    private readonly blastsService: BlastsService,
+    private readonly personalizationService: MessagePersonalizationService,
+    private readonly subscriptionsService: SubscriptionsService,
+    private readonly whatsappService: WhatsAppService,
+    private readonly segmentsService: SegmentsService,
+    private readonly suppressionsService: SuppressionsService,
+  ) {}
+
+  /**
+   * Dry run of a blast that has not started: rendered samples, quota,
+   * duplicates, opted-out and frequency capped numbers, numbers not on
+   * WhatsApp and the estimated finish time. Nothing is sent or consumed.
+   */
+  async preview(
+    userId: string,
+    blastId: string,
+    query: BlastPreviewQueryDto,
+  ): Promise<BlastPreview> {
+    const blast = await this.blastsService.findOne(userId, blastId);
+
+    if (
+      blast.status !== BlastStatus.PENDING &&
+      blast.status !== BlastStatus.SCHEDULED
+    ) {
+      throw new BadRequestException(
+        `Preview is only available before the blast starts. Current status: ${blast.status}`,
+      );
+    }
+
+    const recipients = await this.getRecipients(blast);
+    const phoneCounts = new Map<string, number>();
+    for (const { phoneNumber } of recipients) {
+      phoneCounts.set(phoneNumber, (phoneCounts.get(phoneNumber) || 0) + 1);
+    }
+    const uniquePhones = [...phoneCounts.keys()];
+    const duplicateNumbers = uniquePhones.filter(
+      (phone) => phoneCounts.get(phone)! > 1,
+    );
+    const duplicates = recipients.length - uniquePhones.length;
+
+    const suppressed = await this.suppressionsService.getSuppressedNumbers(
+      userId,
+      uniquePhones,
+    );
+    const frequencyCapped = blast.isTransactional
+      ? new Set<string>()
+      : await this.blastsService.getFrequencyCappedNumbers(
+          userId,
+          uniquePhones.filter((phone) => !suppressed.has(phone)),
+        );
+    const reachablePhones = uniquePhones.filter(
+      (phone) => !suppressed.has(phone) && !frequencyCapped.has(phone),
+    );
+
+    const { numberCheck, notRegistered } =
+      query.checkNumbers === false
+        ? {
+            numberCheck: { checked: false, reason: 'Skipped' },
+            notRegistered: [],
+          }
+        : await this.checkNumbers(userId, reachablePhones);
+
+    // Starting consumes one quota per recipient row, except rows that are
+    // opted out, frequency capped or not on WhatsApp
+    const skipped = new Set([
+      ...suppressed,
+      ...frequencyCapped,
+      ...notRegistered,
+    ]);
+    const required = recipients.filter(
+      ({ phoneNumber }) => !skipped.has(phoneNumber),
+    ).length;
+    const quotaCheck = await this.subscriptionsService.checkQuota(userId);
+    const blastLimit = await this.subscriptionsService.checkBlastLimit(userId);
+    const hasQuota =
+      quotaCheck.remainingQuota === -1 || quotaCheck.remainingQuota >= required;
+    const quotaMessage =
+      quotaCheck.hasSubscription && !hasQuota
+        ? `Insufficient quota. Remaining: ${quotaCheck.remainingQuota}, Required: ${required}`
+        : quotaCheck.message || blastLimit.message;
+
+    const { startAt, finishAt } = await this.blastsService.projectSchedule(
+      blast,
+      required,
+    );
+    // A/B tests wait for the winner before sending to the rest
+    const estimatedFinish =
+      finishAt && blast.abTestEnabled
+        ? new Date(
+            finishAt.getTime() + (blast.abTestWindowMinutes || 0) * 60 * 1000,
+          )
+        : finishAt;
+
+    return {
+      blastId: blast.id,
+      recipients: {
+        total: recipients.length,
+        unique: uniquePhones.length,
+        duplicates,
+        duplicateNumbers: duplicateNumbers.slice(0, PREVIEW_LIST_LIMIT),
+        suppressed: suppressed.size,
+        suppressedNumbers: [...suppressed].slice(0, PREVIEW_LIST_LIMIT),
+        frequencyCapped: frequencyCapped.size,
+        frequencyCappedNumbers: [...frequencyCapped].slice(
+          0,
+          PREVIEW_LIST_LIMIT,
+        ),
+      },
+      numberCheck,
+      quota: {
+        required,
+        remainingQuota: quotaCheck.remainingQuota,
+        remainingDaily: quotaCheck.remainingDaily,
+        canCreateBlast: blastLimit.canCreate,
+        sufficient: quotaCheck.canSend && blastLimit.canCreate && hasQuota,
+        wasted: duplicates,
+        message: quotaMessage,
+      },
+      estimate: {
+        startAt,
+        finishAt: estimatedFinish,
+        durationMs: estimatedFinish
+          ? estimatedFinish.getTime() - startAt.getTime()
+          : 0,
+      },
+      samples: await this.renderSamples(
+        blast,
+        recipients.slice(0, query.sampleSize || 5),
+      ),
+    };
+  }
+
+  /**
+   * Recipient rows of the blast; segment blasts are resolved live
+   */
+  private async getRecipients(
+    blast: Blast,
+  ): Promise<
+    Array<Pick<BlastMessage, 'phoneNumber' | 'variables' | 'variantIndex'>>
+  > {
+    if (blast.segmentId) {
+      const phoneNumbers = await this.segmentsService.resolvePhoneNumbers(
+        blast.userId,
+        blast.segmentId,
+      );
+      return phoneNumbers.map((phoneNumber) => ({ phoneNumber }));
+    }
+
+    return this.messageRepository.find({
+      where: { blastId: blast.id },
+      select: ['id', 'phoneNumber', 'variables', 'variantIndex'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  private async checkNumbers(
+    userId: string,
+    phoneNumbers: string[],
+  ): Promise<{
+    numberCheck: BlastPreview['numberCheck'];
+    notRegistered: string[];
+  }> {
+    if (!(await this.whatsappService.hasReadySession(userId))) {
+      return {
+        numberCheck: {
+          checked: false,
+          reason: 'WhatsApp session is not connected',
+        },
+        notRegistered: [],
+      };
+    }
+
+    const result = await this.whatsappService.checkNumbersBulk(
+      userId,
+      phoneNumbers,
+    );
+    return {
+      numberCheck: {
+        checked: true,
+        registered: result.registered.length,
+        notRegistered: result.notRegistered.length,
+        unchecked: result.unchecked.length,
+        notRegisteredNumbers: result.notRegistered.slice(0, PREVIEW_LIST_LIMIT),
+      },
+      notRegistered: result.notRegistered,
+    };
+  }
+
+  /**
+   * Render the final text the same way the blast processor does
+   */
+  private async renderSamples(
+    blast: Blast,
+    recipients: Array<
+      Pick<BlastMessage, 'phoneNumber' | 'variables' | 'variantIndex'>
+    >,
+  ): Promise<BlastPreview['samples']> {
+    const variants = [blast.message, ...(blast.messageVariants || [])];
+
+    return Promise.all(
+      recipients.map(async (recipient) => {
+        const { text, variantIndex } =
+          await this.personalizationService.compose(
+            variants,
+            `${blast.id}:${recipient.phoneNumber}`,
+            blast.userId,
+            recipient.phoneNumber,
+            recipient.variables,
+            blast.variableValues,
+            blast.abTestEnabled ? recipient.variantIndex : undefined,
+          );
+        return { phoneNumber: recipient.phoneNumber, variantIndex, text };
+      }),
+    );
+  }
+}
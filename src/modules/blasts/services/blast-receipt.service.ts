@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, IsNull } from 'typeorm';
+import {
+  Blast,
+  BlastMessage,
+  MessageStatus,
+} from '../../../database/entities/blast.entity';
+import { MessageStatusHandler } from '../../whatsapp/whatsapp.service';
+
+/**
+ * Applies delivered/read receipts to blast messages, matched by
+ * whatsappMessageId. Each receipt is counted once per message.
+ */
+@Injectable()
+export class BlastReceiptService implements MessageStatusHandler {
+  constructor(
+    @InjectRepository(Blast)
+    private readonly blastRepository: Repository<Blast>,
+    @InjectRepository(BlastMessage)
+    private readonly messageRepository: Repository<BlastMessage>,
+  ) {}
+
+  async handleMessageStatusUpdate(
+    userId: string,
+    whatsappMessageId: string,
+    _phoneNumber: string,
+    status: 'sent' | 'delivered' | 'read' | 'failed',
+  ): Promise<void> {
+    if (status !== 'delivered' && status !== 'read') return;
+
+    const message = await this.messageRepository
+      .createQueryBuilder('bm')
+      .innerJoin('bm.blast', 'b')
+      .select(['bm.id', 'bm.blastId'])
+      .where('bm.whatsappMessageId = :whatsappMessageId', {
+        whatsappMessageId,
+      })
+      .andWhere('b.userId = :userId', { userId })
+      .getOne();
+    if (!message) return;
+
+    const now = new Date();
+
+    // A read receipt may arrive without a delivered one
+    const delivered = await this.messageRepository.update(
+      { id: message.id, deliveredAt: IsNull() },
+      { deliveredAt: now },
+    );
+    if (delivered.affected) {
+      await this.blastRepository.increment(
+        { id: message.blastId },
+        'deliveredCount',
+        1,
+      );
+    }
+
+    if (status === 'delivered') {
+      await this.messageRepository.update(
+        { id: message.id, status: MessageStatus.SENT },
+        { status: MessageStatus.DELIVERED },
+      );
+      return;
+    }
+
+    const read = await this.messageRepository.update(
+      { id: message.id, readAt: IsNull() },
+      { readAt: now },
+    );
+    if (read.affected) {
+      await this.blastRepository.increment(
+        { id: message.blastId },
+        'readCount',
+        1,
+      );
+    }
+    await this.messageRepository.update(
+      {
+        id: message.id,
+        status: In([MessageStatus.SENT, MessageStatus.DELIVERED]),
+      },
+      { status: MessageStatus.READ },
+    );
+  }
+}
@@ -0,0 +1,294 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Repository, In } from 'typeorm';
+import {
+  Blast,
+  BlastStatus,
+  BlastMessage,
+  MessageStatus,
+  MessageErrorType,
+  AbTestStatus,
+  SENT_MESSAGE_STATUSES,
+} from '../../../database/entities/blast.entity';
+import { BlastsService } from '../blasts.service';
+import { BlastProcessor, BlastJobData } from '../processors/blast.processor';
+import { BlastReconciliationResultDto } from '../dto';
+
+const BLAST_COUNTERS = [
+  'sentCount',
+  'failedCount',
+  'invalidCount',
+  'suppressedCount',
+  'frequencyCappedCount',
+  'pendingCount',
+  'deliveredCount',
+  'readCount',
+] as const;
+
+type BlastCounter = (typeof BLAST_COUNTERS)[number];
+
+/**
+ * Repairs running blasts after Redis was flushed or the app restarted:
+ * recomputes counters from the message rows, requeues messages that lost
+ * their job and finishes blasts that have nothing left to send.
+ */
+@Injectable()
+export class BlastReconciliationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(BlastReconciliationService.name);
+  private isProcessing = false;
+
+  // Blasts updated more recently are still being worked on by the queue
+  private readonly IDLE_AFTER_MS = 5 * 60 * 1000;
+  // Idle blasts whose session stays down this long are failed
+  private readonly STALE_AFTER_MS =
+    parseInt(process.env.BLAST_STALE_AFTER_MINUTES || '60', 10) * 60 * 1000;
+
+  constructor(
+    @InjectRepository(Blast)
+    private readonly blastRepository: Repository<Blast>,
+    @InjectRepository(BlastMessage)
+    private readonly messageRepository: Repository<BlastMessage>,
+    @InjectQueue('blast')
+    private readonly blastQueue: Queue<BlastJobData>,
+    private readonly blastsService: BlastsService,
+    private readonly blastProcessor: BlastProcessor,
+  ) {}
+
+  onApplicationBootstrap() {
+    // Don't hold up startup
+    this.reconcileProcessingBlasts().catch((error) =>
+      this.logger.error(`Startup reconciliation failed: ${error}`),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async reconcileProcessingBlasts(): Promise<void> {
+    if (this.isProcessing) {
+      this.logger.debug('Blast reconciliation already running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const blasts = await this.blastRepository.find({
+        where: { status: BlastStatus.PROCESSING },
+        select: ['id'],
+      });
+      if (blasts.length === 0) return;
+
+      const jobMessageIds = await this.getJobMessageIds();
+
+      for (const { id } of blasts) {
+        try {
+          const result = await this.reconcileBlast(id, jobMessageIds);
+          if (
+            Object.keys(result.counters).length > 0 ||
+            result.requeued > 0 ||
+            result.status !== result.previousStatus
+          ) {
+            this.logger.warn(
+              `Reconciled blast ${id}: ${JSON.stringify(result)}`,
+            );
+          }
+        } catch (error) {
+          this.logger.error(`Error reconciling blast ${id}: ${error}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error reconciling blasts: ${error}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  async reconcileBlast(
+    blastId: string,
+    jobMessageIds?: Map<string, Set<string>>,
+  ): Promise<BlastReconciliationResultDto> {
+    const blast = await this.blastRepository.findOne({
+      where: { id: blastId },
+    });
+    if (!blast) {
+      throw new NotFoundException('Blast not found');
+    }
+
+    const result: BlastReconciliationResultDto = {
+      blastId,
+      previousStatus: blast.status,
+      status: blast.status,
+      counters: {},
+      requeued: 0,
+      stalled: false,
+    };
+
+    // The worker updates a message and its counter in separate queries
+    const idleMs = Date.now() - blast.updatedAt.getTime();
+    if (
+      blast.status === BlastStatus.PROCESSING &&
+      idleMs < this.IDLE_AFTER_MS
+    ) {
+      result.skipped = 'Blast is still sending';
+      return result;
+    }
+
+    result.counters = await this.recomputeCounters(blast);
+    if (blast.status !== BlastStatus.PROCESSING) {
+      return result;
+    }
+
+    const queued = (jobMessageIds ?? (await this.getJobMessageIds())).get(
+      blast.id,
+    );
+    const orphans = (await this.findUnsentMessages(blast)).filter(
+      (message) => !queued?.has(message.id),
+    );
+
+    if (orphans.length > 0) {
+      if (await this.blastsService.isSenderReady(blast)) {
+        await this.blastsService.requeueMessages(blast, orphans);
+        result.requeued = orphans.length;
+      } else if (idleMs >= this.STALE_AFTER_MS) {
+        await this.failUnsentMessages(blast);
+        result.counters = {
+          ...result.counters,
+          ...(await this.recomputeCounters(blast)),
+        };
+        result.stalled = true;
+      }
+    }
+
+    // Finish the blast like the worker would once nothing is pending
+    await this.blastProcessor.checkBlastCompletion(blast.id);
+
+    const updated = await this.blastRepository.findOne({
+      where: { id: blastId },
+      select: ['id', 'status'],
+    });
+    result.status = updated?.status ?? blast.status;
+    return result;
+  }
+
+  /**
+   * Set the blast's counters from its message rows.
+   * Returns the counters that had drifted.
+   */
+  private async recomputeCounters(
+    blast: Blast,
+  ): Promise<Record<string, { before: number; after: number }>> {
+    const row = await this.messageRepository
+      .createQueryBuilder('bm')
+      .select('COUNT(*) FILTER (WHERE bm.status IN (:...sent))', 'sentCount')
+      .addSelect('COUNT(*) FILTER (WHERE bm.status = :failed)', 'failedCount')
+      .addSelect('COUNT(*) FILTER (WHERE bm.status = :invalid)', 'invalidCount')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE bm.status = :suppressed)',
+        'suppressedCount',
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE bm.status = :frequencyCapped)',
+        'frequencyCappedCount',
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE bm.status IN (:...unsent))',
+        'pendingCount',
+      )
+      .addSelect('COUNT(bm.deliveredAt)', 'deliveredCount')
+      .addSelect('COUNT(bm.readAt)', 'readCount')
+      .where('bm.blastId = :blastId', { blastId: blast.id })
+      .setParameters({
+        sent: SENT_MESSAGE_STATUSES,
+        failed: MessageStatus.FAILED,
+        invalid: MessageStatus.INVALID_NUMBER,
+        suppressed: MessageStatus.SUPPRESSED,
+        frequencyCapped: MessageStatus.SKIPPED_FREQUENCY,
+        unsent: [MessageStatus.PENDING, MessageStatus.QUEUED],
+      })
+      .getRawOne<Record<BlastCounter, string>>();
+
+    const changes: Record<string, { before: number; after: number }> = {};
+    const update: Partial<Record<BlastCounter, number>> = {};
+    for (const counter of BLAST_COUNTERS) {
+      const after = Number(row?.[counter] ?? 0);
+      if (blast[counter] !== after) {
+        changes[counter] = { before: blast[counter], after };
+        update[counter] = after;
+        blast[counter] = after;
+      }
+    }
+
+    if (Object.keys(update).length > 0) {
+      await this.blastRepository.update(blast.id, update);
+    }
+    return changes;
+  }
+
+  /**
+   * Messages that should have a job in the queue. Recipients outside an
+   * unfinished A/B test sample wait for the winner and have none.
+   */
+  private async findUnsentMessages(blast: Blast): Promise<BlastMessage[]> {
+    const holdBackRest =
+      blast.abTestEnabled && blast.abTestStatus !== AbTestStatus.COMPLETED;
+    return this.messageRepository.find({
+      where: {
+        blastId: blast.id,
+        status: In([MessageStatus.PENDING, MessageStatus.QUEUED]),
+        ...(holdBackRest && { isTestSample: true }),
+      },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Fail the unsent messages as session errors so they can be retried
+   * with POST /blasts/:id/retry-failed
+   */
+  private async failUnsentMessages(blast: Blast): Promise<void> {
+    await this.messageRepository.update(
+      {
+        blastId: blast.id,
+        status: In([MessageStatus.PENDING, MessageStatus.QUEUED]),
+      },
+      {
+        status: MessageStatus.FAILED,
+        errorType: MessageErrorType.SESSION_ERROR,
+        errorMessage: 'Blast stalled: WhatsApp session not connected',
+      },
+    );
+    await this.blastRepository.update(blast.id, {
+      errorMessage: 'Sesi WhatsApp terputus terlalu lama, pesan tersisa gagal',
+    });
+    this.logger.warn(`Blast ${blast.id} stalled, unsent messages failed`);
+  }
+
+  /**
+   * Message ids with a job in the queue, by blast
+   */
+  private async getJobMessageIds(): Promise<Map<string, Set<string>>> {
+    const jobs = await this.blastQueue.getJobs([
+      'active',
+      'waiting',
+      'delayed',
+      'prioritized',
+      'paused',
+    ]);
+
+    const byBlast = new Map<string, Set<string>>();
+    for (const job of jobs) {
+      if (!job?.data) continue;
+      const messageIds = byBlast.get(job.data.blastId) ?? new Set<string>();
+      messageIds.add(job.data.messageId);
+      byBlast.set(job.data.blastId, messageIds);
+    }
+    return byBlast;
+  }
+}
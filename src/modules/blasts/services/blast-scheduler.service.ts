@@ -0,0 +1,164 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Blast } from '../../../database/entities/blast.entity';
+import { User } from '../../../database/entities/user.entity';
+import { SessionStatus } from '../../../database/entities/whatsapp-session.entity';
+import { BlastsService } from '../blasts.service';
+import { WhatsAppService } from '../../whatsapp/whatsapp.service';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+@Injectable()
+export class BlastSchedulerService {
+  private readonly logger = new Logger(BlastSchedulerService.name);
+  private isProcessing = false;
+
+  // How long a due blast may wait for its WhatsApp session to reconnect
+  private readonly SESSION_GRACE_MS = 10 * 60 * 1000;
+
+  constructor(
+    private readonly blastsService: BlastsService,
+    private readonly whatsappService: WhatsAppService,
+    private readonly notificationsService: NotificationsService,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  /**
+   * Start scheduled blasts every minute
+   * Finds blasts with scheduledAt <= now and starts them
+   */
+  @Cron('0 * * * * *')
+  async processScheduledBlasts(): Promise<void> {
+    if (this.isProcessing) {
+      this.logger.debug('Scheduled blast processing already running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const blasts = await this.blastsService.findDueScheduledBlasts();
+
+      if (blasts.length === 0) {
+        return;
+      }
+
+      this.logger.log(`Processing ${blasts.length} due scheduled blast(s)`);
+
+      for (const blast of blasts) {
+        try {
+          await this.startScheduledBlast(blast);
+        } catch (error) {
+          this.logger.error(
+            `Error starting scheduled blast ${blast.id}: ${error}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error processing scheduled blasts: ${error}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async startScheduledBlast(blast: Blast): Promise<void> {
+    // Another blast is still running - the blast joins the queue instead
+    const queued = await this.blastsService.hasActiveBlast(blast.userId);
+
+    // Session may have been auto-disconnected while idle; give it a chance to reconnect
+    const isReady = queued || (await this.blastsService.isSenderReady(blast));
+    if (!isReady) {
+      const overdueMs = Date.now() - new Date(blast.scheduledAt!).getTime();
+      if (overdueMs < this.SESSION_GRACE_MS) {
+        await this.requestReconnect(blast.userId, blast.sessionId);
+        return;
+      }
+
+      await this.failBlast(
+        blast,
+        'Sesi WhatsApp tidak terhubung saat jadwal blast tiba',
+      );
+      return;
+    }
+
+    try {
+      await this.blastsService.startBlast(blast.userId, blast.id);
+      this.logger.log(
+        queued
+          ? `Scheduled blast ${blast.id} queued behind the running blast`
+          : `Scheduled blast ${blast.id} started`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.failBlast(blast, `Blast terjadwal gagal dimulai: ${message}`);
+    }
+  }
+
+  /**
+   * Start queued blasts that were left waiting, e.g. because the session
+   * was down when the previous blast finished
+   */
+  @Cron('30 * * * * *')
+  async processStalledQueues(): Promise<void> {
+    try {
+      const userIds = await this.blastsService.findUsersWithStalledQueue();
+      for (const userId of userIds) {
+        await this.blastsService
+          .startNextQueuedBlast(userId)
+          .catch((error) =>
+            this.logger.error(
+              `Error starting queued blast for user ${userId}: ${error}`,
+            ),
+          );
+      }
+    } catch (error) {
+      this.logger.error(`Error processing stalled blast queues: ${error}`);
+    }
+  }
+
+  private async requestReconnect(
+    userId: string,
+    sessionId?: string | null,
+  ): Promise<void> {
+    const session = await this.whatsappService.getSessionStatus(
+      userId,
+      sessionId,
+    );
+
+    // Only reconnect sessions that were paired before and are not mid-connect
+    if (
+      !session?.phoneNumber ||
+      session.status === SessionStatus.CONNECTING ||
+      session.status === SessionStatus.SCANNING
+    ) {
+      return;
+    }
+
+    this.logger.log(
+      `Reconnecting WhatsApp session for user ${userId} for a scheduled blast`,
+    );
+    this.whatsappService
+      .initializeSession(userId, session.id)
+      .catch((err) =>
+        this.logger.warn(`Reconnect failed for user ${userId}: ${err}`),
+      );
+  }
+
+  private async failBlast(blast: Blast, reason: string): Promise<void> {
+    await this.blastsService.markScheduledBlastFailed(blast.id, reason);
+    this.logger.warn(`Scheduled blast ${blast.id} failed: ${reason}`);
+
+    const user = await this.userRepository.findOne({
+      where: { id: blast.userId },
+    });
+    if (user) {
+      this.notificationsService
+        .notifyBlastFailed(blast.userId, user.email, blast.name, reason)
+        .catch((err) =>
+          this.logger.error('Failed to send blast failed notification:', err),
+        );
+    }
+  }
+}
@@ -0,0 +1,269 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, MoreThanOrEqual } from 'typeorm';
+import {
+  Blast,
+  BlastMessage,
+  MessageErrorType,
+  ThrottleProfile,
+} from '../../../database/entities/blast.entity';
+import { SubscriptionsService } from '../../subscriptions/subscriptions.service';
+import { WhatsAppService } from '../../whatsapp/whatsapp.service';
+import { WhatsAppGateway } from '../../whatsapp/gateways/whatsapp.gateway';
+
+export interface ThrottleProfileConfig {
+  minDelayMs: number; // Floor for the base delay between messages
+  jitterRatio: number; // Random +/- share of the delay
+  batchSize: number; // Cooldown after every N messages
+  cooldownMs: number;
+  warmUpHours: number; // Ramp-up period after a number is linked
+  warmUpFactor: number; // Delay multiplier right after linking, eases to 1
+  errorSpikeThreshold: number; // Rate limit / session errors that trigger a slowdown
+  maxSlowdown: number;
+}
+
+export const THROTTLE_PROFILES: Record<ThrottleProfile, ThrottleProfileConfig> =
+  {
+    [ThrottleProfile.SAFE]: {
+      minDelayMs: 8000,
+      jitterRatio: 0.5,
+      batchSize: 20,
+      cooldownMs: 5 * 60 * 1000,
+      warmUpHours: 72,
+      warmUpFactor: 3,
+      errorSpikeThreshold: 2,
+      maxSlowdown: 8,
+    },
+    [ThrottleProfile.NORMAL]: {
+      minDelayMs: 3000,
+      jitterRatio: 0.3,
+      batchSize: 50,
+      cooldownMs: 3 * 60 * 1000,
+      warmUpHours: 48,
+      warmUpFactor: 2,
+      errorSpikeThreshold: 3,
+      maxSlowdown: 8,
+    },
+    [ThrottleProfile.AGGRESSIVE]: {
+      minDelayMs: 1000,
+      jitterRatio: 0.15,
+      batchSize: 100,
+      cooldownMs: 60 * 1000,
+      warmUpHours: 24,
+      warmUpFactor: 1.5,
+      errorSpikeThreshold: 5,
+      maxSlowdown: 4,
+    },
+  };
+
+// Slowest to fastest, used to compare against package caps
+const PROFILE_ORDER = [
+  ThrottleProfile.SAFE,
+  ThrottleProfile.NORMAL,
+  ThrottleProfile.AGGRESSIVE,
+];
+
+const DEFAULT_DELAY_MS = 3000;
+const ERROR_SPIKE_WINDOW_MS = 10 * 60 * 1000;
+const THROTTLE_ERROR_TYPES = [
+  MessageErrorType.RATE_LIMITED,
+  MessageErrorType.SESSION_ERROR,
+];
+
+@Injectable()
+export class BlastThrottleService {
+  private readonly logger = new Logger(BlastThrottleService.name);
+
+  constructor(
+    @InjectRepository(Blast)
+    private readonly blastRepository: Repository<Blast>,
+    @InjectRepository(BlastMessage)
+    private readonly messageRepository: Repository<BlastMessage>,
+    private readonly subscriptionsService: SubscriptionsService,
+    private readonly whatsappService: WhatsAppService,
+    private readonly whatsappGateway: WhatsAppGateway,
+  ) {}
+
+  getProfileConfig(profile?: ThrottleProfile | null): ThrottleProfileConfig {
+    return (
+      THROTTLE_PROFILES[profile || ThrottleProfile.NORMAL] ||
+      THROTTLE_PROFILES[ThrottleProfile.NORMAL]
+    );
+  }
+
+  /**
+   * Check the requested profile and delay against the user's package caps
+   */
+  async resolveSettings(
+    userId: string,
+    requestedProfile?: ThrottleProfile,
+    requestedDelayMs?: number,
+  ): Promise<{ throttleProfile: ThrottleProfile; delayMs: number }> {
+    const throttleProfile = requestedProfile || ThrottleProfile.NORMAL;
+    const subscription =
+      await this.subscriptionsService.getActiveSubscription(userId);
+    const pkg = subscription?.package;
+
+    if (!pkg) {
+      return {
+        throttleProfile,
+        delayMs: requestedDelayMs || DEFAULT_DELAY_MS,
+      };
+    }
+
+    const maxProfile = pkg.maxThrottleProfile || ThrottleProfile.AGGRESSIVE;
+    if (
+      PROFILE_ORDER.indexOf(throttleProfile) > PROFILE_ORDER.indexOf(maxProfile)
+    ) {
+      throw new ForbiddenException(
+        `Throttle profile '${throttleProfile}' is not available in your current package (max: ${maxProfile})`,
+      );
+    }
+
+    const minDelayMs = pkg.minDelayMs || 0;
+    if (requestedDelayMs && requestedDelayMs < minDelayMs) {
+      throw new BadRequestException(
+        `delayMs must be at least ${minDelayMs} for your current package`,
+      );
+    }
+
+    return {
+      throttleProfile,
+      delayMs: requestedDelayMs || Math.max(DEFAULT_DELAY_MS, minDelayMs),
+    };
+  }
+
+  /**
+   * Build the gap after each message for planSendTimes:
+   * base delay x warm-up x slowdown, +/- jitter, plus a cooldown after every batch
+   */
+  async createDelayPlanner(blast: Blast): Promise<(index: number) => number> {
+    const config = this.getProfileConfig(blast.throttleProfile);
+    const pairedAt = await this.getSenderPairedAt(blast);
+
+    const baseDelay =
+      Math.max(blast.delayMs, config.minDelayMs) *
+      this.getWarmUpFactor(config, pairedAt) *
+      (blast.throttleSlowdown || 1);
+
+    // Keep batch boundaries aligned with what was already processed (resume, replan)
+    const processed =
+      (blast.sentCount || 0) +
+      (blast.failedCount || 0) +
+      (blast.invalidCount || 0) +
+      (blast.suppressedCount || 0) +
+      (blast.frequencyCappedCount || 0);
+
+    return (index: number) => {
+      const jitter = (Math.random() * 2 - 1) * config.jitterRatio;
+      let delay = baseDelay * (1 + jitter);
+      if ((processed + index + 1) % config.batchSize === 0) {
+        delay += config.cooldownMs;
+      }
+      return Math.round(delay);
+    };
+  }
+
+  /**
+   * Record a rate limit / session error. When they spike, slow the blast down.
+   * Returns true when the slowdown was raised and queued jobs should be replanned.
+   */
+  async registerError(
+    blastId: string,
+    errorType: MessageErrorType,
+  ): Promise<boolean> {
+    if (!THROTTLE_ERROR_TYPES.includes(errorType)) return false;
+
+    const blast = await this.blastRepository.findOne({
+      where: { id: blastId },
+      select: [
+        'id',
+        'userId',
+        'throttleProfile',
+        'throttleSlowdown',
+        'throttleSlowedAt',
+      ],
+    });
+    if (!blast) return false;
+
+    const config = this.getProfileConfig(blast.throttleProfile);
+    const slowdown = blast.throttleSlowdown || 1;
+    if (slowdown >= config.maxSlowdown) return false;
+
+    // At most one step per spike window, counting only errors since the last step
+    const now = Date.now();
+    const lastSlowedAt = blast.throttleSlowedAt?.getTime() || 0;
+    if (now - lastSlowedAt < ERROR_SPIKE_WINDOW_MS) return false;
+
+    const recentErrors = await this.messageRepository.count({
+      where: {
+        blastId,
+        errorType: In(THROTTLE_ERROR_TYPES),
+        updatedAt: MoreThanOrEqual(
+          new Date(Math.max(now - ERROR_SPIKE_WINDOW_MS, lastSlowedAt)),
+        ),
+      },
+    });
+    if (recentErrors < config.errorSpikeThreshold) return false;
+
+    const newSlowdown = Math.min(config.maxSlowdown, slowdown * 2);
+    await this.blastRepository.update(blastId, {
+      throttleSlowdown: newSlowdown,
+      throttleSlowedAt: new Date(now),
+    });
+
+    this.logger.warn(
+      `Blast ${blastId} slowed down x${newSlowdown} after ${recentErrors} ${errorType} errors`,
+    );
+    this.whatsappGateway.sendBlastThrottled(blast.userId, {
+      blastId,
+      slowdown: newSlowdown,
+      reason: errorType,
+    });
+
+    return true;
+  }
+
+  /**
+   * When the blast's sender was paired. Rotating blasts warm up at the pace
+   * of the youngest connected number in the rotation.
+   */
+  private async getSenderPairedAt(blast: Blast): Promise<Date | null> {
+    if (!blast.rotateSenders) {
+      const session = await this.whatsappService.getSessionStatus(
+        blast.userId,
+        blast.sessionId,
+      );
+      return session?.pairedAt || null;
+    }
+
+    const sessions = await this.whatsappService.getSessions(blast.userId);
+    let youngest: Date | null = null;
+    for (const session of sessions) {
+      if (!session.isReady || !session.pairedAt) continue;
+      const pairedAt = new Date(session.pairedAt);
+      if (!youngest || pairedAt > youngest) youngest = pairedAt;
+    }
+    return youngest;
+  }
+
+  private getWarmUpFactor(
+    config: ThrottleProfileConfig,
+    pairedAt?: Date | null,
+  ): number {
+    if (!pairedAt) return 1;
+
+    const ageHours = (Date.now() - new Date(pairedAt).getTime()) / 3600000;
+    if (ageHours >= config.warmUpHours) return 1;
+
+    return (
+      config.warmUpFactor -
+      (config.warmUpFactor - 1) * (ageHours / config.warmUpHours)
+    );
+  }
+}
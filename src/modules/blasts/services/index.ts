@@ -1,2 +1,10 @@
 export * from './reply-detection.service';
 export * from './blast-replies.service';
+export * from './blast-scheduler.service';
+export * from './message-personalization.service';
+export * from './blast-ab-test.service';
+export * from './blast-throttle.service';
+export * from './blast-preview.service';
+export * from './blast-receipt.service';
+export * from './blast-reconciliation.service';
+export * from './session-health.service';
@@ -0,0 +1,155 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Contact } from '../../../database/entities/contact.entity';
+import { hashSeed, hasSpintax, spin } from '../../../common/utils/spintax.util';
+
+// Matches {key} and {key|fallback}
+const PLACEHOLDER_REGEX = /\{\s*([\w.-]+)\s*(?:\|([^{}]*))?\}/g;
+
+// Keys filled from the saved contact
+const CONTACT_KEYS = ['name', 'waname', 'email', 'tags'];
+
+@Injectable()
+export class MessagePersonalizationService {
+  constructor(
+    @InjectRepository(Contact)
+    private readonly contactRepository: Repository<Contact>,
+  ) {}
+
+  hasPlaceholders(message: string): boolean {
+    return new RegExp(PLACEHOLDER_REGEX.source).test(message);
+  }
+
+  /**
+   * Build the final text for one recipient: pick a message variant, fill
+   * placeholders, then expand spintax. Seeded by blast + phone so retries
+   * and resumes send the same text.
+   */
+  async compose(
+    variants: string[],
+    seedKey: string,
+    userId: string,
+    phoneNumber: string,
+    rowVariables?: Record<string, string> | null,
+    defaults?: Record<string, string> | null,
+    assignedVariantIndex?: number | null,
+  ): Promise<{ text: string; variantIndex: number }> {
+    const seed = hashSeed(seedKey);
+
+    // A/B tests assign the variant up front, otherwise pick by seed
+    let variantIndex = variants.length > 1 ? seed % variants.length : 0;
+    if (
+      assignedVariantIndex !== null &&
+      assignedVariantIndex !== undefined &&
+      variants[assignedVariantIndex] !== undefined
+    ) {
+      variantIndex = assignedVariantIndex;
+    }
+
+    let text = await this.personalize(
+      variants[variantIndex],
+      userId,
+      phoneNumber,
+      rowVariables,
+      defaults,
+    );
+
+    if (hasSpintax(text)) {
+      text = spin(text, seed);
+    }
+
+    return { text, variantIndex };
+  }
+
+  /**
+   * Render a blast message for a single recipient.
+   *
+   * Value lookup order: file row data -> contact fields -> blast defaults -> {key|fallback}.
+   * Built-in keys: name, waName, phone, email, tags.
+   */
+  async personalize(
+    message: string,
+    userId: string,
+    phoneNumber: string,
+    rowVariables?: Record<string, string> | null,
+    defaults?: Record<string, string> | null,
+  ): Promise<string> {
+    if (!this.hasPlaceholders(message)) return message;
+
+    // Spintax like {Halo|Hai} also matches - only look the contact up when
+    // a contact field is actually used
+    const keys = [...message.matchAll(PLACEHOLDER_REGEX)].map(([, key]) =>
+      key.toLowerCase(),
+    );
+    const variables = await this.buildVariables(
+      userId,
+      phoneNumber,
+      rowVariables,
+      keys.some((key) => CONTACT_KEYS.includes(key)),
+    );
+
+    return this.render(message, variables, defaults);
+  }
+
+  async buildVariables(
+    userId: string,
+    phoneNumber: string,
+    rowVariables?: Record<string, string> | null,
+    withContact = true,
+  ): Promise<Record<string, string>> {
+    const contact = withContact
+      ? await this.contactRepository.findOne({
+          where: { userId, phoneNumber },
+          select: ['id', 'name', 'waName', 'email', 'tags'],
+        })
+      : null;
+
+    const variables: Record<string, string> = {
+      name: contact?.name || contact?.waName || '',
+      waname: contact?.waName || '',
+      phone: phoneNumber,
+      email: contact?.email || '',
+      tags: (contact?.tags || []).join(', '),
+    };
+
+    // File columns override contact fields, but empty cells do not
+    for (const [key, value] of Object.entries(rowVariables || {})) {
+      const normalizedKey = key.toLowerCase();
+      if (value || !(normalizedKey in variables)) {
+        variables[normalizedKey] = value ?? '';
+      }
+    }
+
+    return variables;
+  }
+
+  /**
+   * Replace placeholders with recipient values.
+   * Unknown keys are left untouched, so {Halo|Hai} is kept for spintax.
+   */
+  render(
+    message: string,
+    variables: Record<string, string>,
+    defaults?: Record<string, string> | null,
+  ): string {
+    const normalizedDefaults: Record<string, string> = {};
+    for (const [key, value] of Object.entries(defaults || {})) {
+      normalizedDefaults[key.toLowerCase()] = String(value ?? '');
+    }
+
+    return message.replace(
+      PLACEHOLDER_REGEX,
+      (match, rawKey: string, fallback?: string) => {
+        const key = rawKey.toLowerCase();
+        if (!(key in variables) && !(key in normalizedDefaults)) {
+          return match;
+        }
+
+        if (variables[key]) return variables[key];
+        if (normalizedDefaults[key]) return normalizedDefaults[key];
+        return fallback !== undefined ? fallback.trim() : '';
+      },
+    );
+  }
+}
@@ -4,11 +4,12 @@ import { Repository, MoreThan } from 'typeorm';
 import {
   Blast,
   BlastMessage,
-  MessageStatus,
+  SENT_MESSAGE_STATUSES,
 } from '../../../database/entities/blast.entity';
 import { BlastReply } from '../../../database/entities/blast-reply.entity';
 import { WhatsAppGateway } from '../../whatsapp/gateways/whatsapp.gateway';
 import { FollowupsService } from '../../followups/followups.service';
+import { SuppressionsService } from '../../suppressions/suppressions.service';
 
 interface IncomingMessage {
   id: { id: string };
@@ -34,6 +35,7 @@ export class ReplyDetectionService {
     private readonly whatsappGateway: WhatsAppGateway,
     @Inject(forwardRef(() => FollowupsService))
     private readonly followupsService: FollowupsService,
+    private readonly suppressionsService: SuppressionsService,
   ) {}
 
   /**
@@ -43,12 +45,26 @@ export class ReplyDetectionService {
     userId: string,
     phoneNumber: string,
     message: IncomingMessage,
+    sessionId?: string,
   ): Promise<BlastReply | null> {
+    // STOP-style replies put the sender on the opt-out list
+    try {
+      await this.suppressionsService.handleIncomingMessage(
+        userId,
+        phoneNumber,
+        message.body,
+        sessionId,
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to check opt-out keywords: ${error}`);
+    }
+
     try {
       // Find matching blast message within lookback period
       const matchedMessage = await this.findMatchingBlastMessage(
         userId,
         phoneNumber,
+        sessionId,
       );
 
       if (!matchedMessage) {
@@ -109,11 +125,14 @@ export class ReplyDetectionService {
   }
 
   /**
-   * Find a blast message sent to this phone number within the lookback period
+   * Find a blast message sent to this phone number within the lookback period.
+   * With a session, only messages sent from that number (or from before
+   * per-message sessions were recorded) can match.
    */
   async findMatchingBlastMessage(
     userId: string,
     phoneNumber: string,
+    sessionId?: string,
   ): Promise<BlastMessage | null> {
     // Normalize phone number (remove leading 0 or +, keep only digits)
     const normalizedPhone = this.normalizePhoneNumber(phoneNumber);
@@ -123,11 +142,13 @@ export class ReplyDetectionService {
     lookbackDate.setHours(lookbackDate.getHours() - this.LOOKBACK_HOURS);
 
     // Find the most recent sent message to this phone number
-    const blastMessage = await this.blastMessageRepository
+    const query = this.blastMessageRepository
       .createQueryBuilder('bm')
       .innerJoin('bm.blast', 'b')
       .where('b.userId = :userId', { userId })
-      .andWhere('bm.status = :status', { status: MessageStatus.SENT })
+      .andWhere('bm.status IN (:...statuses)', {
+        statuses: SENT_MESSAGE_STATUSES,
+      })
       .andWhere('bm.sentAt > :lookbackDate', { lookbackDate })
       .andWhere(
         '(bm.phoneNumber = :phone1 OR bm.phoneNumber = :phone2 OR bm.phoneNumber = :phone3)',
@@ -136,9 +157,15 @@ export class ReplyDetectionService {
           phone2: phoneNumber,
           phone3: phoneNumber.replace(/^\+/, ''),
         },
-      )
-      .orderBy('bm.sentAt', 'DESC')
-      .getOne();
+      );
+
+    if (sessionId) {
+      query.andWhere('(bm.sessionId = :sessionId OR bm.sessionId IS NULL)', {
+        sessionId,
+      });
+    }
+
+    const blastMessage = await query.orderBy('bm.sentAt', 'DESC').getOne();
 
     return blastMessage || null;
   }
@@ -0,0 +1,316 @@
+import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In, IsNull, Not } from 'typeorm';
+import {
+  Blast,
+  BlastMessage,
+  BlastStatus,
+  MessageStatus,
+  MessageErrorType,
+  SENT_MESSAGE_STATUSES,
+} from '../../../database/entities/blast.entity';
+import {
+  WhatsAppSession,
+  SessionHealthSignals,
+} from '../../../database/entities/whatsapp-session.entity';
+import { BlastsService } from '../blasts.service';
+import { FollowupsService } from '../../followups/followups.service';
+import { NotificationsService } from '../../notifications/notifications.service';
+
+interface SendCounts {
+  sent: string;
+  failed: string;
+  invalid: string;
+  rateLimited: string;
+  replied: string;
+}
+
+/**
+ * Scores each WhatsApp number from its recent sends, so a number that is
+ * being restricted is noticed before hundreds of messages fail. A critical
+ * score pauses the blasts and followups sending from that number.
+ */
+@Injectable()
+export class SessionHealthService {
+  private readonly logger = new Logger(SessionHealthService.name);
+  private isProcessing = false;
+
+  private readonly WARN_SCORE = parseInt(
+    process.env.SESSION_HEALTH_WARN_SCORE || '60',
+    10,
+  );
+  private readonly PAUSE_SCORE = parseInt(
+    process.env.SESSION_HEALTH_PAUSE_SCORE || '40',
+    10,
+  );
+  private readonly WINDOW_MS =
+    parseInt(process.env.SESSION_HEALTH_WINDOW_HOURS || '6', 10) *
+    60 *
+    60 *
+    1000;
+
+  // Below this many attempts the ratios are too noisy to score
+  private readonly MIN_SAMPLE = 20;
+  // Disconnects that usually mean the number was banned or unlinked
+  private readonly BAN_DISCONNECT = /logged out|code: 40[13]\b/i;
+
+  constructor(
+    @InjectRepository(WhatsAppSession)
+    private readonly sessionRepository: Repository<WhatsAppSession>,
+    @InjectRepository(Blast)
+    private readonly blastRepository: Repository<Blast>,
+    @InjectRepository(BlastMessage)
+    private readonly messageRepository: Repository<BlastMessage>,
+    private readonly blastsService: BlastsService,
+    @Inject(forwardRef(() => FollowupsService))
+    private readonly followupsService: FollowupsService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Re-score the numbers of users with a running blast every minute
+   */
+  @Cron('45 * * * * *')
+  async checkSendingSessions(): Promise<void> {
+    await this.runCheck(async () => {
+      const running = await this.blastRepository
+        .createQueryBuilder('blast')
+        .select('DISTINCT blast.userId', 'userId')
+        .where('blast.status = :status', { status: BlastStatus.PROCESSING })
+        .getRawMany<{ userId: string }>();
+      if (running.length === 0) return [];
+
+      return this.sessionRepository.find({
+        where: {
+          userId: In(running.map((r) => r.userId)),
+          phoneNumber: Not(IsNull()),
+        },
+      });
+    });
+  }
+
+  /**
+   * Keep the stored score of idle numbers up to date
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async checkAllSessions(): Promise<void> {
+    await this.runCheck(() =>
+      this.sessionRepository.find({ where: { phoneNumber: Not(IsNull()) } }),
+    );
+  }
+
+  private async runCheck(
+    loadSessions: () => Promise<WhatsAppSession[]>,
+  ): Promise<void> {
+    if (this.isProcessing) {
+      this.logger.debug('Session health check already running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const sessions = await loadSessions();
+      for (const session of sessions) {
+        try {
+          await this.evaluateSession(session);
+        } catch (error) {
+          this.logger.error(
+            `Error scoring health of session ${session.id}: ${error}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error checking session health: ${error}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Store a fresh health score for the session and act on threshold crossings
+   */
+  async evaluateSession(session: WhatsAppSession): Promise<number> {
+    const previousScore = session.healthScore;
+    const signals = await this.collectSignals(session);
+    const healthScore = this.computeScore(signals);
+
+    const critical = healthScore < this.PAUSE_SCORE;
+    const shouldPause = critical && !session.healthPausedAt;
+    const recovered = healthScore >= this.WARN_SCORE;
+
+    await this.sessionRepository.update(session.id, {
+      healthScore,
+      healthSignals: signals,
+      healthCheckedAt: new Date(),
+      ...(shouldPause && { healthPausedAt: new Date() }),
+      ...(recovered && { healthPausedAt: null }),
+    });
+
+    if (shouldPause) {
+      this.logger.warn(
+        `Session ${session.id} health is critical (${healthScore}): ${JSON.stringify(signals)}`,
+      );
+      await this.pauseSending(session, healthScore);
+    } else if (
+      !critical &&
+      !recovered &&
+      previousScore >= this.WARN_SCORE &&
+      !session.healthPausedAt
+    ) {
+      this.notificationsService
+        .notifySessionHealthWarning(
+          session.userId,
+          session.id,
+          session.phoneNumber,
+          healthScore,
+        )
+        .catch((err) =>
+          this.logger.error('Failed to send session health warning:', err),
+        );
+    }
+
+    return healthScore;
+  }
+
+  private async collectSignals(
+    session: WhatsAppSession,
+  ): Promise<SessionHealthSignals> {
+    const since = new Date(Date.now() - this.WINDOW_MS);
+
+    // Messages sent before numbers were tracked count towards the default one
+    const row = await this.messageRepository
+      .createQueryBuilder('bm')
+      .innerJoin('bm.blast', 'blast')
+      .select('COUNT(*) FILTER (WHERE bm.status IN (:...sent))', 'sent')
+      .addSelect('COUNT(*) FILTER (WHERE bm.status = :failed)', 'failed')
+      .addSelect('COUNT(*) FILTER (WHERE bm.status = :invalid)', 'invalid')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE bm.errorType = :rateLimited)',
+        'rateLimited',
+      )
+      .addSelect(
+        `COUNT(*) FILTER (WHERE bm.status IN (:...sent) AND EXISTS (
+          SELECT 1 FROM blast_replies r WHERE r."blastMessageId" = bm.id
+        ))`,
+        'replied',
+      )
+      .where('blast.userId = :userId', { userId: session.userId })
+      .andWhere('bm.updatedAt >= :since', { since })
+      .andWhere(
+        '(bm.sessionId = :sessionId OR (bm.sessionId IS NULL AND :isDefault))',
+        { sessionId: session.id, isDefault: session.isDefault },
+      )
+      .setParameters({
+        sent: SENT_MESSAGE_STATUSES,
+        failed: MessageStatus.FAILED,
+        invalid: MessageStatus.INVALID_NUMBER,
+        rateLimited: MessageErrorType.RATE_LIMITED,
+      })
+      .getRawOne<SendCounts>();
+
+    const sent = Number(row?.sent ?? 0);
+    const failed = Number(row?.failed ?? 0);
+    const invalid = Number(row?.invalid ?? 0);
+    const attempted = sent + failed + invalid;
+
+    const recentlyDisconnected =
+      !!session.lastDisconnectedAt &&
+      new Date(session.lastDisconnectedAt) >= since;
+
+    return {
+      sampleSize: attempted,
+      failureRate: this.percent(failed, attempted),
+      invalidRate: this.percent(invalid, attempted),
+      rateLimitedCount: Number(row?.rateLimited ?? 0),
+      replyRate: this.percent(Number(row?.replied ?? 0), sent),
+      disconnectReason: recentlyDisconnected
+        ? session.disconnectReason || null
+        : null,
+    };
+  }
+
+  /**
+   * 100 = healthy. Each signal takes off points up to its weight.
+   */
+  private computeScore(signals: SessionHealthSignals): number {
+    let penalty = 0;
+
+    if (signals.sampleSize >= this.MIN_SAMPLE) {
+      penalty += Math.min(signals.failureRate / 25, 1) * 50;
+      penalty += Math.min(signals.invalidRate / 20, 1) * 15;
+      // Recipients that never answer tend to report the number as spam
+      penalty += (1 - Math.min(signals.replyRate / 5, 1)) * 10;
+    }
+
+    penalty += Math.min(signals.rateLimitedCount / 10, 1) * 20;
+
+    if (
+      signals.disconnectReason &&
+      this.BAN_DISCONNECT.test(signals.disconnectReason)
+    ) {
+      penalty += 40;
+    }
+
+    return Math.max(0, Math.round(100 - penalty));
+  }
+
+  /**
+   * Pause the running blasts and followup campaigns that send from the session
+   */
+  private async pauseSending(
+    session: WhatsAppSession,
+    healthScore: number,
+  ): Promise<void> {
+    const { userId } = session;
+
+    const blasts = await this.blastRepository
+      .createQueryBuilder('blast')
+      .select(['blast.id', 'blast.status'])
+      .where('blast.userId = :userId', { userId })
+      .andWhere(
+        '(blast.sessionId = :sessionId OR blast.rotateSenders = true OR (blast.sessionId IS NULL AND :isDefault))',
+        { sessionId: session.id, isDefault: session.isDefault },
+      )
+      .getMany();
+
+    let pausedBlasts = 0;
+    for (const blast of blasts) {
+      if (blast.status !== BlastStatus.PROCESSING) continue;
+      try {
+        await this.blastsService.pauseBlast(userId, blast.id);
+        pausedBlasts++;
+      } catch (error) {
+        // Finished or paused in the meantime
+        this.logger.warn(`Could not pause blast ${blast.id}: ${error}`);
+      }
+    }
+
+    const pausedFollowups = await this.followupsService.pauseCampaignsForBlasts(
+      userId,
+      blasts.map((blast) => blast.id),
+    );
+
+    this.logger.warn(
+      `Paused ${pausedBlasts} blast(s) and ${pausedFollowups} followup campaign(s) of session ${session.id}`,
+    );
+
+    this.notificationsService
+      .notifySessionHealthCritical(
+        userId,
+        session.id,
+        session.phoneNumber,
+        healthScore,
+        pausedBlasts,
+        pausedFollowups,
+      )
+      .catch((err) =>
+        this.logger.error('Failed to send session health notification:', err),
+      );
+  }
+
+  private percent(part: number, total: number): number {
+    return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+  }
+}
@@ -30,6 +30,7 @@ import { UserRole } from '../../database/entities/user.entity';
 import { ChatsService } from './chats.service';
 import { WhatsAppService } from '../whatsapp/whatsapp.service';
 import { UploadsService } from '../uploads/uploads.service';
+import { SessionIdQueryDto } from '../whatsapp/dto';
 import {
   ConversationQueryDto,
   ChatHistoryQueryDto,
@@ -53,8 +54,12 @@ export class ChatsController {
   private async setSessionHeader(
     res: express.Response,
     userId: string,
+    sessionId?: string,
   ): Promise<void> {
-    const session = await this.whatsAppService.getSessionStatus(userId);
+    const session = await this.whatsAppService.getSessionStatus(
+      userId,
+      sessionId,
+    );
     if (session?.phoneNumber) {
       res.setHeader('X-Session-Phone-Number', session.phoneNumber);
     }
@@ -67,7 +72,7 @@ export class ChatsController {
     @Query() query: ConversationQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
+    await this.setSessionHeader(res, userId, query.sessionId);
     return this.chatsService.getConversations(userId, query);
   }
 
@@ -87,7 +92,7 @@ export class ChatsController {
     @Query() query: ChatHistoryQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
+    await this.setSessionHeader(res, userId, query.sessionId);
     return this.chatsService.getChatHistory(userId, phoneNumber, query);
   }
 
@@ -96,10 +101,15 @@ export class ChatsController {
   async markAsRead(
     @CurrentUser('id') userId: string,
     @Param('phoneNumber') phoneNumber: string,
+    @Query() { sessionId }: SessionIdQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
-    return this.chatsService.markConversationAsRead(userId, phoneNumber);
+    await this.setSessionHeader(res, userId, sessionId);
+    return this.chatsService.markConversationAsRead(
+      userId,
+      phoneNumber,
+      sessionId,
+    );
   }
 
   @Post('send')
@@ -107,13 +117,15 @@ export class ChatsController {
   async sendMessage(
     @CurrentUser('id') userId: string,
     @Body() dto: ChatSendMessageDto,
+    @Query() { sessionId }: SessionIdQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
+    await this.setSessionHeader(res, userId, sessionId);
     return this.chatsService.sendTextMessage(
       userId,
       dto.phoneNumber,
       dto.message,
+      sessionId,
     );
   }
 
@@ -154,9 +166,10 @@ export class ChatsController {
     @Body('phoneNumber') phoneNumber: string,
     @Body('message') message: string,
     @UploadedFile() file: Express.Multer.File,
+    @Query() { sessionId }: SessionIdQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
+    await this.setSessionHeader(res, userId, sessionId);
 
     if (!phoneNumber) {
       throw new BadRequestException('phoneNumber is required');
@@ -183,6 +196,7 @@ export class ChatsController {
       message || '',
       mediaUrl,
       mediaType,
+      sessionId,
     );
   }
 
@@ -190,10 +204,11 @@ export class ChatsController {
   @ApiOperation({ summary: 'Get total unread message count' })
   async getUnreadCount(
     @CurrentUser('id') userId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
-    return this.chatsService.getUnreadCount(userId);
+    await this.setSessionHeader(res, userId, sessionId);
+    return this.chatsService.getUnreadCount(userId, sessionId);
   }
 
   // ==================== Delete & Retract ====================
@@ -204,10 +219,11 @@ export class ChatsController {
   async deleteConversation(
     @CurrentUser('id') userId: string,
     @Param('phoneNumber') phoneNumber: string,
+    @Query() { sessionId }: SessionIdQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
-    return this.chatsService.deleteConversation(userId, phoneNumber);
+    await this.setSessionHeader(res, userId, sessionId);
+    return this.chatsService.deleteConversation(userId, phoneNumber, sessionId);
   }
 
   @Delete('messages/:messageId')
@@ -216,10 +232,11 @@ export class ChatsController {
   async deleteMessage(
     @CurrentUser('id') userId: string,
     @Param('messageId') messageId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
-    return this.chatsService.deleteMessage(userId, messageId);
+    await this.setSessionHeader(res, userId, sessionId);
+    return this.chatsService.deleteMessage(userId, messageId, sessionId);
   }
 
   @Post('messages/:messageId/retract')
@@ -233,10 +250,11 @@ export class ChatsController {
   async retractMessage(
     @CurrentUser('id') userId: string,
     @Param('messageId') messageId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
-    return this.chatsService.retractMessage(userId, messageId);
+    await this.setSessionHeader(res, userId, sessionId);
+    return this.chatsService.retractMessage(userId, messageId, sessionId);
   }
 
   // ==================== Pin/Unpin ====================
@@ -247,10 +265,11 @@ export class ChatsController {
   async pinConversation(
     @CurrentUser('id') userId: string,
     @Param('phoneNumber') phoneNumber: string,
+    @Query() { sessionId }: SessionIdQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
-    return this.chatsService.pinConversation(userId, phoneNumber);
+    await this.setSessionHeader(res, userId, sessionId);
+    return this.chatsService.pinConversation(userId, phoneNumber, sessionId);
   }
 
   @Delete('conversations/:phoneNumber/pin')
@@ -259,10 +278,11 @@ export class ChatsController {
   async unpinConversation(
     @CurrentUser('id') userId: string,
     @Param('phoneNumber') phoneNumber: string,
+    @Query() { sessionId }: SessionIdQueryDto,
     @Res({ passthrough: true }) res: express.Response,
   ) {
-    await this.setSessionHeader(res, userId);
-    return this.chatsService.unpinConversation(userId, phoneNumber);
+    await this.setSessionHeader(res, userId, sessionId);
+    return this.chatsService.unpinConversation(userId, phoneNumber, sessionId);
   }
 
   // ==================== Admin: Retention Management ====================
@@ -62,8 +62,12 @@ export class ChatsModule implements OnModuleInit {
 
   onModuleInit() {
     this.whatsAppService.setMessageStoreHandler({
-      handleMessageUpsert: async (userId, message) => {
-        await this.chatsService.handleMessageUpsert(userId, message);
+      handleMessageUpsert: async (userId, message, sessionPhoneNumber) => {
+        await this.chatsService.handleMessageUpsert(
+          userId,
+          message,
+          sessionPhoneNumber,
+        );
 
         const phoneNumber = message.from?.replace(
           /@(c\.us|s\.whatsapp\.net)$/,
@@ -89,7 +93,7 @@ export class ChatsModule implements OnModuleInit {
       },
     });
 
-    this.whatsAppService.setMessageStatusHandler({
+    this.whatsAppService.addMessageStatusHandler({
       handleMessageStatusUpdate: async (
         userId,
         messageId,
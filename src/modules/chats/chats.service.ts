@@ -75,10 +75,16 @@ export class ChatsService implements OnModuleInit {
   }
 
   /**
-   * Get the current WA session's phone number for the user
+   * Get the phone number of the given WA session (default number if omitted)
    */
-  private async getSessionPhoneNumber(userId: string): Promise<string | null> {
-    const session = await this.whatsAppService.getSessionStatus(userId);
+  private async getSessionPhoneNumber(
+    userId: string,
+    sessionId?: string,
+  ): Promise<string | null> {
+    const session = await this.whatsAppService.getSessionStatus(
+      userId,
+      sessionId,
+    );
     return session?.phoneNumber || null;
   }
 
@@ -136,6 +142,7 @@ export class ChatsService implements OnModuleInit {
   async handleMessageUpsert(
     userId: string,
     message: IncomingMessage,
+    receivedOn?: string,
   ): Promise<void> {
     const waMessageId = message.id?.id;
     if (!waMessageId) return;
@@ -147,8 +154,9 @@ export class ChatsService implements OnModuleInit {
 
     const phoneNumber = rawPhone;
 
-    // Get the session phone number (the WA account that's connected)
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    // Get the session phone number (the WA account that received it)
+    const sessionPhoneNumber =
+      receivedOn || (await this.getSessionPhoneNumber(userId));
     if (!sessionPhoneNumber) {
       this.logger.warn(
         `No session phone number found for user ${userId}, skipping message store`,
@@ -321,12 +329,20 @@ export class ChatsService implements OnModuleInit {
 
   async getConversations(
     userId: string,
-    query: { page?: number; limit?: number; search?: string },
+    query: {
+      page?: number;
+      limit?: number;
+      search?: string;
+      sessionId?: string;
+    },
   ) {
     const { page = 1, limit = 20, search } = query;
 
     // Get current session phone number
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      query.sessionId,
+    );
     if (!sessionPhoneNumber) {
       return { data: [], total: 0, page, limit };
     }
@@ -444,13 +460,16 @@ export class ChatsService implements OnModuleInit {
   async getChatHistory(
     userId: string,
     phoneNumber: string,
-    query: { page?: number; limit?: number },
+    query: { page?: number; limit?: number; sessionId?: string },
   ) {
     const { page = 1, limit = 50 } = query;
     const normalized = this.normalizePhoneNumber(phoneNumber);
 
     // Get current session phone number to filter chats
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      query.sessionId,
+    );
     if (!sessionPhoneNumber) {
       return { data: [], total: 0, page, limit, contact: null };
     }
@@ -539,11 +558,15 @@ export class ChatsService implements OnModuleInit {
   async markConversationAsRead(
     userId: string,
     phoneNumber: string,
+    sessionId?: string,
   ): Promise<{ updated: number }> {
     const normalized = this.normalizePhoneNumber(phoneNumber);
 
     // Get current session phone number
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      sessionId,
+    );
     if (!sessionPhoneNumber) {
       this.logger.warn(`No session phone number found for user ${userId}`);
       return { updated: 0 };
@@ -603,7 +626,7 @@ export class ChatsService implements OnModuleInit {
         this.logger.debug(
           `Sending read receipt for ${keys.length} messages to WA`,
         );
-        await this.whatsAppService.markMessagesAsRead(userId, keys);
+        await this.whatsAppService.markMessagesAsRead(userId, keys, sessionId);
       }
     } catch (error) {
       this.logger.error(`Failed to send read receipt: ${error}`);
@@ -656,17 +679,22 @@ export class ChatsService implements OnModuleInit {
     userId: string,
     phoneNumber: string,
     message: string,
+    sessionId?: string,
   ): Promise<ChatMessage> {
     const normalized = this.normalizePhoneNumber(phoneNumber);
 
     // Get current session phone number
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      sessionId,
+    );
 
     // Send via WhatsApp
     const result = await this.whatsAppService.sendMessage(
       userId,
       normalized,
       message,
+      sessionId,
     );
 
     // Store the outgoing message with normalized phone
@@ -720,11 +748,15 @@ export class ChatsService implements OnModuleInit {
     message: string,
     mediaPath: string,
     mediaType?: string,
+    sessionId?: string,
   ): Promise<ChatMessage> {
     const normalized = this.normalizePhoneNumber(phoneNumber);
 
     // Get current session phone number
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      sessionId,
+    );
 
     // Send via WhatsApp
     const result = await this.whatsAppService.sendMessageWithMedia(
@@ -733,6 +765,7 @@ export class ChatsService implements OnModuleInit {
       message || '',
       mediaPath,
       mediaType,
+      sessionId,
     );
 
     // Store the outgoing message with normalized phone
@@ -782,9 +815,15 @@ export class ChatsService implements OnModuleInit {
     return saved;
   }
 
-  async getUnreadCount(userId: string): Promise<{ unreadCount: number }> {
+  async getUnreadCount(
+    userId: string,
+    sessionId?: string,
+  ): Promise<{ unreadCount: number }> {
     // Get current session phone number
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      sessionId,
+    );
     if (!sessionPhoneNumber) {
       return { unreadCount: 0 };
     }
@@ -811,10 +850,14 @@ export class ChatsService implements OnModuleInit {
   async deleteConversation(
     userId: string,
     phoneNumber: string,
+    sessionId?: string,
   ): Promise<{ deleted: number }> {
     const normalized = this.normalizePhoneNumber(phoneNumber);
 
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      sessionId,
+    );
     if (!sessionPhoneNumber) {
       return { deleted: 0 };
     }
@@ -857,8 +900,12 @@ export class ChatsService implements OnModuleInit {
   async deleteMessage(
     userId: string,
     messageId: string,
+    sessionId?: string,
   ): Promise<{ deleted: boolean }> {
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      sessionId,
+    );
     if (!sessionPhoneNumber) {
       return { deleted: false };
     }
@@ -890,8 +937,12 @@ export class ChatsService implements OnModuleInit {
   async retractMessage(
     userId: string,
     messageId: string,
+    sessionId?: string,
   ): Promise<{ retracted: boolean }> {
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      sessionId,
+    );
     if (!sessionPhoneNumber) {
       return { retracted: false };
     }
@@ -917,6 +968,7 @@ export class ChatsService implements OnModuleInit {
         userId,
         message.phoneNumber,
         message.whatsappMessageId,
+        sessionId,
       );
 
       // Mark message as retracted (keep original body for reference)
@@ -946,10 +998,14 @@ export class ChatsService implements OnModuleInit {
   async pinConversation(
     userId: string,
     phoneNumber: string,
+    sessionId?: string,
   ): Promise<{ pinned: boolean }> {
     const normalized = this.normalizePhoneNumber(phoneNumber);
 
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      sessionId,
+    );
     if (!sessionPhoneNumber) {
       return { pinned: false };
     }
@@ -988,10 +1044,14 @@ export class ChatsService implements OnModuleInit {
   async unpinConversation(
     userId: string,
     phoneNumber: string,
+    sessionId?: string,
   ): Promise<{ unpinned: boolean }> {
     const normalized = this.normalizePhoneNumber(phoneNumber);
 
-    const sessionPhoneNumber = await this.getSessionPhoneNumber(userId);
+    const sessionPhoneNumber = await this.getSessionPhoneNumber(
+      userId,
+      sessionId,
+    );
     if (!sessionPhoneNumber) {
       return { unpinned: false };
     }
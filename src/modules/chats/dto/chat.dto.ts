@@ -5,6 +5,7 @@ import {
   IsInt,
   Min,
   Max,
+  IsUUID,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -32,6 +33,13 @@ export class ConversationQueryDto {
   @IsOptional()
   @IsString()
   search?: string;
+
+  @ApiPropertyOptional({
+    description: 'WhatsApp number (session) ID, defaults to the default number',
+  })
+  @IsOptional()
+  @IsUUID()
+  sessionId?: string;
 }
 
 export class ChatHistoryQueryDto {
@@ -49,6 +57,13 @@ export class ChatHistoryQueryDto {
   @Min(1)
   @Max(100)
   limit?: number = 50;
+
+  @ApiPropertyOptional({
+    description: 'WhatsApp number (session) ID, defaults to the default number',
+  })
+  @IsOptional()
+  @IsUUID()
+  sessionId?: string;
 }
 
 export class ChatSendMessageDto {
@@ -7,8 +7,12 @@ import {
   forwardRef,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, ILike } from 'typeorm';
+import { Repository, ILike, In, SelectQueryBuilder } from 'typeorm';
 import { Contact } from '../../database/entities/contact.entity';
+import { SegmentRules } from '../../database/entities/segment.entity';
+import { LeadScore } from '../../database/entities/lead-score.entity';
+import { ConversationFunnel } from '../../database/entities/conversation-funnel.entity';
+import { ChatConversation } from '../../database/entities/chat-conversation.entity';
 import { ChatMessage } from '../../database/entities/chat-message.entity';
 import { WhatsAppSession } from '../../database/entities/whatsapp-session.entity';
 import { WhatsAppService } from '../whatsapp/whatsapp.service';
@@ -19,6 +23,13 @@ import {
   ImportResultDto,
 } from './dto';
 
+export interface ContactFilter extends SegmentRules {
+  tag?: string;
+  source?: string;
+  contactIds?: string[];
+  onlyWaVerified?: boolean;
+}
+
 @Injectable()
 export class ContactsService {
   private readonly logger = new Logger(ContactsService.name);
@@ -307,18 +318,54 @@ export class ContactsService {
     return contacts.map((c) => c.phoneNumber);
   }
 
+  /**
+   * Store WhatsApp registration results on the user's matching contacts
+   */
+  async updateWaStatus(
+    userId: string,
+    registered: string[],
+    notRegistered: string[],
+  ): Promise<void> {
+    const updates: [string[], boolean][] = [
+      [registered, true],
+      [notRegistered, false],
+    ];
+
+    for (const [phoneNumbers, isWaContact] of updates) {
+      for (let i = 0; i < phoneNumbers.length; i += 1000) {
+        await this.contactRepository.update(
+          { userId, phoneNumber: In(phoneNumbers.slice(i, i + 1000)) },
+          { isWaContact },
+        );
+      }
+    }
+  }
+
   /**
    * Count contacts by various filters (for preview)
    */
-  async countByFilter(
+  async countByFilter(userId: string, filter: ContactFilter): Promise<number> {
+    return this.buildFilterQuery(userId, filter).getCount();
+  }
+
+  /**
+   * Get phone numbers of active contacts matching the filter
+   */
+  async getPhoneNumbersByFilter(
     userId: string,
-    filter: {
-      tag?: string;
-      source?: string;
-      contactIds?: string[];
-      onlyWaVerified?: boolean;
-    },
-  ): Promise<number> {
+    filter: ContactFilter,
+  ): Promise<string[]> {
+    const contacts = await this.buildFilterQuery(userId, filter)
+      .select('contact.phoneNumber')
+      .getMany();
+
+    return contacts.map((c) => c.phoneNumber);
+  }
+
+  private buildFilterQuery(
+    userId: string,
+    filter: ContactFilter,
+  ): SelectQueryBuilder<Contact> {
     const qb = this.contactRepository
       .createQueryBuilder('contact')
       .where('contact.userId = :userId', { userId })
@@ -330,19 +377,109 @@ export class ContactsService {
       });
     }
 
+    if (filter.tags && filter.tags.length > 0) {
+      if (filter.tagMatch === 'all') {
+        qb.andWhere('contact.tags @> :allTags', {
+          allTags: JSON.stringify(filter.tags),
+        });
+      } else {
+        qb.andWhere('contact.tags ?| ARRAY[:...anyTags]', {
+          anyTags: filter.tags,
+        });
+      }
+    }
+
+    if (filter.excludeTags && filter.excludeTags.length > 0) {
+      qb.andWhere(
+        '(contact.tags IS NULL OR NOT (contact.tags ?| ARRAY[:...excludeTags]))',
+        { excludeTags: filter.excludeTags },
+      );
+    }
+
     if (filter.source) {
       qb.andWhere('contact.source = :source', { source: filter.source });
     }
 
+    if (filter.sources && filter.sources.length > 0) {
+      qb.andWhere('contact.source IN (:...sources)', {
+        sources: filter.sources,
+      });
+    }
+
     if (filter.contactIds && filter.contactIds.length > 0) {
       qb.andWhere('contact.id IN (:...ids)', { ids: filter.contactIds });
     }
 
-    if (filter.onlyWaVerified) {
+    if (filter.onlyWaVerified || filter.onlyWaContacts) {
       qb.andWhere('contact.isWaContact = true');
     }
 
-    return qb.getCount();
+    if (filter.createdAfter) {
+      qb.andWhere('contact.createdAt >= :createdAfter', {
+        createdAfter: new Date(filter.createdAfter),
+      });
+    }
+
+    if (filter.createdBefore) {
+      qb.andWhere('contact.createdAt < :createdBefore', {
+        createdBefore: new Date(filter.createdBefore),
+      });
+    }
+
+    if (filter.leadScores && filter.leadScores.length > 0) {
+      const scored = qb
+        .subQuery()
+        .select('1')
+        .from(LeadScore, 'ls')
+        .where('ls."userId" = contact."userId"')
+        .andWhere('ls."phoneNumber" = contact."phoneNumber"')
+        .andWhere('ls."score" IN (:...leadScores)')
+        .getQuery();
+      qb.andWhere(`EXISTS ${scored}`, { leadScores: filter.leadScores });
+    }
+
+    if (filter.funnelStages && filter.funnelStages.length > 0) {
+      const inStage = qb
+        .subQuery()
+        .select('1')
+        .from(ConversationFunnel, 'cf')
+        .where('cf."userId" = contact."userId"')
+        .andWhere('cf."phoneNumber" = contact."phoneNumber"')
+        .andWhere('cf."currentStage" IN (:...funnelStages)')
+        .getQuery();
+      qb.andWhere(`EXISTS ${inStage}`, { funnelStages: filter.funnelStages });
+    }
+
+    if (filter.lastInteractionAfter) {
+      qb.andWhere(`EXISTS ${this.chattedSinceQuery(qb, 'activeSince')}`, {
+        activeSince: new Date(filter.lastInteractionAfter),
+      });
+    }
+
+    if (filter.lastInteractionBefore) {
+      qb.andWhere(`NOT EXISTS ${this.chattedSinceQuery(qb, 'inactiveSince')}`, {
+        inactiveSince: new Date(filter.lastInteractionBefore),
+      });
+    }
+
+    return qb;
+  }
+
+  /**
+   * Subquery: the contact has a conversation with a message at/after :param
+   */
+  private chattedSinceQuery(
+    qb: SelectQueryBuilder<Contact>,
+    param: string,
+  ): string {
+    return qb
+      .subQuery()
+      .select('1')
+      .from(ChatConversation, 'cc')
+      .where('cc."userId" = contact."userId"')
+      .andWhere('cc."phoneNumber" = contact."phoneNumber"')
+      .andWhere(`cc."lastMessageTimestamp" >= :${param}`)
+      .getQuery();
   }
 
   async getTags(userId: string): Promise<string[]> {
@@ -18,6 +18,8 @@ import { ChatMessage } from '../../database/entities/chat-message.entity';
 import { ChatConversation } from '../../database/entities/chat-conversation.entity';
 import { WhatsAppModule } from '../whatsapp/whatsapp.module';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { SuppressionsModule } from '../suppressions/suppressions.module';
+import { LinksModule } from '../links/links.module';
 
 @Module({
   imports: [
@@ -39,6 +41,8 @@ import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
     ScheduleModule.forRoot(),
     forwardRef(() => WhatsAppModule),
     SubscriptionsModule,
+    SuppressionsModule,
+    LinksModule,
   ],
   controllers: [FollowupsController],
   providers: [
@@ -20,7 +20,7 @@ import {
   Blast,
   BlastMessage,
   BlastStatus,
-  MessageStatus,
+  SENT_MESSAGE_STATUSES,
 } from '../../database/entities/blast.entity';
 import { BlastReply } from '../../database/entities/blast-reply.entity';
 import {
@@ -400,6 +400,26 @@ export class FollowupsService {
     return cancelledCount;
   }
 
+  /**
+   * Pause the user's active campaigns that follow up on the given blasts
+   */
+  async pauseCampaignsForBlasts(
+    userId: string,
+    blastIds: string[],
+  ): Promise<number> {
+    if (blastIds.length === 0) return 0;
+
+    const result = await this.campaignRepository.update(
+      {
+        userId,
+        originalBlastId: In(blastIds),
+        status: FollowupStatus.ACTIVE,
+      },
+      { status: FollowupStatus.PAUSED },
+    );
+    return result.affected || 0;
+  }
+
   /**
    * Get eligible recipients for a campaign based on trigger
    */
@@ -416,7 +436,7 @@ export class FollowupsService {
     const blastMessages = await this.blastMessageRepository.find({
       where: {
         blastId: campaign.originalBlastId,
-        status: MessageStatus.SENT,
+        status: In(SENT_MESSAGE_STATUSES),
       },
     });
 
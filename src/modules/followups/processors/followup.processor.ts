@@ -21,6 +21,8 @@ import { WhatsAppService } from '../../whatsapp/whatsapp.service';
 import { WhatsAppGateway } from '../../whatsapp/gateways/whatsapp.gateway';
 import { SubscriptionsService } from '../../subscriptions/subscriptions.service';
 import { FollowupsService } from '../followups.service';
+import { SuppressionsService } from '../../suppressions/suppressions.service';
+import { LinksService } from '../../links/links.service';
 import { FollowupJobData } from '../services/followup-scheduler.service';
 
 @Processor('followup')
@@ -40,6 +42,8 @@ export class FollowupProcessor extends WorkerHost {
     private readonly whatsappGateway: WhatsAppGateway,
     private readonly subscriptionsService: SubscriptionsService,
     private readonly followupsService: FollowupsService,
+    private readonly suppressionsService: SuppressionsService,
+    private readonly linksService: LinksService,
   ) {
     super();
   }
@@ -55,7 +59,7 @@ export class FollowupProcessor extends WorkerHost {
     // Get the followup message record
     const followupMessage = await this.messageRepository.findOne({
       where: { id: followupMessageId },
-      relations: ['followupCampaign'],
+      relations: ['followupCampaign', 'originalBlastMessage'],
     });
 
     if (!followupMessage) {
@@ -103,6 +107,22 @@ export class FollowupProcessor extends WorkerHost {
       return;
     }
 
+    // Recipient opted out
+    if (await this.suppressionsService.isSuppressed(userId, phoneNumber)) {
+      this.logger.log(`Recipient ${phoneNumber} opted out, skipping`);
+      await this.updateMessageStatus(
+        followupMessageId,
+        FollowupMessageStatus.SUPPRESSED,
+        'Recipient opted out',
+      );
+      await this.campaignRepository.increment(
+        { id: campaignId },
+        'totalSkipped',
+        1,
+      );
+      return;
+    }
+
     // Check quota
     const quotaCheck = await this.subscriptionsService.checkQuota(userId);
     if (!quotaCheck.canSend) {
@@ -118,9 +138,12 @@ export class FollowupProcessor extends WorkerHost {
       return;
     }
 
-    // Check WhatsApp session
-    const isReady = await this.whatsappService.isSessionReady(userId);
-    if (!isReady) {
+    // Check WhatsApp session - prefer the number the blast was sent from
+    const sender =
+      (await this.whatsappService.pickSender(userId, {
+        sessionId: followupMessage.originalBlastMessage?.sessionId,
+      })) ?? (await this.whatsappService.pickSender(userId));
+    if (!sender) {
       throw new Error('WhatsApp session is not connected');
     }
 
@@ -144,11 +167,24 @@ export class FollowupProcessor extends WorkerHost {
         return;
       }
 
+      // Tracked links when the original blast has them enabled
+      const text = await this.linksService.rewriteFollowupUrls(
+        message,
+        campaign.originalBlastId,
+        {
+          userId,
+          blastMessageId: followupMessage.originalBlastMessageId,
+          phoneNumber,
+          followupMessageId,
+        },
+      );
+
       // Send the message
       const sendResult = await this.whatsappService.sendMessage(
         userId,
         phoneNumber,
-        message,
+        text,
+        sender.sessionId,
       );
 
       // Update message status
@@ -162,7 +198,10 @@ export class FollowupProcessor extends WorkerHost {
       await this.subscriptionsService.useQuota(userId, 1);
 
       // Store in chat_messages for inbox
-      const session = await this.whatsappService.getSessionStatus(userId);
+      const session = await this.whatsappService.getSessionStatus(
+        userId,
+        sender.sessionId,
+      );
       const sessionPhoneNumber = session?.phoneNumber || undefined;
 
       try {
@@ -171,7 +210,7 @@ export class FollowupProcessor extends WorkerHost {
           sessionPhoneNumber,
           phoneNumber,
           direction: ChatMessageDirection.OUTGOING,
-          body: message,
+          body: text,
           hasMedia: false,
           whatsappMessageId: sendResult.messageId || undefined,
           messageType: 'conversation',
@@ -21,6 +21,7 @@ import { CreateContactFollowupDto } from '../dto';
 import { WhatsAppGateway } from '../../whatsapp/gateways/whatsapp.gateway';
 import { WhatsAppService } from '../../whatsapp/whatsapp.service';
 import { SubscriptionsService } from '../../subscriptions/subscriptions.service';
+import { SuppressionsService } from '../../suppressions/suppressions.service';
 
 export interface ContactFollowupJobData {
   followupId: string;
@@ -45,6 +46,7 @@ export class ContactFollowupService {
     private readonly whatsappGateway: WhatsAppGateway,
     private readonly whatsappService: WhatsAppService,
     private readonly subscriptionsService: SubscriptionsService,
+    private readonly suppressionsService: SuppressionsService,
   ) {}
 
   /**
@@ -165,6 +167,20 @@ export class ContactFollowupService {
 
     const userId = followup.userId;
 
+    // Recipient opted out
+    if (
+      await this.suppressionsService.isSuppressed(userId, followup.phoneNumber)
+    ) {
+      await this.followupRepository.update(followupId, {
+        status: ContactFollowupStatus.SUPPRESSED,
+        errorMessage: 'Recipient opted out',
+      });
+      this.logger.log(
+        `Contact followup ${followupId} skipped: ${followup.phoneNumber} opted out`,
+      );
+      return;
+    }
+
     // Check quota
     const quotaCheck = await this.subscriptionsService.checkQuota(userId);
     if (!quotaCheck.canSend) {
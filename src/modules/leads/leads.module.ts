@@ -5,6 +5,7 @@ import { LeadsProcessor } from './leads.processor';
 import { LeadScore } from '../../database/entities/lead-score.entity';
 import { LeadScoreSettings } from '../../database/entities/lead-score-settings.entity';
 import { ChatMessage } from '../../database/entities/chat-message.entity';
+import { LinkClick } from '../../database/entities/tracked-link.entity';
 import { LeadsService } from './leads.service';
 import { LeadsController } from './leads.controller';
 import { WhatsAppModule } from '../whatsapp/whatsapp.module';
@@ -13,7 +14,12 @@ import { FeatureGuard } from '../auth/guards';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([LeadScore, LeadScoreSettings, ChatMessage]),
+    TypeOrmModule.forFeature([
+      LeadScore,
+      LeadScoreSettings,
+      ChatMessage,
+      LinkClick,
+    ]),
     forwardRef(() => WhatsAppModule),
     SubscriptionsModule,
     BullModule.registerQueue({
@@ -14,6 +14,7 @@ import {
   ChatMessage,
   ChatMessageDirection,
 } from '../../database/entities/chat-message.entity';
+import { LinkClick } from '../../database/entities/tracked-link.entity';
 import { WhatsAppGateway } from '../whatsapp/gateways/whatsapp.gateway';
 import { UpdateLeadScoreSettingsDto } from './dto/settings.dto';
 import {
@@ -37,6 +38,8 @@ export class LeadsService {
     private readonly settingsRepository: Repository<LeadScoreSettings>,
     @InjectRepository(ChatMessage)
     private readonly chatMessageRepository: Repository<ChatMessage>,
+    @InjectRepository(LinkClick)
+    private readonly linkClickRepository: Repository<LinkClick>,
     @InjectQueue('leads') private readonly leadsQueue: Queue,
     private readonly whatsAppGateway: WhatsAppGateway,
   ) {}
@@ -557,6 +560,19 @@ export class LeadsService {
         });
       }
 
+      // Clicking a tracked link counts as at least moderate engagement
+      const linkClicks = await this.linkClickRepository.count({
+        where: { userId, phoneNumber: normalizedPhone },
+      });
+      if (linkClicks > 0) {
+        engagementScore = Math.max(engagementScore, 50);
+        factors.push({
+          factor: 'link_click',
+          description: `Klik link ${linkClicks}x`,
+          points: 50,
+        });
+      }
+
       breakdown.engagement = Math.round(
         engagementScore * (settings.engagementWeight / 100),
       );
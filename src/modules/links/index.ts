@@ -0,0 +1,2 @@
+export * from './links.module';
+export * from './links.service';
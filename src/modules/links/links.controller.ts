@@ -0,0 +1,31 @@
+import { Controller, Get, Param, Res, Headers } from '@nestjs/common';
+import type { Response } from 'express';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { LinksService } from './links.service';
+
+/**
+ * Public redirect for tracked short links. Served outside the /api prefix
+ * so the links in messages stay short.
+ */
+@ApiTags('Tracked Links')
+@Controller('l')
+export class LinksController {
+  constructor(private readonly linksService: LinksService) {}
+
+  @Get(':code')
+  @ApiOperation({
+    summary: 'Open a tracked short link',
+    description:
+      'Records the click for the recipient the link was sent to and redirects to the original URL.',
+  })
+  @ApiResponse({ status: 302, description: 'Redirect to the original URL' })
+  @ApiResponse({ status: 404, description: 'Link not found' })
+  async redirect(
+    @Param('code') code: string,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Res() res: Response,
+  ) {
+    const url = await this.linksService.recordClick(code, userAgent);
+    res.redirect(302, url);
+  }
+}
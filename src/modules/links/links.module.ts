@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LinksService } from './links.service';
+import { LinksController } from './links.controller';
+import {
+  TrackedLink,
+  LinkClick,
+} from '../../database/entities/tracked-link.entity';
+import { Blast, BlastMessage } from '../../database/entities/blast.entity';
+import { AnalyticsModule } from '../analytics/analytics.module';
+import { LeadsModule } from '../leads/leads.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([TrackedLink, LinkClick, Blast, BlastMessage]),
+    AnalyticsModule,
+    LeadsModule,
+  ],
+  controllers: [LinksController],
+  providers: [LinksService],
+  exports: [LinksService],
+})
+export class LinksModule {}
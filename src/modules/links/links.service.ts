@@ -0,0 +1,193 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import { randomBytes } from 'crypto';
+import {
+  TrackedLink,
+  LinkClick,
+} from '../../database/entities/tracked-link.entity';
+import { Blast, BlastMessage } from '../../database/entities/blast.entity';
+import { FunnelTrackerService } from '../analytics/services/funnel-tracker.service';
+import { LeadsService } from '../leads/leads.service';
+
+export interface LinkTarget {
+  userId: string;
+  blastId: string;
+  blastMessageId: string;
+  phoneNumber: string;
+  followupMessageId?: string;
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/gi;
+// Punctuation that usually ends the sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}*_~]+$/;
+// Link preview fetchers open the link without the recipient clicking it
+const PREVIEW_AGENTS =
+  /whatsapp|facebookexternalhit|facebot|twitterbot|telegrambot|slackbot|discordbot|bot\b|crawler|spider|preview/i;
+
+@Injectable()
+export class LinksService {
+  private readonly logger = new Logger(LinksService.name);
+  private readonly CODE_ATTEMPTS = 5;
+  private readonly baseUrl: string;
+
+  constructor(
+    @InjectRepository(TrackedLink)
+    private readonly linkRepository: Repository<TrackedLink>,
+    @InjectRepository(LinkClick)
+    private readonly clickRepository: Repository<LinkClick>,
+    @InjectRepository(Blast)
+    private readonly blastRepository: Repository<Blast>,
+    @InjectRepository(BlastMessage)
+    private readonly messageRepository: Repository<BlastMessage>,
+    private readonly configService: ConfigService,
+    private readonly funnelTrackerService: FunnelTrackerService,
+    private readonly leadsService: LeadsService,
+  ) {
+    this.baseUrl = this.configService.get<string>('app.shortLinkBaseUrl')!;
+  }
+
+  /**
+   * Replace every URL in the text with a short link for this recipient.
+   * Links are reused when the same message is sent again (job retries).
+   */
+  async rewriteUrls(text: string, target: LinkTarget): Promise<string> {
+    const urls = this.extractUrls(text);
+    if (urls.length === 0) return text;
+
+    const existing = await this.linkRepository.find({
+      where: {
+        blastMessageId: target.blastMessageId,
+        followupMessageId: target.followupMessageId ?? IsNull(),
+      },
+    });
+    const codes = new Map(existing.map((link) => [link.url, link.code]));
+
+    for (const url of urls) {
+      if (!codes.has(url)) {
+        const link = await this.createLink(url, target);
+        codes.set(url, link.code);
+      }
+    }
+
+    return text.replace(URL_PATTERN, (match) => {
+      const url = match.replace(TRAILING_PUNCTUATION, '');
+      const code = codes.get(url);
+      return code ? `${this.baseUrl}/${code}${match.slice(url.length)}` : match;
+    });
+  }
+
+  /**
+   * Rewrite a followup's URLs when its blast tracks links
+   */
+  async rewriteFollowupUrls(
+    text: string,
+    originalBlastId: string,
+    target: Omit<LinkTarget, 'blastId'>,
+  ): Promise<string> {
+    const blast = await this.blastRepository.findOne({
+      where: { id: originalBlastId },
+      select: ['id', 'trackLinks'],
+    });
+    if (!blast?.trackLinks) return text;
+
+    return this.rewriteUrls(text, { ...target, blastId: blast.id });
+  }
+
+  /**
+   * Record a click and return the URL to redirect to
+   */
+  async recordClick(code: string, userAgent?: string): Promise<string> {
+    const link = await this.linkRepository.findOne({ where: { code } });
+    if (!link) {
+      throw new NotFoundException('Link not found');
+    }
+
+    if (userAgent && PREVIEW_AGENTS.test(userAgent)) {
+      return link.url;
+    }
+
+    const now = new Date();
+    await this.clickRepository.save(
+      this.clickRepository.create({
+        linkId: link.id,
+        userId: link.userId,
+        blastId: link.blastId,
+        phoneNumber: link.phoneNumber,
+        userAgent: userAgent?.slice(0, 500) || null,
+      }),
+    );
+
+    await this.linkRepository
+      .createQueryBuilder()
+      .update(TrackedLink)
+      .set({
+        clickCount: () => '"clickCount" + 1',
+        firstClickedAt: () => 'COALESCE("firstClickedAt", NOW())',
+        lastClickedAt: now,
+      })
+      .where('id = :id', { id: link.id })
+      .execute();
+
+    // Count each recipient once towards the blast's click-through rate
+    const firstClick = await this.messageRepository.update(
+      { id: link.blastMessageId, clickedAt: IsNull() },
+      { clickedAt: now },
+    );
+    if (firstClick.affected) {
+      await this.blastRepository.increment(
+        { id: link.blastId },
+        'clickedCount',
+        1,
+      );
+    }
+
+    try {
+      await this.funnelTrackerService.onLinkClicked(
+        link.userId,
+        link.phoneNumber,
+      );
+      await this.leadsService.calculateScore(link.userId, link.phoneNumber);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update funnel / lead score for click on ${code}: ${error}`,
+      );
+    }
+
+    return link.url;
+  }
+
+  private extractUrls(text: string): string[] {
+    const urls = Array.from(text.matchAll(URL_PATTERN), ([match]) =>
+      match.replace(TRAILING_PUNCTUATION, ''),
+    )
+      // Already a tracked link (e.g. a followup quoting the blast)
+      .filter((url) => !url.startsWith(`${this.baseUrl}/`));
+    return [...new Set(urls)];
+  }
+
+  private async createLink(
+    url: string,
+    target: LinkTarget,
+  ): Promise<TrackedLink> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.linkRepository.save(
+          this.linkRepository.create({
+            ...target,
+            followupMessageId: target.followupMessageId ?? null,
+            code: randomBytes(6).toString('base64url'),
+            url,
+          }),
+        );
+      } catch (error) {
+        // Unique violation on the code - try another one
+        const { code } = error as { code?: string };
+        if (code !== '23505' || attempt >= this.CODE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+}
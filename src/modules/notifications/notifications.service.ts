@@ -198,6 +198,16 @@ export class NotificationsService {
           'Sesi WhatsApp Anda telah kedaluwarsa. Silakan scan QR code baru untuk menghubungkan kembali.',
         subject: 'Sesi WhatsApp Kedaluwarsa',
       },
+      [NotificationType.SESSION_HEALTH_WARNING]: {
+        title: 'Kesehatan Nomor WhatsApp Menurun',
+        message: `Skor kesehatan nomor ${data?.phoneNumber || ''} turun ke ${data?.healthScore ?? 0}. Kurangi kecepatan kirim dan periksa daftar penerima untuk menghindari pemblokiran.`,
+        subject: 'Kesehatan Nomor WhatsApp Menurun',
+      },
+      [NotificationType.SESSION_HEALTH_CRITICAL]: {
+        title: 'Pengiriman Dijeda Otomatis',
+        message: `Skor kesehatan nomor ${data?.phoneNumber || ''} kritis (${data?.healthScore ?? 0}). ${data?.pausedBlasts || 0} blast dan ${data?.pausedFollowups || 0} follow-up dijeda untuk mencegah pemblokiran.`,
+        subject: 'Pengiriman WhatsApp Dijeda Otomatis',
+      },
 
       // Blast
       [NotificationType.BLAST_STARTED]: {
@@ -288,6 +298,7 @@ export class NotificationsService {
           NotificationType.SUBSCRIPTION_EXPIRING,
           NotificationType.QUOTA_LOW,
           NotificationType.PAYMENT_PENDING,
+          NotificationType.SESSION_HEALTH_WARNING,
         ].includes(type)
       ) {
         return typeColors.warning;
@@ -297,6 +308,7 @@ export class NotificationsService {
           NotificationType.PAYMENT_FAILED,
           NotificationType.BLAST_FAILED,
           NotificationType.SESSION_EXPIRED,
+          NotificationType.SESSION_HEALTH_CRITICAL,
           NotificationType.QUOTA_DEPLETED,
           NotificationType.SUBSCRIPTION_EXPIRED,
         ].includes(type)
@@ -575,6 +587,56 @@ export class NotificationsService {
     });
   }
 
+  async notifySessionHealthWarning(
+    userId: string,
+    sessionId: string,
+    phoneNumber: string,
+    healthScore: number,
+  ): Promise<Notification> {
+    const data = { sessionId, phoneNumber, healthScore };
+    const template = this.getTemplate(
+      NotificationType.SESSION_HEALTH_WARNING,
+      data,
+    );
+    return this.notify({
+      userId,
+      type: NotificationType.SESSION_HEALTH_WARNING,
+      title: template.title,
+      message: template.message,
+      data,
+      channels: [NotificationChannel.IN_APP, NotificationChannel.WEBSOCKET],
+    });
+  }
+
+  async notifySessionHealthCritical(
+    userId: string,
+    sessionId: string,
+    phoneNumber: string,
+    healthScore: number,
+    pausedBlasts: number,
+    pausedFollowups: number,
+  ): Promise<Notification> {
+    const data = {
+      sessionId,
+      phoneNumber,
+      healthScore,
+      pausedBlasts,
+      pausedFollowups,
+    };
+    const template = this.getTemplate(
+      NotificationType.SESSION_HEALTH_CRITICAL,
+      data,
+    );
+    return this.notify({
+      userId,
+      type: NotificationType.SESSION_HEALTH_CRITICAL,
+      title: template.title,
+      message: template.message,
+      data,
+      channels: [NotificationChannel.IN_APP, NotificationChannel.WEBSOCKET],
+    });
+  }
+
   /**
    * Query methods
    */
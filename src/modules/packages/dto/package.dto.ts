@@ -3,9 +3,11 @@ import {
   IsNumber,
   IsOptional,
   IsBoolean,
+  IsEnum,
   Min,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ThrottleProfile } from '../../../database/entities/blast.entity';
 
 export class CreatePackageDto {
   @ApiProperty({ example: 'Basic Plan', description: 'Package name' })
@@ -151,6 +153,36 @@ export class CreatePackageDto {
   @IsBoolean()
   @IsOptional()
   hasFollowupFeature?: boolean;
+
+  @ApiPropertyOptional({
+    enum: ThrottleProfile,
+    example: ThrottleProfile.NORMAL,
+    description: 'Fastest blast throttle profile allowed',
+    default: ThrottleProfile.AGGRESSIVE,
+  })
+  @IsEnum(ThrottleProfile)
+  @IsOptional()
+  maxThrottleProfile?: ThrottleProfile;
+
+  @ApiPropertyOptional({
+    example: 3000,
+    description: 'Minimum blast delay between messages in ms',
+    default: 1000,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1000)
+  minDelayMs?: number;
+
+  @ApiPropertyOptional({
+    example: 3,
+    description: 'Connected WhatsApp numbers per account (0 = unlimited)',
+    default: 1,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  maxWhatsappNumbers?: number;
 }
 
 export class UpdatePackageDto {
@@ -281,4 +313,31 @@ export class UpdatePackageDto {
   @IsBoolean()
   @IsOptional()
   hasFollowupFeature?: boolean;
+
+  @ApiPropertyOptional({
+    enum: ThrottleProfile,
+    example: ThrottleProfile.NORMAL,
+    description: 'Fastest blast throttle profile allowed',
+  })
+  @IsEnum(ThrottleProfile)
+  @IsOptional()
+  maxThrottleProfile?: ThrottleProfile;
+
+  @ApiPropertyOptional({
+    example: 3000,
+    description: 'Minimum blast delay between messages in ms',
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1000)
+  minDelayMs?: number;
+
+  @ApiPropertyOptional({
+    example: 3,
+    description: 'Connected WhatsApp numbers per account (0 = unlimited)',
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  maxWhatsappNumbers?: number;
 }
@@ -7,6 +7,7 @@ import {
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Package } from '../../database/entities/package.entity';
+import { ThrottleProfile } from '../../database/entities/blast.entity';
 import { CreatePackageDto, UpdatePackageDto } from './dto';
 
 @Injectable()
@@ -47,6 +48,9 @@ export class PackagesService implements OnModuleInit {
         hasAiFeatures: true, // Allow AI with quota
         hasLeadScoring: false, // No lead scoring in free
         hasFollowupFeature: false, // No followup in free
+        // Blast throttling
+        maxThrottleProfile: ThrottleProfile.SAFE, // New numbers, slowest pace only
+        maxWhatsappNumbers: 1,
       });
       await this.packageRepository.save(pkg);
     } else {
@@ -75,6 +79,10 @@ export class PackagesService implements OnModuleInit {
         existing.hasFollowupFeature = false;
         needsUpdate = true;
       }
+      if (existing.maxThrottleProfile === ThrottleProfile.AGGRESSIVE) {
+        existing.maxThrottleProfile = ThrottleProfile.SAFE;
+        needsUpdate = true;
+      }
       if (existing.blastDailyLimit === 0) {
         existing.blastDailyLimit = 2;
         needsUpdate = true;
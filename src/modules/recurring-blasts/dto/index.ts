@@ -0,0 +1 @@
+export * from './recurring-blast.dto';
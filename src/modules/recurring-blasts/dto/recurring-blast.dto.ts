@@ -0,0 +1,168 @@
+import {
+  IsString,
+  IsArray,
+  IsOptional,
+  IsNumber,
+  IsInt,
+  IsEnum,
+  IsUUID,
+  IsObject,
+  IsTimeZone,
+  Min,
+  Max,
+  MinLength,
+  MaxLength,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { SendingWindowDto } from '../../../common/dto';
+import { ThrottleProfile } from '../../../database/entities/blast.entity';
+import { RecurringAudienceType } from '../../../database/entities/recurring-blast.entity';
+
+export class CreateRecurringBlastDto {
+  @ApiProperty({ example: 'Promo Mingguan', description: 'Definition name' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: '0 9 * * 1',
+    description:
+      'Cron expression (minute hour day-of-month month day-of-week) in `timezone`. Example: "0 9 * * 1" = every Monday 09:00, "0 8 1 * *" = 08:00 on the 1st of each month.',
+  })
+  @IsString()
+  cronExpression: string;
+
+  @ApiPropertyOptional({
+    example: 'Asia/Jakarta',
+    description: 'IANA timezone of the cron expression (default: Asia/Jakarta)',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    example: 'Halo {name}! Promo minggu ini sudah tersedia.',
+    description: 'Message content. Required if templateId is not provided.',
+  })
+  @IsOptional()
+  @IsString()
+  message?: string;
+
+  @ApiPropertyOptional({
+    example: 'template-uuid',
+    description:
+      'Template used on every run (its current content and media are read at run time)',
+  })
+  @IsOptional()
+  @IsUUID()
+  templateId?: string;
+
+  @ApiPropertyOptional({
+    example: ['Hai {name}, promo minggu ini sudah ada!'],
+    description: 'Alternative texts, each recipient gets one variant',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  messageVariants?: string[];
+
+  @ApiPropertyOptional({
+    example: { promo: 'Diskon 20%' },
+    description: 'Default values for message placeholders',
+  })
+  @IsOptional()
+  @IsObject()
+  variableValues?: Record<string, string>;
+
+  @ApiProperty({
+    enum: RecurringAudienceType,
+    example: RecurringAudienceType.TAG,
+    description:
+      'static = fixed phoneNumbers, tag = contacts with contactTag at run time, segment = saved segment',
+  })
+  @IsEnum(RecurringAudienceType)
+  audienceType: RecurringAudienceType;
+
+  @ApiPropertyOptional({
+    example: ['628123456789', '628987654321'],
+    description: 'Phone numbers (when audienceType = static)',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  phoneNumbers?: string[];
+
+  @ApiPropertyOptional({
+    example: 'customer',
+    description: 'Contact tag (when audienceType = tag)',
+  })
+  @IsOptional()
+  @IsString()
+  contactTag?: string;
+
+  @ApiPropertyOptional({
+    example: 'segment-uuid',
+    description: 'Saved segment ID (when audienceType = segment)',
+  })
+  @IsOptional()
+  @IsUUID()
+  segmentId?: string;
+
+  @ApiPropertyOptional({
+    example: 3000,
+    description:
+      'Delay between messages in ms (minimum 1000). Default: package/profile default',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1000)
+  delayMs?: number;
+
+  @ApiPropertyOptional({
+    enum: ThrottleProfile,
+    example: ThrottleProfile.NORMAL,
+    description: 'Sending pace of each run. Limited by the package.',
+  })
+  @IsOptional()
+  @IsEnum(ThrottleProfile)
+  throttleProfile?: ThrottleProfile;
+
+  @ApiPropertyOptional({
+    type: SendingWindowDto,
+    description: 'Allowed sending hours for each run',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SendingWindowDto)
+  sendingWindow?: SendingWindowDto;
+}
+
+export class UpdateRecurringBlastDto extends PartialType(
+  CreateRecurringBlastDto,
+) {}
+
+export class RecurringBlastRunQueryDto {
+  @ApiPropertyOptional({ example: 1, description: 'Page number', default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }: { value: string }) => parseInt(value, 10) || 1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    example: 20,
+    description: 'Items per page',
+    default: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }: { value: string }) => parseInt(value, 10) || 20)
+  limit?: number;
+}
@@ -0,0 +1,3 @@
+export * from './recurring-blasts.module';
+export * from './recurring-blasts.service';
+export * from './dto';
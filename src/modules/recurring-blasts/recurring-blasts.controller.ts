@@ -0,0 +1,133 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { RecurringBlastsService } from './recurring-blasts.service';
+import {
+  CreateRecurringBlastDto,
+  UpdateRecurringBlastDto,
+  RecurringBlastRunQueryDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Recurring Blasts')
+@ApiBearerAuth('JWT-auth')
+@Controller('recurring-blasts')
+@UseGuards(JwtAuthGuard)
+export class RecurringBlastsController {
+  constructor(
+    private readonly recurringBlastsService: RecurringBlastsService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a recurring blast',
+    description:
+      'Each cron occurrence spawns a new blast for the audience. Runs are skipped when the WhatsApp session is down or the quota is not enough.',
+  })
+  @ApiResponse({ status: 201, description: 'Recurring blast created' })
+  create(
+    @CurrentUser('id') userId: string,
+    @Body() dto: CreateRecurringBlastDto,
+  ) {
+    return this.recurringBlastsService.create(userId, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all recurring blasts' })
+  @ApiResponse({ status: 200, description: 'List of recurring blasts' })
+  findAll(@CurrentUser('id') userId: string) {
+    return this.recurringBlastsService.findAll(userId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get recurring blast by ID' })
+  @ApiResponse({ status: 200, description: 'Recurring blast details' })
+  @ApiResponse({ status: 404, description: 'Recurring blast not found' })
+  findOne(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.recurringBlastsService.findOne(userId, id);
+  }
+
+  @Get(':id/runs')
+  @ApiOperation({
+    summary: 'Get run history',
+    description:
+      'Each run is spawned (with the child blastId), skipped or failed (with a reason).',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated run history' })
+  getRuns(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: RecurringBlastRunQueryDto,
+  ) {
+    return this.recurringBlastsService.getRuns(userId, id, query);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update recurring blast' })
+  @ApiResponse({ status: 200, description: 'Recurring blast updated' })
+  @ApiResponse({ status: 404, description: 'Recurring blast not found' })
+  update(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateRecurringBlastDto,
+  ) {
+    return this.recurringBlastsService.update(userId, id, dto);
+  }
+
+  @Post(':id/pause')
+  @ApiOperation({ summary: 'Pause recurring blast' })
+  @ApiResponse({ status: 200, description: 'Recurring blast paused' })
+  pause(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.recurringBlastsService.pause(userId, id);
+  }
+
+  @Post(':id/resume')
+  @ApiOperation({
+    summary: 'Resume recurring blast',
+    description: 'Continues from the next occurrence after now.',
+  })
+  @ApiResponse({ status: 200, description: 'Recurring blast resumed' })
+  resume(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.recurringBlastsService.resume(userId, id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete recurring blast',
+    description: 'Blasts already spawned are kept.',
+  })
+  @ApiResponse({ status: 200, description: 'Recurring blast deleted' })
+  @ApiResponse({ status: 404, description: 'Recurring blast not found' })
+  async remove(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.recurringBlastsService.remove(userId, id);
+    return { message: 'Recurring blast deleted successfully' };
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RecurringBlastsService } from './recurring-blasts.service';
+import { RecurringBlastsController } from './recurring-blasts.controller';
+import { RecurringBlastSchedulerService } from './services';
+import {
+  RecurringBlast,
+  RecurringBlastRun,
+} from '../../database/entities/recurring-blast.entity';
+import { BlastsModule } from '../blasts/blasts.module';
+import { ContactsModule } from '../contacts/contacts.module';
+import { TemplatesModule } from '../templates/templates.module';
+import { SegmentsModule } from '../segments/segments.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([RecurringBlast, RecurringBlastRun]),
+    BlastsModule,
+    ContactsModule,
+    TemplatesModule,
+    SegmentsModule,
+    SubscriptionsModule,
+    WhatsAppModule,
+  ],
+  controllers: [RecurringBlastsController],
+  providers: [RecurringBlastsService, RecurringBlastSchedulerService],
+  exports: [RecurringBlastsService],
+})
+export class RecurringBlastsModule {}
@@ -0,0 +1,395 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, LessThanOrEqual } from 'typeorm';
+import {
+  RecurringBlast,
+  RecurringBlastRun,
+  RecurringBlastStatus,
+  RecurringAudienceType,
+  RecurringRunStatus,
+} from '../../database/entities/recurring-blast.entity';
+import { BlastsService } from '../blasts/blasts.service';
+import { CreateBlastDto } from '../blasts/dto';
+import { ContactsService } from '../contacts/contacts.service';
+import { TemplatesService } from '../templates/templates.service';
+import { SegmentsService } from '../segments/segments.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import {
+  CreateRecurringBlastDto,
+  UpdateRecurringBlastDto,
+  RecurringBlastRunQueryDto,
+} from './dto';
+import {
+  getNextCronRun,
+  isValidCronExpression,
+} from '../../common/utils/cron.util';
+
+type RunOutcome = Pick<
+  RecurringBlastRun,
+  'status' | 'blastId' | 'recipientCount' | 'reason'
+>;
+
+@Injectable()
+export class RecurringBlastsService {
+  private readonly logger = new Logger(RecurringBlastsService.name);
+  private readonly DEFAULT_TIMEZONE = 'Asia/Jakarta';
+
+  // Child blasts are started by the blast scheduler on its next tick
+  private readonly CHILD_START_DELAY_MS = 60 * 1000;
+
+  constructor(
+    @InjectRepository(RecurringBlast)
+    private readonly recurringRepository: Repository<RecurringBlast>,
+    @InjectRepository(RecurringBlastRun)
+    private readonly runRepository: Repository<RecurringBlastRun>,
+    private readonly blastsService: BlastsService,
+    private readonly contactsService: ContactsService,
+    private readonly templatesService: TemplatesService,
+    private readonly segmentsService: SegmentsService,
+    private readonly subscriptionsService: SubscriptionsService,
+    private readonly whatsappService: WhatsAppService,
+  ) {}
+
+  async create(
+    userId: string,
+    dto: CreateRecurringBlastDto,
+  ): Promise<RecurringBlast> {
+    const recurring = this.recurringRepository.create({
+      ...dto,
+      userId,
+      timezone: dto.timezone || this.DEFAULT_TIMEZONE,
+      status: RecurringBlastStatus.ACTIVE,
+    });
+
+    await this.validateDefinition(recurring);
+    recurring.nextRunAt = this.getNextRun(recurring, new Date());
+
+    const saved = await this.recurringRepository.save(recurring);
+    this.logger.log(
+      `Recurring blast ${saved.id} created for user ${userId}, next run ${saved.nextRunAt?.toISOString()}`,
+    );
+    return saved;
+  }
+
+  async findAll(userId: string): Promise<RecurringBlast[]> {
+    return this.recurringRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(userId: string, id: string): Promise<RecurringBlast> {
+    const recurring = await this.recurringRepository.findOne({
+      where: { id, userId },
+    });
+
+    if (!recurring) {
+      throw new NotFoundException(`Recurring blast with ID ${id} not found`);
+    }
+
+    return recurring;
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    dto: UpdateRecurringBlastDto,
+  ): Promise<RecurringBlast> {
+    const recurring = await this.findOne(userId, id);
+    this.recurringRepository.merge(recurring, dto);
+
+    await this.validateDefinition(recurring);
+    if (recurring.status === RecurringBlastStatus.ACTIVE) {
+      recurring.nextRunAt = this.getNextRun(recurring, new Date());
+    }
+
+    return this.recurringRepository.save(recurring);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const recurring = await this.findOne(userId, id);
+    await this.recurringRepository.remove(recurring);
+    this.logger.log(`Recurring blast ${id} deleted for user ${userId}`);
+  }
+
+  async pause(userId: string, id: string): Promise<RecurringBlast> {
+    const recurring = await this.findOne(userId, id);
+
+    if (recurring.status !== RecurringBlastStatus.ACTIVE) {
+      throw new BadRequestException('Recurring blast is already paused');
+    }
+
+    recurring.status = RecurringBlastStatus.PAUSED;
+    recurring.nextRunAt = null;
+    return this.recurringRepository.save(recurring);
+  }
+
+  /**
+   * Resume from now on; occurrences missed while paused are not sent
+   */
+  async resume(userId: string, id: string): Promise<RecurringBlast> {
+    const recurring = await this.findOne(userId, id);
+
+    if (recurring.status !== RecurringBlastStatus.PAUSED) {
+      throw new BadRequestException('Recurring blast is not paused');
+    }
+
+    recurring.status = RecurringBlastStatus.ACTIVE;
+    recurring.nextRunAt = this.getNextRun(recurring, new Date());
+    return this.recurringRepository.save(recurring);
+  }
+
+  async getRuns(
+    userId: string,
+    id: string,
+    query: RecurringBlastRunQueryDto,
+  ): Promise<{
+    data: RecurringBlastRun[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    await this.findOne(userId, id);
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const [data, total] = await this.runRepository.findAndCount({
+      where: { recurringBlastId: id },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { data, total, page, limit };
+  }
+
+  async findDueRecurringBlasts(limit = 50): Promise<RecurringBlast[]> {
+    return this.recurringRepository.find({
+      where: {
+        status: RecurringBlastStatus.ACTIVE,
+        nextRunAt: LessThanOrEqual(new Date()),
+      },
+      order: { nextRunAt: 'ASC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Run one due occurrence: spawn a child blast or record why it was skipped
+   */
+  async executeRun(recurring: RecurringBlast): Promise<RecurringBlastRun> {
+    const scheduledFor = recurring.nextRunAt || new Date();
+
+    // Advance first so a slow or failing run is never repeated.
+    // After downtime only one run is made, missed occurrences are not caught up.
+    const now = new Date();
+    await this.recurringRepository.update(recurring.id, {
+      nextRunAt: this.getNextRun(recurring, now),
+      lastRunAt: now,
+      runCount: () => '"runCount" + 1',
+    });
+
+    let outcome: RunOutcome;
+    try {
+      outcome = await this.spawnChildBlast(recurring, recurring.runCount + 1);
+    } catch (error) {
+      outcome = {
+        status: RecurringRunStatus.FAILED,
+        recipientCount: 0,
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const run = await this.runRepository.save(
+      this.runRepository.create({
+        recurringBlastId: recurring.id,
+        scheduledFor,
+        ...outcome,
+      }),
+    );
+
+    this.logger.log(
+      `Recurring blast ${recurring.id} run ${run.status}` +
+        (run.blastId ? ` -> blast ${run.blastId}` : '') +
+        (run.reason ? `: ${run.reason}` : ''),
+    );
+    return run;
+  }
+
+  private async spawnChildBlast(
+    recurring: RecurringBlast,
+    runNumber: number,
+  ): Promise<RunOutcome> {
+    const userId = recurring.userId;
+    const skip = (reason: string, recipientCount = 0): RunOutcome => ({
+      status: RecurringRunStatus.SKIPPED,
+      recipientCount,
+      reason,
+    });
+
+    if (!(await this.whatsappService.isSessionReady(userId))) {
+      return skip('WhatsApp session is not connected');
+    }
+
+    const quota = await this.subscriptionsService.checkQuota(userId);
+    if (!quota.hasSubscription || !quota.canSend) {
+      return skip(quota.message || 'Quota exceeded');
+    }
+
+    const audience = await this.resolveAudience(recurring);
+    if (audience.recipientCount === 0) {
+      return skip('No recipients matched the audience');
+    }
+    if (
+      quota.remainingQuota !== -1 &&
+      quota.remainingQuota < audience.recipientCount
+    ) {
+      return skip(
+        `Insufficient quota. Remaining: ${quota.remainingQuota}, Required: ${audience.recipientCount}`,
+        audience.recipientCount,
+      );
+    }
+
+    let message = recurring.message || undefined;
+    let mediaUrl: string | undefined;
+    let mediaType: string | undefined;
+    if (recurring.templateId) {
+      const template = await this.templatesService.getTemplateForBlast(
+        userId,
+        recurring.templateId,
+      );
+      message = template.message;
+      mediaUrl = template.mediaUrl;
+      mediaType = template.mediaType;
+    }
+
+    const dto: CreateBlastDto = {
+      name: `${recurring.name} #${runNumber}`,
+      message,
+      messageVariants: recurring.messageVariants || undefined,
+      variableValues: recurring.variableValues || undefined,
+      recipientSource: audience.segmentId ? 'segment' : 'manual',
+      phoneNumbers: audience.phoneNumbers,
+      segmentId: audience.segmentId,
+      delayMs: recurring.delayMs || undefined,
+      throttleProfile: recurring.throttleProfile || undefined,
+      sendingWindow: recurring.sendingWindow || undefined,
+      // Started by the blast scheduler, which waits for a running blast to finish
+      scheduledAt: new Date(
+        Date.now() + this.CHILD_START_DELAY_MS,
+      ).toISOString(),
+      timezone: recurring.timezone,
+    };
+
+    const blast = await this.blastsService.create(
+      userId,
+      dto,
+      mediaUrl,
+      mediaType,
+    );
+
+    return {
+      status: RecurringRunStatus.SPAWNED,
+      blastId: blast.id,
+      recipientCount: blast.totalRecipients,
+    };
+  }
+
+  private async resolveAudience(recurring: RecurringBlast): Promise<{
+    recipientCount: number;
+    phoneNumbers?: string[];
+    segmentId?: string;
+  }> {
+    switch (recurring.audienceType) {
+      case RecurringAudienceType.SEGMENT: {
+        const { count } = await this.segmentsService.countRecipients(
+          recurring.userId,
+          recurring.segmentId!,
+        );
+        return { recipientCount: count, segmentId: recurring.segmentId! };
+      }
+
+      case RecurringAudienceType.TAG: {
+        const phoneNumbers = await this.contactsService.getPhoneNumbersByTag(
+          recurring.userId,
+          recurring.contactTag!,
+        );
+        return { recipientCount: phoneNumbers.length, phoneNumbers };
+      }
+
+      default: {
+        const phoneNumbers = recurring.phoneNumbers || [];
+        return { recipientCount: phoneNumbers.length, phoneNumbers };
+      }
+    }
+  }
+
+  private async validateDefinition(recurring: RecurringBlast): Promise<void> {
+    if (!isValidCronExpression(recurring.cronExpression)) {
+      throw new BadRequestException(
+        `Invalid cronExpression: ${recurring.cronExpression}. Use 5 fields: minute hour day-of-month month day-of-week`,
+      );
+    }
+    if (!this.getNextRun(recurring, new Date())) {
+      throw new BadRequestException(
+        'cronExpression never matches a date (e.g. 31 February)',
+      );
+    }
+
+    if (!recurring.message && !recurring.templateId) {
+      throw new BadRequestException(
+        'Message is required. Provide message content or use a templateId.',
+      );
+    }
+    if (recurring.templateId) {
+      await this.templatesService.findOne(
+        recurring.userId,
+        recurring.templateId,
+      );
+    }
+
+    switch (recurring.audienceType) {
+      case RecurringAudienceType.STATIC:
+        if (!recurring.phoneNumbers?.length) {
+          throw new BadRequestException(
+            'phoneNumbers is required when audienceType is "static".',
+          );
+        }
+        break;
+
+      case RecurringAudienceType.TAG:
+        if (!recurring.contactTag) {
+          throw new BadRequestException(
+            'contactTag is required when audienceType is "tag".',
+          );
+        }
+        break;
+
+      case RecurringAudienceType.SEGMENT:
+        if (!recurring.segmentId) {
+          throw new BadRequestException(
+            'segmentId is required when audienceType is "segment".',
+          );
+        }
+        await this.segmentsService.findOne(
+          recurring.userId,
+          recurring.segmentId,
+        );
+        break;
+    }
+  }
+
+  private getNextRun(recurring: RecurringBlast, after: Date): Date | null {
+    return getNextCronRun(
+      recurring.cronExpression,
+      after,
+      recurring.timezone || this.DEFAULT_TIMEZONE,
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { RecurringBlastsService } from '../recurring-blasts.service';
+
+@Injectable()
+export class RecurringBlastSchedulerService {
+  private readonly logger = new Logger(RecurringBlastSchedulerService.name);
+  private isProcessing = false;
+
+  constructor(
+    private readonly recurringBlastsService: RecurringBlastsService,
+  ) {}
+
+  /**
+   * Spawn child blasts for due recurring definitions every minute
+   */
+  @Cron('0 * * * * *')
+  async processDueRecurringBlasts(): Promise<void> {
+    if (this.isProcessing) {
+      this.logger.debug('Recurring blast processing already running, skipping');
+      return;
+    }
+
+    this.isProcessing = true;
+
+    try {
+      const due = await this.recurringBlastsService.findDueRecurringBlasts();
+
+      if (due.length === 0) {
+        return;
+      }
+
+      this.logger.log(`Processing ${due.length} due recurring blast(s)`);
+
+      for (const recurring of due) {
+        try {
+          await this.recurringBlastsService.executeRun(recurring);
+        } catch (error) {
+          this.logger.error(
+            `Error running recurring blast ${recurring.id}: ${error}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error processing recurring blasts: ${error}`);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
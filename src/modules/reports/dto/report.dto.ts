@@ -149,7 +149,23 @@ export class BlastReportDto {
   @ApiProperty() totalRecipients: number;
   @ApiProperty() sentCount: number;
   @ApiProperty() failedCount: number;
+  @ApiProperty({
+    description: 'Recipients skipped because they reached the frequency cap',
+  })
+  frequencyCappedCount: number;
   @ApiProperty() successRate: number;
+  @ApiProperty() deliveredCount: number;
+  @ApiProperty() readCount: number;
+  @ApiProperty({ description: 'Delivered / sent, in percent' })
+  deliveryRate: number;
+  @ApiProperty({ description: 'Read / sent, in percent' })
+  readRate: number;
+  @ApiProperty({ description: 'Recipients who clicked a tracked link' })
+  clickedCount: number;
+  @ApiProperty({
+    description: 'Click-through rate: clicked / sent, in percent',
+  })
+  clickRate: number;
   @ApiProperty() createdAt: Date;
   @ApiPropertyOptional() startedAt?: Date;
   @ApiPropertyOptional() completedAt?: Date;
@@ -162,7 +178,12 @@ export class MessageReportDto {
   @ApiProperty() phoneNumber: string;
   @ApiProperty() status: string;
   @ApiPropertyOptional() sentAt?: Date;
+  @ApiPropertyOptional() deliveredAt?: Date | null;
+  @ApiPropertyOptional() readAt?: Date | null;
+  @ApiPropertyOptional() clickedAt?: Date | null;
   @ApiPropertyOptional() errorMessage?: string;
+  @ApiPropertyOptional() variantIndex?: number;
+  @ApiPropertyOptional() renderedMessage?: string;
 }
 
 export class AdminUserReportDto {
@@ -23,6 +23,25 @@ import {
   ExportFormat,
 } from './dto';
 
+/**
+ * Delivered/read receipts and link clicks as a percentage of sent messages
+ */
+function getReceiptRates(blast: Blast): {
+  deliveryRate: number;
+  readRate: number;
+  clickRate: number;
+} {
+  const rate = (count: number) =>
+    blast.sentCount > 0
+      ? Math.round((count / blast.sentCount) * 10000) / 100
+      : 0;
+  return {
+    deliveryRate: rate(blast.deliveredCount),
+    readRate: rate(blast.readCount),
+    clickRate: rate(blast.clickedCount),
+  };
+}
+
 @Injectable()
 export class ReportsService {
   constructor(
@@ -169,6 +188,7 @@ export class ReportsService {
       const totalProcessed = blast.sentCount + blast.failedCount;
       const successRate =
         totalProcessed > 0 ? (blast.sentCount / totalProcessed) * 100 : 0;
+      const { deliveryRate, readRate, clickRate } = getReceiptRates(blast);
 
       let durationSeconds: number | undefined;
       if (blast.startedAt && blast.completedAt) {
@@ -184,7 +204,14 @@ export class ReportsService {
         totalRecipients: blast.totalRecipients,
         sentCount: blast.sentCount,
         failedCount: blast.failedCount,
+        frequencyCappedCount: blast.frequencyCappedCount,
         successRate: Math.round(successRate * 100) / 100,
+        deliveredCount: blast.deliveredCount,
+        readCount: blast.readCount,
+        deliveryRate,
+        readRate,
+        clickedCount: blast.clickedCount,
+        clickRate,
         createdAt: blast.createdAt,
         startedAt: blast.startedAt,
         completedAt: blast.completedAt,
@@ -217,7 +244,12 @@ export class ReportsService {
       phoneNumber: msg.phoneNumber,
       status: msg.status,
       sentAt: msg.sentAt,
+      deliveredAt: msg.deliveredAt,
+      readAt: msg.readAt,
+      clickedAt: msg.clickedAt,
       errorMessage: msg.errorMessage,
+      variantIndex: msg.variantIndex,
+      renderedMessage: msg.renderedMessage,
     }));
   }
 
@@ -228,17 +260,34 @@ export class ReportsService {
       return '';
     }
 
-    const headers = ['Phone Number', 'Status', 'Sent At', 'Error Message'];
+    const headers = [
+      'Phone Number',
+      'Status',
+      'Sent At',
+      'Delivered At',
+      'Read At',
+      'Clicked At',
+      'Error Message',
+      'Variant',
+      'Message',
+    ];
     const rows = messages.map((msg) => [
       msg.phoneNumber,
       msg.status,
       msg.sentAt ? msg.sentAt.toISOString() : '',
+      msg.deliveredAt ? msg.deliveredAt.toISOString() : '',
+      msg.readAt ? msg.readAt.toISOString() : '',
+      msg.clickedAt ? msg.clickedAt.toISOString() : '',
       msg.errorMessage || '',
+      msg.variantIndex ?? '',
+      msg.renderedMessage || '',
     ]);
 
     const csvContent = [
       headers.join(','),
-      ...rows.map((row) => row.map((cell) => `"${cell}"`).join(',')),
+      ...rows.map((row) =>
+        row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(','),
+      ),
     ].join('\n');
 
     return csvContent;
@@ -250,7 +299,7 @@ export class ReportsService {
 
     async function* generate() {
       // Yield header
-      yield 'Name,Status,Total Recipients,Sent,Failed,Success Rate,Created At,Started At,Completed At,Duration (s)\n';
+      yield 'Name,Status,Total Recipients,Sent,Failed,Frequency Capped,Success Rate,Delivered,Read,Delivery Rate,Read Rate,Clicked,Click Rate,Created At,Started At,Completed At,Duration (s)\n';
 
       let page = 0;
       while (true) {
@@ -269,6 +318,7 @@ export class ReportsService {
           const totalProcessed = blast.sentCount + blast.failedCount;
           const successRate =
             totalProcessed > 0 ? (blast.sentCount / totalProcessed) * 100 : 0;
+          const { deliveryRate, readRate, clickRate } = getReceiptRates(blast);
           let durationSeconds = '';
 
           if (blast.startedAt && blast.completedAt) {
@@ -283,7 +333,14 @@ export class ReportsService {
             blast.totalRecipients,
             blast.sentCount,
             blast.failedCount,
+            blast.frequencyCappedCount,
             `${Math.round(successRate * 100) / 100}%`,
+            blast.deliveredCount,
+            blast.readCount,
+            `${deliveryRate}%`,
+            `${readRate}%`,
+            blast.clickedCount,
+            `${clickRate}%`,
             blast.createdAt.toISOString(),
             blast.startedAt ? blast.startedAt.toISOString() : '',
             blast.completedAt ? blast.completedAt.toISOString() : '',
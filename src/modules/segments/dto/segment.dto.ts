@@ -0,0 +1,140 @@
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsDateString,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { LeadScoreLevel } from '../../../database/entities/lead-score.entity';
+import { FunnelStage } from '../../../database/entities/conversation-funnel.entity';
+
+export class SegmentRulesDto {
+  @ApiPropertyOptional({
+    example: ['customer', 'vip'],
+    description: 'Contacts with these tags',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional({
+    enum: ['any', 'all'],
+    default: 'any',
+    description: 'Match any of the tags or all of them',
+  })
+  @IsOptional()
+  @IsIn(['any', 'all'])
+  tagMatch?: 'any' | 'all';
+
+  @ApiPropertyOptional({
+    example: ['blacklist'],
+    description: 'Skip contacts with any of these tags',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excludeTags?: string[];
+
+  @ApiPropertyOptional({
+    example: ['import', 'whatsapp'],
+    description: 'Contact source: manual, whatsapp, import',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(['manual', 'whatsapp', 'import'], { each: true })
+  sources?: string[];
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Only contacts verified to be on WhatsApp',
+  })
+  @IsOptional()
+  @IsBoolean()
+  onlyWaContacts?: boolean;
+
+  @ApiPropertyOptional({
+    example: '2026-01-01',
+    description: 'Contact created on or after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdAfter?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-06-01',
+    description: 'Contact created before this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  createdBefore?: string;
+
+  @ApiPropertyOptional({
+    enum: LeadScoreLevel,
+    isArray: true,
+    example: [LeadScoreLevel.HOT, LeadScoreLevel.WARM],
+    description: 'Lead score levels',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(LeadScoreLevel, { each: true })
+  leadScores?: LeadScoreLevel[];
+
+  @ApiPropertyOptional({
+    enum: FunnelStage,
+    isArray: true,
+    example: [FunnelStage.REPLIED, FunnelStage.INTERESTED],
+    description: 'Current funnel stages',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(FunnelStage, { each: true })
+  funnelStages?: FunnelStage[];
+
+  @ApiPropertyOptional({
+    example: '2026-09-01',
+    description: 'Last chat on or after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  lastInteractionAfter?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-06-01',
+    description: 'No chat since this date (includes contacts never chatted)',
+  })
+  @IsOptional()
+  @IsDateString()
+  lastInteractionBefore?: string;
+}
+
+export class CreateSegmentDto {
+  @ApiProperty({ example: 'Hot leads Jakarta', description: 'Segment name' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Hot leads who chatted this month' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    type: SegmentRulesDto,
+    description: 'Filter rules. All set rules must match.',
+  })
+  @ValidateNested()
+  @Type(() => SegmentRulesDto)
+  rules: SegmentRulesDto;
+}
+
+export class UpdateSegmentDto extends PartialType(CreateSegmentDto) {}
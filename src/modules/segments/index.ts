@@ -0,0 +1,3 @@
+export * from './segments.module';
+export * from './segments.service';
+export * from './dto';
@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SegmentsService } from './segments.service';
+import { CreateSegmentDto, UpdateSegmentDto, SegmentRulesDto } from './dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('Segments')
+@ApiBearerAuth('JWT-auth')
+@Controller('segments')
+@UseGuards(JwtAuthGuard)
+export class SegmentsController {
+  constructor(private readonly segmentsService: SegmentsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a saved audience segment',
+    description:
+      'Segments are contact filter rules resolved when a blast starts.',
+  })
+  @ApiResponse({ status: 201, description: 'Segment created' })
+  create(@CurrentUser('id') userId: string, @Body() dto: CreateSegmentDto) {
+    return this.segmentsService.create(userId, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all segments' })
+  @ApiResponse({ status: 200, description: 'List of segments' })
+  findAll(@CurrentUser('id') userId: string) {
+    return this.segmentsService.findAll(userId);
+  }
+
+  @Post('count')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Count contacts matching unsaved rules',
+    description: 'Preview the audience size while building a segment.',
+  })
+  @ApiResponse({
+    status: 200,
+    schema: { type: 'object', properties: { count: { type: 'number' } } },
+  })
+  async countByRules(
+    @CurrentUser('id') userId: string,
+    @Body() rules: SegmentRulesDto,
+  ) {
+    const count = await this.segmentsService.countByRules(userId, rules);
+    return { count };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get segment by ID' })
+  @ApiResponse({ status: 200, description: 'Segment details' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  findOne(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.segmentsService.findOne(userId, id);
+  }
+
+  @Get(':id/count')
+  @ApiOperation({ summary: 'Live count of contacts in the segment' })
+  @ApiResponse({
+    status: 200,
+    schema: {
+      type: 'object',
+      properties: {
+        segmentId: { type: 'string' },
+        count: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  countRecipients(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.segmentsService.countRecipients(userId, id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update segment' })
+  @ApiResponse({ status: 200, description: 'Segment updated' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  update(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateSegmentDto,
+  ) {
+    return this.segmentsService.update(userId, id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete segment' })
+  @ApiResponse({ status: 200, description: 'Segment deleted' })
+  @ApiResponse({ status: 404, description: 'Segment not found' })
+  async remove(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.segmentsService.remove(userId, id);
+    return { message: 'Segment deleted successfully' };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SegmentsService } from './segments.service';
+import { SegmentsController } from './segments.controller';
+import { Segment } from '../../database/entities/segment.entity';
+import { ContactsModule } from '../contacts/contacts.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Segment]), ContactsModule],
+  controllers: [SegmentsController],
+  providers: [SegmentsService],
+  exports: [SegmentsService],
+})
+export class SegmentsModule {}
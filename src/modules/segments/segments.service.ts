@@ -0,0 +1,99 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Segment, SegmentRules } from '../../database/entities/segment.entity';
+import { ContactsService } from '../contacts/contacts.service';
+import { CreateSegmentDto, UpdateSegmentDto } from './dto';
+
+@Injectable()
+export class SegmentsService {
+  private readonly logger = new Logger(SegmentsService.name);
+
+  constructor(
+    @InjectRepository(Segment)
+    private readonly segmentRepository: Repository<Segment>,
+    private readonly contactsService: ContactsService,
+  ) {}
+
+  async create(userId: string, dto: CreateSegmentDto): Promise<Segment> {
+    const segment = this.segmentRepository.create({
+      userId,
+      name: dto.name,
+      description: dto.description,
+      rules: dto.rules || {},
+    });
+
+    const saved = await this.segmentRepository.save(segment);
+    this.logger.log(`Segment ${saved.id} created for user ${userId}`);
+    return saved;
+  }
+
+  async findAll(userId: string): Promise<Segment[]> {
+    return this.segmentRepository.find({
+      where: { userId },
+      order: { updatedAt: 'DESC' },
+    });
+  }
+
+  async findOne(userId: string, id: string): Promise<Segment> {
+    const segment = await this.segmentRepository.findOne({
+      where: { id, userId },
+    });
+
+    if (!segment) {
+      throw new NotFoundException(`Segment with ID ${id} not found`);
+    }
+
+    return segment;
+  }
+
+  async update(
+    userId: string,
+    id: string,
+    dto: UpdateSegmentDto,
+  ): Promise<Segment> {
+    const segment = await this.findOne(userId, id);
+
+    if (dto.name !== undefined) {
+      segment.name = dto.name;
+    }
+    if (dto.description !== undefined) {
+      segment.description = dto.description;
+    }
+    if (dto.rules !== undefined) {
+      segment.rules = dto.rules;
+    }
+
+    return this.segmentRepository.save(segment);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const segment = await this.findOne(userId, id);
+    await this.segmentRepository.remove(segment);
+    this.logger.log(`Segment ${id} deleted for user ${userId}`);
+  }
+
+  /**
+   * Live count of contacts currently matching the rules
+   */
+  async countByRules(userId: string, rules: SegmentRules): Promise<number> {
+    return this.contactsService.countByFilter(userId, rules);
+  }
+
+  async countRecipients(
+    userId: string,
+    id: string,
+  ): Promise<{ segmentId: string; count: number }> {
+    const segment = await this.findOne(userId, id);
+    const count = await this.countByRules(userId, segment.rules);
+    return { segmentId: segment.id, count };
+  }
+
+  /**
+   * Resolve the segment to phone numbers as of now
+   */
+  async resolvePhoneNumbers(userId: string, id: string): Promise<string[]> {
+    const segment = await this.findOne(userId, id);
+    return this.contactsService.getPhoneNumbersByFilter(userId, segment.rules);
+  }
+}
@@ -1,6 +1,37 @@
-import { IsEnum, IsOptional, IsBoolean, IsString } from 'class-validator';
-import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsString,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
+  ValidateNested,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ThemeMode } from '../../../database/entities/user-settings.entity';
+import { SendingWindowDto } from '../../../common/dto';
+
+export class FrequencyCapDto {
+  @ApiProperty({
+    example: 2,
+    description: 'Max marketing blast messages a contact receives per period',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  maxMessages: number;
+
+  @ApiProperty({ example: 7, description: 'Rolling period in days' })
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  periodDays: number;
+}
 
 export class UpdateSettingsDto {
   @ApiPropertyOptional({
@@ -35,4 +66,51 @@ export class UpdateSettingsDto {
   @IsOptional()
   @IsString()
   language?: string;
+
+  @ApiPropertyOptional({
+    type: SendingWindowDto,
+    nullable: true,
+    description:
+      'Default allowed sending hours for blasts. Send null to allow any time.',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SendingWindowDto)
+  sendingWindow?: SendingWindowDto | null;
+
+  @ApiPropertyOptional({
+    type: [String],
+    nullable: true,
+    description:
+      'Replies equal to one of these words (case-insensitive) add the sender to the opt-out list. Send null for the defaults: STOP, BERHENTI, UNSUBSCRIBE.',
+    example: ['STOP', 'BERHENTI', 'UNSUBSCRIBE'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  optOutKeywords?: string[] | null;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    description:
+      'Confirmation sent after an opt-out. Send null to opt out silently.',
+    example: 'Anda tidak akan menerima pesan promosi lagi dari kami.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  optOutReply?: string | null;
+
+  @ApiPropertyOptional({
+    type: FrequencyCapDto,
+    nullable: true,
+    description:
+      'Skip blast recipients who already received this many marketing blast messages in the period. Transactional blasts are exempt. Send null to disable.',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FrequencyCapDto)
+  frequencyCap?: FrequencyCapDto | null;
 }
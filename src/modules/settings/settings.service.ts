@@ -4,9 +4,18 @@ import { Repository } from 'typeorm';
 import {
   UserSettings,
   ThemeMode,
+  FrequencyCap,
 } from '../../database/entities/user-settings.entity';
+import { SendingWindow } from '../../common/utils/sending-window.util';
 import { UpdateSettingsDto } from './dto';
 
+export const DEFAULT_OPT_OUT_KEYWORDS = ['STOP', 'BERHENTI', 'UNSUBSCRIBE'];
+
+export interface OptOutSettings {
+  keywords: string[];
+  reply: string | null;
+}
+
 @Injectable()
 export class SettingsService {
   private readonly logger = new Logger(SettingsService.name);
@@ -58,6 +67,10 @@ export class SettingsService {
         notificationSound: dto.notificationSound ?? true,
         notificationDesktop: dto.notificationDesktop ?? true,
         language: dto.language,
+        sendingWindow: dto.sendingWindow ?? null,
+        optOutKeywords: dto.optOutKeywords ?? null,
+        optOutReply: dto.optOutReply ?? null,
+        frequencyCap: dto.frequencyCap ?? null,
       });
     } else {
       // Update existing
@@ -67,6 +80,13 @@ export class SettingsService {
       if (dto.notificationDesktop !== undefined)
         settings.notificationDesktop = dto.notificationDesktop;
       if (dto.language !== undefined) settings.language = dto.language;
+      if (dto.sendingWindow !== undefined)
+        settings.sendingWindow = dto.sendingWindow;
+      if (dto.optOutKeywords !== undefined)
+        settings.optOutKeywords = dto.optOutKeywords;
+      if (dto.optOutReply !== undefined) settings.optOutReply = dto.optOutReply;
+      if (dto.frequencyCap !== undefined)
+        settings.frequencyCap = dto.frequencyCap;
     }
 
     await this.settingsRepository.save(settings);
@@ -75,6 +95,46 @@ export class SettingsService {
     return settings;
   }
 
+  /**
+   * Get the user's default blast sending window (null = any time)
+   */
+  async getSendingWindow(userId: string): Promise<SendingWindow | null> {
+    const settings = await this.settingsRepository.findOne({
+      where: { userId },
+      select: ['id', 'sendingWindow'],
+    });
+    return settings?.sendingWindow ?? null;
+  }
+
+  /**
+   * Get the user's blast frequency cap (null = no cap)
+   */
+  async getFrequencyCap(userId: string): Promise<FrequencyCap | null> {
+    const settings = await this.settingsRepository.findOne({
+      where: { userId },
+      select: ['id', 'frequencyCap'],
+    });
+    return settings?.frequencyCap ?? null;
+  }
+
+  /**
+   * Get the user's opt-out keywords (upper-cased) and confirmation reply
+   */
+  async getOptOutSettings(userId: string): Promise<OptOutSettings> {
+    const settings = await this.settingsRepository.findOne({
+      where: { userId },
+      select: ['id', 'optOutKeywords', 'optOutReply'],
+    });
+    const keywords = settings?.optOutKeywords?.length
+      ? settings.optOutKeywords
+      : DEFAULT_OPT_OUT_KEYWORDS;
+
+    return {
+      keywords: keywords.map((keyword) => keyword.trim().toUpperCase()),
+      reply: settings?.optOutReply || null,
+    };
+  }
+
   /**
    * Update theme only (shortcut)
    */
@@ -1,2 +1,3 @@
 export * from './subscription.dto';
 export * from './subscription-query.dto';
+export * from './quota-refund.dto';
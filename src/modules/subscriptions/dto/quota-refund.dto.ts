@@ -0,0 +1,31 @@
+import { IsOptional, IsInt, Min, Max, IsEnum, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { QuotaRefundReason } from '../../../database/entities/quota-refund.entity';
+
+export class QuotaRefundQueryDto {
+  @ApiPropertyOptional({ minimum: 1, default: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 100, default: 10 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 10;
+
+  @ApiPropertyOptional({ description: 'Only refunds of this blast' })
+  @IsUUID()
+  @IsOptional()
+  blastId?: string;
+
+  @ApiPropertyOptional({ enum: QuotaRefundReason })
+  @IsEnum(QuotaRefundReason)
+  @IsOptional()
+  reason?: QuotaRefundReason;
+}
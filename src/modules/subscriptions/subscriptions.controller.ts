@@ -6,7 +6,7 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { SubscriptionsService } from './subscriptions.service';
-import { SubscriptionQueryDto } from './dto';
+import { SubscriptionQueryDto, QuotaRefundQueryDto } from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -37,6 +37,30 @@ export class SubscriptionsController {
     return this.subscriptionsService.checkQuota(userId);
   }
 
+  @Get('quota/refunds')
+  @ApiOperation({
+    summary: 'Get blast quota refunds',
+    description:
+      'Itemized quota given back for cancelled blast recipients and numbers that turned out not to be on WhatsApp',
+  })
+  @ApiResponse({ status: 200, description: 'Paginated list of refunds' })
+  async findQuotaRefunds(
+    @CurrentUser('id') userId: string,
+    @Query() query: QuotaRefundQueryDto,
+  ) {
+    const { data, total } = await this.subscriptionsService.findQuotaRefunds(
+      userId,
+      query,
+    );
+    return {
+      data,
+      total,
+      page: query.page || 1,
+      limit: query.limit || 10,
+      totalPages: Math.ceil(total / (query.limit || 10)),
+    };
+  }
+
   @Get('my-subscriptions')
   @ApiOperation({ summary: 'Get subscription history' })
   @ApiResponse({ status: 200, description: 'List of user subscriptions' })
@@ -4,15 +4,16 @@ import { SubscriptionsService } from './subscriptions.service';
 import { SubscriptionsController } from './subscriptions.controller';
 import { Subscription } from '../../database/entities/subscription.entity';
 import { User } from '../../database/entities/user.entity';
+import { QuotaRefund } from '../../database/entities/quota-refund.entity';
 import { PackagesModule } from '../packages/packages.module';
 import { WhatsAppModule } from '../whatsapp/whatsapp.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Subscription, User]),
+    TypeOrmModule.forFeature([Subscription, User, QuotaRefund]),
     PackagesModule,
-    WhatsAppModule,
+    forwardRef(() => WhatsAppModule),
     NotificationsModule,
   ],
   controllers: [SubscriptionsController],
@@ -12,11 +12,15 @@ import {
   SubscriptionStatus,
 } from '../../database/entities/subscription.entity';
 import { User } from '../../database/entities/user.entity';
+import {
+  QuotaRefund,
+  QuotaRefundReason,
+} from '../../database/entities/quota-refund.entity';
 import { Package } from '../../database/entities/package.entity';
 import { PackagesService } from '../packages/packages.service';
 import { WhatsAppGateway } from '../whatsapp/gateways/whatsapp.gateway';
 import { NotificationsService } from '../notifications/notifications.service';
-import { SubscriptionQueryDto } from './dto';
+import { SubscriptionQueryDto, QuotaRefundQueryDto } from './dto';
 
 @Injectable()
 export class SubscriptionsService {
@@ -36,6 +40,8 @@ export class SubscriptionsService {
     private readonly subscriptionRepository: Repository<Subscription>,
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    @InjectRepository(QuotaRefund)
+    private readonly quotaRefundRepository: Repository<QuotaRefund>,
     private readonly packagesService: PackagesService,
     private readonly whatsappGateway: WhatsAppGateway,
     private readonly notificationsService: NotificationsService,
@@ -220,6 +226,11 @@ export class SubscriptionsService {
     };
   }
 
+  /**
+   * Charge blast quota. The counters are incremented in one statement that
+   * also checks the monthly and daily limits, so concurrent charges and
+   * refunds don't overwrite each other.
+   */
   async useQuota(userId: string, count: number = 1): Promise<void> {
     const subscription = await this.getActiveSubscription(userId);
 
@@ -227,42 +238,49 @@ export class SubscriptionsService {
       throw new BadRequestException('No active subscription');
     }
 
+    const pkg = subscription.package;
     const today = new Date().toISOString().split('T')[0];
-    const lastUsed = this.getDateString(subscription.lastBlastDate);
-
-    // Reset daily counter if new day
-    if (lastUsed !== today) {
-      subscription.todayBlastUsed = 0;
-      subscription.lastBlastDate = new Date();
+    // Daily counter restarts on a new day
+    const todayUsed = `(CASE WHEN "lastBlastDate" = '${today}' THEN "todayBlastUsed" ELSE 0 END)`;
+
+    const query = this.subscriptionRepository
+      .createQueryBuilder()
+      .update(Subscription)
+      .set({
+        usedBlastQuota: () => `"usedBlastQuota" + ${count}`,
+        todayBlastUsed: () => `${todayUsed} + ${count}`,
+        lastBlastDate: today,
+      })
+      .where('id = :id', { id: subscription.id });
+    if (pkg.blastMonthlyQuota > 0) {
+      query.andWhere(`"usedBlastQuota" + ${count} <= :monthlyQuota`, {
+        monthlyQuota: pkg.blastMonthlyQuota,
+      });
+    }
+    if (pkg.blastDailyLimit > 0) {
+      query.andWhere(`${todayUsed} + ${count} <= :dailyLimit`, {
+        dailyLimit: pkg.blastDailyLimit,
+      });
     }
 
-    subscription.usedBlastQuota += count;
-    subscription.todayBlastUsed += count;
-    await this.subscriptionRepository.save(subscription);
+    const result = await query
+      .returning(['usedBlastQuota', 'todayBlastUsed'])
+      .execute();
+    if (!result.affected) {
+      throw new BadRequestException(`Insufficient quota. Required: ${count}`);
+    }
 
-    const pkg = subscription.package;
+    const [updated] = result.raw as Pick<
+      Subscription,
+      'usedBlastQuota' | 'todayBlastUsed'
+    >[];
+    subscription.usedBlastQuota = updated.usedBlastQuota;
+    subscription.todayBlastUsed = updated.todayBlastUsed;
 
-    // Calculate remaining (handle unlimited)
     const isMonthlyUnlimited = pkg.blastMonthlyQuota === 0;
-    const isDailyUnlimited = pkg.blastDailyLimit === 0;
-
-    const monthlyRemaining = isMonthlyUnlimited
-      ? -1
-      : pkg.blastMonthlyQuota - subscription.usedBlastQuota;
-    const dailyRemaining = isDailyUnlimited
-      ? -1
-      : pkg.blastDailyLimit - subscription.todayBlastUsed;
 
     // Send realtime quota update
-    this.whatsappGateway.sendQuotaUpdate(userId, {
-      blastQuota: {
-        monthlyUsed: subscription.usedBlastQuota,
-        monthlyRemaining,
-        dailyUsed: subscription.todayBlastUsed,
-        dailyRemaining,
-        isUnlimited: isMonthlyUnlimited && isDailyUnlimited,
-      },
-    });
+    this.sendQuotaUpdate(userId, subscription);
 
     // Skip warnings if unlimited
     if (isMonthlyUnlimited) {
@@ -311,6 +329,123 @@ export class SubscriptionsService {
     }
   }
 
+  /**
+   * Give back blast quota for recipients that were charged but never sent to.
+   * Charges from before the active subscription started are not refunded;
+   * today's charges also go back to the daily limit.
+   */
+  async refundQuota(
+    userId: string,
+    refund: {
+      blastId: string;
+      reason: QuotaRefundReason;
+      chargedAt: Date[];
+    },
+  ): Promise<QuotaRefund | null> {
+    const subscription = await this.getActiveSubscription(userId);
+    if (!subscription) {
+      return null;
+    }
+
+    const periodStart = new Date(subscription.startDate).getTime();
+    const charged = refund.chargedAt.filter(
+      (date) => date.getTime() >= periodStart,
+    );
+    if (charged.length === 0) {
+      return null;
+    }
+
+    // The daily counter only holds charges made today
+    const today = new Date().toISOString().split('T')[0];
+    const dailyCount =
+      this.getDateString(subscription.lastBlastDate) === today
+        ? charged.filter((date) => this.getDateString(date) === today).length
+        : 0;
+
+    await this.subscriptionRepository
+      .createQueryBuilder()
+      .update(Subscription)
+      .set({
+        usedBlastQuota: () =>
+          `GREATEST("usedBlastQuota" - ${charged.length}, 0)`,
+        todayBlastUsed: () => `GREATEST("todayBlastUsed" - ${dailyCount}, 0)`,
+      })
+      .where('id = :id', { id: subscription.id })
+      .execute();
+
+    const saved = await this.quotaRefundRepository.save(
+      this.quotaRefundRepository.create({
+        userId,
+        subscriptionId: subscription.id,
+        blastId: refund.blastId,
+        reason: refund.reason,
+        count: charged.length,
+        dailyCount,
+      }),
+    );
+
+    subscription.usedBlastQuota = Math.max(
+      subscription.usedBlastQuota - charged.length,
+      0,
+    );
+    subscription.todayBlastUsed = Math.max(
+      subscription.todayBlastUsed - dailyCount,
+      0,
+    );
+    this.sendQuotaUpdate(userId, subscription);
+
+    this.logger.log(
+      `Refunded ${charged.length} blast quota to user ${userId} (${refund.reason}, blast ${refund.blastId})`,
+    );
+
+    return saved;
+  }
+
+  async findQuotaRefunds(
+    userId: string,
+    query: QuotaRefundQueryDto,
+  ): Promise<{ data: QuotaRefund[]; total: number }> {
+    const { page = 1, limit = 10, blastId, reason } = query;
+
+    const [data, total] = await this.quotaRefundRepository.findAndCount({
+      where: {
+        userId,
+        ...(blastId && { blastId }),
+        ...(reason && { reason }),
+      },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return { data, total };
+  }
+
+  private sendQuotaUpdate(userId: string, subscription: Subscription): void {
+    const pkg = subscription.package;
+
+    // Calculate remaining (handle unlimited)
+    const isMonthlyUnlimited = pkg.blastMonthlyQuota === 0;
+    const isDailyUnlimited = pkg.blastDailyLimit === 0;
+
+    const monthlyRemaining = isMonthlyUnlimited
+      ? -1
+      : pkg.blastMonthlyQuota - subscription.usedBlastQuota;
+    const dailyRemaining = isDailyUnlimited
+      ? -1
+      : pkg.blastDailyLimit - subscription.todayBlastUsed;
+
+    this.whatsappGateway.sendQuotaUpdate(userId, {
+      blastQuota: {
+        monthlyUsed: subscription.usedBlastQuota,
+        monthlyRemaining,
+        dailyUsed: subscription.todayBlastUsed,
+        dailyRemaining,
+        isUnlimited: isMonthlyUnlimited && isDailyUnlimited,
+      },
+    });
+  }
+
   async findByUser(userId: string): Promise<Subscription[]> {
     return this.subscriptionRepository.find({
       where: { userId },
@@ -609,18 +744,47 @@ export class SubscriptionsService {
       throw new BadRequestException('No active subscription');
     }
 
+    // Atomic like useQuota, so a concurrent refund is not overwritten
     const today = new Date().toISOString().split('T')[0];
-    const lastBlast = this.getDateString(subscription.lastBlastDate);
+    await this.subscriptionRepository
+      .createQueryBuilder()
+      .update(Subscription)
+      .set({
+        usedBlastQuota: () => `"usedBlastQuota" + 1`,
+        todayBlastUsed: () =>
+          `(CASE WHEN "lastBlastDate" = '${today}' THEN "todayBlastUsed" ELSE 0 END) + 1`,
+        lastBlastDate: today,
+      })
+      .where('id = :id', { id: subscription.id })
+      .execute();
+  }
 
-    // Reset daily counter if new day
-    if (lastBlast !== today) {
-      subscription.todayBlastUsed = 0;
-      subscription.lastBlastDate = new Date();
-    }
+  // ==================== WhatsApp Numbers ====================
 
-    subscription.todayBlastUsed += 1;
-    subscription.usedBlastQuota += 1;
-    subscription.lastBlastDate = new Date();
-    await this.subscriptionRepository.save(subscription);
+  /**
+   * Whether the user may link another WhatsApp number.
+   * Without a subscription a single number is allowed.
+   */
+  async checkNumberLimit(
+    userId: string,
+    used: number,
+  ): Promise<{
+    canAdd: boolean;
+    used: number;
+    limit: number;
+    message?: string;
+  }> {
+    const subscription = await this.getActiveSubscription(userId);
+    const limit = subscription ? subscription.package.maxWhatsappNumbers : 1;
+    const canAdd = limit === 0 || used < limit;
+
+    return {
+      canAdd,
+      used,
+      limit,
+      message: canAdd
+        ? undefined
+        : `WhatsApp number limit reached. Limit: ${limit} number(s)`,
+    };
   }
 }
@@ -0,0 +1,69 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  MinLength,
+  MaxLength,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { SuppressionSource } from '../../../database/entities/suppression.entity';
+
+export class CreateSuppressionDto {
+  @ApiProperty({
+    example: '628123456789',
+    description: 'Phone number that must not be contacted',
+  })
+  @IsString()
+  @MinLength(10)
+  phoneNumber: string;
+
+  @ApiPropertyOptional({
+    example: 'Asked by phone to stop receiving promos',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class SuppressionQueryDto {
+  @ApiPropertyOptional({ example: '62812', description: 'Search by phone' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ enum: SuppressionSource })
+  @IsOptional()
+  @IsEnum(SuppressionSource)
+  source?: SuppressionSource;
+
+  @ApiPropertyOptional({ example: 1, description: 'Page number', default: 1 })
+  @IsOptional()
+  @Transform(({ value }: { value: string }) => parseInt(value, 10) || 1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    example: 20,
+    description: 'Items per page',
+    default: 20,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: string }) =>
+    Math.min(parseInt(value, 10) || 20, 100),
+  )
+  @Max(100)
+  limit?: number;
+}
+
+export class SuppressionImportResultDto {
+  @ApiProperty({ example: 120 })
+  totalProcessed: number;
+
+  @ApiProperty({ example: 100 })
+  added: number;
+
+  @ApiProperty({ example: 20, description: 'Already on the list' })
+  skipped: number;
+}
@@ -0,0 +1,3 @@
+export * from './suppressions.module';
+export * from './suppressions.service';
+export * from './dto';
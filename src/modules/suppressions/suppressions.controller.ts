@@ -0,0 +1,222 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  Header,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { SuppressionsService } from './suppressions.service';
+import {
+  CreateSuppressionDto,
+  SuppressionQueryDto,
+  SuppressionImportResultDto,
+} from './dto';
+import { UploadsService } from '../uploads/uploads.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../../database/entities/user.entity';
+
+const IMPORT_BODY_SCHEMA = {
+  schema: {
+    type: 'object',
+    required: ['file'],
+    properties: {
+      file: {
+        type: 'string',
+        format: 'binary',
+        description: 'CSV/Excel file with phone numbers',
+      },
+    },
+  },
+};
+
+@ApiTags('Opt-out List')
+@ApiBearerAuth('JWT-auth')
+@Controller('suppressions')
+@UseGuards(JwtAuthGuard)
+export class SuppressionsController {
+  constructor(
+    private readonly suppressionsService: SuppressionsService,
+    private readonly uploadsService: UploadsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the opt-out (do-not-contact) list' })
+  @ApiResponse({ status: 200, description: 'Paginated opt-out entries' })
+  findAll(
+    @CurrentUser('id') userId: string,
+    @Query() query: SuppressionQueryDto,
+  ) {
+    return this.suppressionsService.findAll(userId, query);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Add a number to the opt-out list',
+    description: 'Blasts and follow-ups will skip this number.',
+  })
+  @ApiResponse({ status: 201, description: 'Number added' })
+  @ApiResponse({ status: 409, description: 'Number already on the list' })
+  create(@CurrentUser('id') userId: string, @Body() dto: CreateSuppressionDto) {
+    return this.suppressionsService.create(userId, dto);
+  }
+
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Import numbers to the opt-out list' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(IMPORT_BODY_SCHEMA)
+  @ApiResponse({ status: 201, type: SuppressionImportResultDto })
+  import(
+    @CurrentUser('id') userId: string,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.importFile(userId, file);
+  }
+
+  @Get('export')
+  @Header('Content-Type', 'text/csv')
+  @ApiProduces('text/csv')
+  @ApiOperation({ summary: 'Export the opt-out list to CSV' })
+  @ApiResponse({ status: 200, description: 'CSV file download' })
+  async export(@CurrentUser('id') userId: string, @Res() res: Response) {
+    const csv = await this.suppressionsService.exportToCsv(userId);
+    res.setHeader('Content-Disposition', 'attachment; filename=opt-out.csv');
+    res.send(csv);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Remove a number from the opt-out list' })
+  @ApiResponse({ status: 200, description: 'Number removed' })
+  @ApiResponse({ status: 404, description: 'Entry not found' })
+  async remove(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.suppressionsService.remove(userId, id);
+    return { message: 'Number removed from the opt-out list' };
+  }
+
+  // ==================== Admin: any user's list ====================
+
+  @Get('admin/users/:userId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: "Get a user's opt-out list (Admin)" })
+  @ApiResponse({ status: 200, description: 'Paginated opt-out entries' })
+  findAllAdmin(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Query() query: SuppressionQueryDto,
+  ) {
+    return this.suppressionsService.findAll(userId, query);
+  }
+
+  @Post('admin/users/:userId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: "Add a number to a user's opt-out list (Admin)" })
+  @ApiResponse({ status: 201, description: 'Number added' })
+  @ApiResponse({ status: 409, description: 'Number already on the list' })
+  createAdmin(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() dto: CreateSuppressionDto,
+  ) {
+    return this.suppressionsService.create(userId, dto);
+  }
+
+  @Post('admin/users/:userId/import')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: "Import numbers to a user's opt-out list (Admin)" })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody(IMPORT_BODY_SCHEMA)
+  @ApiResponse({ status: 201, type: SuppressionImportResultDto })
+  importAdmin(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.importFile(userId, file);
+  }
+
+  @Get('admin/users/:userId/export')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @Header('Content-Type', 'text/csv')
+  @ApiProduces('text/csv')
+  @ApiOperation({ summary: "Export a user's opt-out list to CSV (Admin)" })
+  @ApiResponse({ status: 200, description: 'CSV file download' })
+  async exportAdmin(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Res() res: Response,
+  ) {
+    const csv = await this.suppressionsService.exportToCsv(userId);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename=opt-out-${userId}.csv`,
+    );
+    res.send(csv);
+  }
+
+  @Delete('admin/users/:userId/:id')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: "Remove a number from a user's opt-out list (Admin)",
+  })
+  @ApiResponse({ status: 200, description: 'Number removed' })
+  @ApiResponse({ status: 404, description: 'Entry not found' })
+  async removeAdmin(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.suppressionsService.remove(userId, id);
+    return { message: 'Number removed from the opt-out list' };
+  }
+
+  private async importFile(
+    userId: string,
+    file: Express.Multer.File,
+  ): Promise<SuppressionImportResultDto> {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    try {
+      this.uploadsService.validatePhoneFile(file);
+      const { phoneNumbers } = await this.uploadsService.parsePhoneNumbersFile(
+        file.path,
+      );
+
+      if (phoneNumbers.length === 0) {
+        throw new BadRequestException('No valid phone numbers found in file');
+      }
+
+      return await this.suppressionsService.bulkAdd(userId, phoneNumbers);
+    } finally {
+      this.uploadsService.cleanupTempFile(file.path);
+    }
+  }
+}
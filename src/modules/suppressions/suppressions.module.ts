@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SuppressionsService } from './suppressions.service';
+import { SuppressionsController } from './suppressions.controller';
+import { Suppression } from '../../database/entities/suppression.entity';
+import { UploadsModule } from '../uploads';
+import { SettingsModule } from '../settings/settings.module';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Suppression]),
+    UploadsModule,
+    SettingsModule,
+    WhatsAppModule,
+  ],
+  controllers: [SuppressionsController],
+  providers: [SuppressionsService],
+  exports: [SuppressionsService],
+})
+export class SuppressionsModule {}
@@ -0,0 +1,264 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import {
+  Suppression,
+  SuppressionSource,
+} from '../../database/entities/suppression.entity';
+import { SettingsService } from '../settings/settings.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import {
+  CreateSuppressionDto,
+  SuppressionQueryDto,
+  SuppressionImportResultDto,
+} from './dto';
+
+@Injectable()
+export class SuppressionsService {
+  private readonly logger = new Logger(SuppressionsService.name);
+  private readonly LOOKUP_CHUNK_SIZE = 1000;
+
+  constructor(
+    @InjectRepository(Suppression)
+    private readonly suppressionRepository: Repository<Suppression>,
+    private readonly settingsService: SettingsService,
+    private readonly whatsappService: WhatsAppService,
+  ) {}
+
+  async findAll(
+    userId: string,
+    query: SuppressionQueryDto,
+  ): Promise<{
+    data: Suppression[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const qb = this.suppressionRepository
+      .createQueryBuilder('suppression')
+      .where('suppression.userId = :userId', { userId });
+
+    if (query.search) {
+      qb.andWhere('suppression.phoneNumber ILIKE :search', {
+        search: `%${query.search.replace(/\D/g, '')}%`,
+      });
+    }
+    if (query.source) {
+      qb.andWhere('suppression.source = :source', { source: query.source });
+    }
+
+    const [data, total] = await qb
+      .orderBy('suppression.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { data, total, page, limit };
+  }
+
+  async create(
+    userId: string,
+    dto: CreateSuppressionDto,
+  ): Promise<Suppression> {
+    const phoneNumber = this.formatPhoneNumber(dto.phoneNumber);
+
+    const existing = await this.suppressionRepository.findOne({
+      where: { userId, phoneNumber },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `Phone number ${phoneNumber} is already on the opt-out list`,
+      );
+    }
+
+    const suppression = this.suppressionRepository.create({
+      userId,
+      phoneNumber,
+      source: SuppressionSource.MANUAL,
+      note: dto.note,
+    });
+    return this.suppressionRepository.save(suppression);
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const result = await this.suppressionRepository.delete({ id, userId });
+    if (!result.affected) {
+      throw new NotFoundException('Opt-out entry not found');
+    }
+  }
+
+  /**
+   * Add many numbers at once, skipping the ones already on the list
+   */
+  async bulkAdd(
+    userId: string,
+    phoneNumbers: string[],
+    source: SuppressionSource = SuppressionSource.IMPORT,
+  ): Promise<SuppressionImportResultDto> {
+    const uniquePhones = [
+      ...new Set(phoneNumbers.map((phone) => this.formatPhoneNumber(phone))),
+    ];
+    const existing = await this.getSuppressedNumbers(userId, uniquePhones);
+    const newPhones = uniquePhones.filter((phone) => !existing.has(phone));
+
+    for (let i = 0; i < newPhones.length; i += this.LOOKUP_CHUNK_SIZE) {
+      await this.suppressionRepository
+        .createQueryBuilder()
+        .insert()
+        .into(Suppression)
+        .values(
+          newPhones
+            .slice(i, i + this.LOOKUP_CHUNK_SIZE)
+            .map((phoneNumber) => ({ userId, phoneNumber, source })),
+        )
+        .orIgnore()
+        .execute();
+    }
+
+    this.logger.log(
+      `Added ${newPhones.length} numbers to the opt-out list of user ${userId}`,
+    );
+
+    return {
+      totalProcessed: uniquePhones.length,
+      added: newPhones.length,
+      skipped: uniquePhones.length - newPhones.length,
+    };
+  }
+
+  async exportToCsv(userId: string): Promise<string> {
+    const suppressions = await this.suppressionRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+
+    const headers = ['Phone Number', 'Source', 'Keyword', 'Note', 'Created At'];
+    const rows = suppressions.map((s) => [
+      s.phoneNumber,
+      s.source,
+      s.keyword || '',
+      s.note || '',
+      s.createdAt.toISOString(),
+    ]);
+
+    return [
+      headers.join(','),
+      ...rows.map((row) =>
+        row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(','),
+      ),
+    ].join('\n');
+  }
+
+  async isSuppressed(userId: string, phoneNumber: string): Promise<boolean> {
+    return this.suppressionRepository.exists({
+      where: { userId, phoneNumber: this.formatPhoneNumber(phoneNumber) },
+    });
+  }
+
+  /**
+   * Return which of the given (normalized) numbers are on the user's list
+   */
+  async getSuppressedNumbers(
+    userId: string,
+    phoneNumbers: string[],
+  ): Promise<Set<string>> {
+    const suppressed = new Set<string>();
+
+    for (let i = 0; i < phoneNumbers.length; i += this.LOOKUP_CHUNK_SIZE) {
+      const rows = await this.suppressionRepository.find({
+        where: {
+          userId,
+          phoneNumber: In(phoneNumbers.slice(i, i + this.LOOKUP_CHUNK_SIZE)),
+        },
+        select: ['phoneNumber'],
+      });
+      rows.forEach((row) => suppressed.add(row.phoneNumber));
+    }
+
+    return suppressed;
+  }
+
+  /**
+   * Opt the sender out when the message is one of the user's keywords.
+   * The confirmation goes out from the session that received the message.
+   * Returns true when the message was an opt-out.
+   */
+  async handleIncomingMessage(
+    userId: string,
+    phoneNumber: string,
+    body: string | undefined,
+    sessionId?: string,
+  ): Promise<boolean> {
+    const text = (body || '')
+      .trim()
+      .toUpperCase()
+      .replace(/[.!]+$/, '');
+    if (!text) return false;
+
+    const { keywords, reply } =
+      await this.settingsService.getOptOutSettings(userId);
+    if (!keywords.includes(text)) return false;
+
+    const formattedPhone = this.formatPhoneNumber(phoneNumber.split('@')[0]);
+    const result = await this.suppressionRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Suppression)
+      .values({
+        userId,
+        phoneNumber: formattedPhone,
+        source: SuppressionSource.KEYWORD,
+        keyword: text,
+      })
+      .orIgnore()
+      .execute();
+
+    // Already opted out (nothing inserted) - don't confirm twice
+    if ((result.raw as unknown[]).length === 0) return true;
+
+    this.logger.log(
+      `${formattedPhone} opted out from user ${userId} with '${text}'`,
+    );
+
+    if (reply) {
+      try {
+        await this.whatsappService.sendMessage(
+          userId,
+          formattedPhone,
+          reply,
+          sessionId,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to send opt-out confirmation to ${formattedPhone}: ${error}`,
+        );
+      }
+    }
+
+    return true;
+  }
+
+  private formatPhoneNumber(phone: string): string {
+    // Remove all non-digit characters (handles +, -, (), spaces, dots, quotes, etc.)
+    let cleaned = phone.replace(/\D/g, '');
+
+    // 0062... -> 62..., 620... -> 62..., 0... -> 62...
+    if (cleaned.startsWith('0062')) {
+      cleaned = cleaned.substring(2);
+    } else if (cleaned.startsWith('620')) {
+      cleaned = '62' + cleaned.substring(3);
+    } else if (cleaned.startsWith('0')) {
+      cleaned = '62' + cleaned.substring(1);
+    }
+
+    return cleaned;
+  }
+}
@@ -10,6 +10,18 @@ export interface ParsedPhoneNumbers {
   invalidCount: number;
 }
 
+export interface ParsedRecipient {
+  phoneNumber: string;
+  variables: Record<string, string>; // Other columns keyed by normalized header
+}
+
+export interface ParsedRecipients {
+  recipients: ParsedRecipient[];
+  columns: string[];
+  totalParsed: number;
+  invalidCount: number;
+}
+
 @Injectable()
 export class UploadsService {
   private readonly logger = new Logger(UploadsService.name);
@@ -18,6 +30,18 @@ export class UploadsService {
   private readonly imagesDir = path.join(this.uploadsDir, 'images');
 
   private readonly ALLOWED_PHONE_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+  private readonly PHONE_HEADER_KEYWORDS = [
+    'phone',
+    'nomor',
+    'no',
+    'number',
+    'hp',
+    'telepon',
+    'handphone',
+    'mobile',
+    'whatsapp',
+    'wa',
+  ];
   private readonly ALLOWED_IMAGE_TYPES = [
     'image/jpeg',
     'image/png',
@@ -56,57 +80,12 @@ export class UploadsService {
   }
 
   async parsePhoneNumbersFile(filePath: string): Promise<ParsedPhoneNumbers> {
-    const ext = path.extname(filePath).toLowerCase();
-
-    if (!this.ALLOWED_PHONE_EXTENSIONS.includes(ext)) {
-      throw new BadRequestException(
-        `Invalid file format. Allowed: ${this.ALLOWED_PHONE_EXTENSIONS.join(', ')}`,
-      );
-    }
-
-    const stats = fs.statSync(filePath);
-    if (stats.size > this.MAX_PHONE_FILE_SIZE) {
-      throw new BadRequestException(
-        `File too large. Maximum size: ${this.MAX_PHONE_FILE_SIZE / (1024 * 1024)}MB`,
-      );
-    }
-
     try {
       const phoneNumbers: string[] = [];
       const seenPhones = new Set<string>(); // Prevent duplicates
       let invalidCount = 0;
 
-      const workbook = new ExcelJS.Workbook();
-      if (ext === '.csv') {
-        await workbook.csv.readFile(filePath);
-      } else {
-        await workbook.xlsx.readFile(filePath);
-      }
-
-      const sheet = workbook.getWorksheet(1);
-      if (!sheet) {
-        throw new BadRequestException('File is empty or corrupted');
-      }
-
-      // Check if first row looks like a header
-      const firstRow = sheet.getRow(1);
-      let headerValues: string[] = [];
-
-      if (Array.isArray(firstRow.values)) {
-        headerValues = (firstRow.values as any[]).slice(1).map((v) =>
-          String(v || '')
-            .toLowerCase()
-            .trim(),
-        );
-      } else if (typeof firstRow.values === 'object') {
-        headerValues = Object.values(firstRow.values).map((v) =>
-          String(v || '')
-            .toLowerCase()
-            .trim(),
-        );
-      }
-
-      const hasHeader = this.isHeaderRow(headerValues);
+      const { sheet, hasHeader } = await this.readPhoneSheet(filePath);
 
       sheet.eachRow((row, rowNumber) => {
         // Skip header row if detected
@@ -157,6 +136,167 @@ export class UploadsService {
     }
   }
 
+  /**
+   * Parse a recipients file with one recipient per row.
+   * When the file has a header row, the other columns are kept per recipient
+   * (e.g. "Nama", "Kota") so they can be used as message placeholders ({nama}, {kota}).
+   */
+  async parseRecipientsFile(filePath: string): Promise<ParsedRecipients> {
+    try {
+      const recipients: ParsedRecipient[] = [];
+      const seenPhones = new Set<string>(); // Prevent duplicates
+      let invalidCount = 0;
+
+      const { sheet, headerValues, hasHeader } =
+        await this.readPhoneSheet(filePath);
+
+      const columns = hasHeader
+        ? headerValues.map((header) => this.normalizeColumnName(header))
+        : [];
+      // e.g. "phone", "no_hp", "nomor_whatsapp"
+      const phoneColumnIndex = columns.findIndex((column) =>
+        column
+          .split('_')
+          .some((word) => this.PHONE_HEADER_KEYWORDS.includes(word)),
+      );
+
+      sheet.eachRow((row, rowNumber) => {
+        // Skip header row if detected
+        if (rowNumber === 1 && hasHeader) return;
+
+        const cells: string[] = [];
+        row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+          cells[colNumber - 1] = String(cell.text || '').trim();
+        });
+
+        // Use the phone column when known, otherwise the first cell holding a phone number
+        let phoneIndex = phoneColumnIndex;
+        if (phoneIndex === -1) {
+          phoneIndex = cells.findIndex(
+            (value) => !!value && !!this.extractPhoneNumber(value),
+          );
+        }
+
+        const phoneValue = phoneIndex >= 0 ? cells[phoneIndex] : undefined;
+        const extractedPhone = phoneValue
+          ? this.extractPhoneNumber(phoneValue)
+          : null;
+
+        if (!extractedPhone) {
+          if (phoneValue && this.looksLikePhoneAttempt(phoneValue)) {
+            invalidCount++;
+            this.logger.debug(`Invalid phone number skipped: ${phoneValue}`);
+          }
+          return;
+        }
+
+        // Skip if already seen (duplicate)
+        if (seenPhones.has(extractedPhone)) return;
+        seenPhones.add(extractedPhone);
+
+        const variables: Record<string, string> = {};
+        columns.forEach((column, index) => {
+          if (!column || index === phoneIndex) return;
+          variables[column] = cells[index] || '';
+        });
+
+        recipients.push({ phoneNumber: extractedPhone, variables });
+      });
+
+      if (recipients.length === 0) {
+        throw new BadRequestException('No valid phone numbers found in file.');
+      }
+
+      this.logger.log(
+        `Parsed ${recipients.length} recipients with ${columns.length} columns from file (${invalidCount} invalid entries skipped)`,
+      );
+
+      return {
+        recipients,
+        columns: columns.filter(
+          (column, index) => !!column && index !== phoneColumnIndex,
+        ),
+        totalParsed: recipients.length,
+        invalidCount,
+      };
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      this.logger.error(`Error parsing recipients file: ${error}`);
+      throw new BadRequestException(
+        'Failed to parse phone numbers file. Ensure the file is a valid CSV or Excel file.',
+      );
+    }
+  }
+
+  /**
+   * Validate and load the first worksheet of a CSV/Excel phone file
+   */
+  private async readPhoneSheet(filePath: string): Promise<{
+    sheet: ExcelJS.Worksheet;
+    headerValues: string[];
+    hasHeader: boolean;
+  }> {
+    const ext = path.extname(filePath).toLowerCase();
+
+    if (!this.ALLOWED_PHONE_EXTENSIONS.includes(ext)) {
+      throw new BadRequestException(
+        `Invalid file format. Allowed: ${this.ALLOWED_PHONE_EXTENSIONS.join(', ')}`,
+      );
+    }
+
+    const stats = fs.statSync(filePath);
+    if (stats.size > this.MAX_PHONE_FILE_SIZE) {
+      throw new BadRequestException(
+        `File too large. Maximum size: ${this.MAX_PHONE_FILE_SIZE / (1024 * 1024)}MB`,
+      );
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    if (ext === '.csv') {
+      await workbook.csv.readFile(filePath);
+    } else {
+      await workbook.xlsx.readFile(filePath);
+    }
+
+    const sheet = workbook.getWorksheet(1);
+    if (!sheet) {
+      throw new BadRequestException('File is empty or corrupted');
+    }
+
+    // Check if first row looks like a header
+    const firstRow = sheet.getRow(1);
+    let headerValues: string[] = [];
+
+    if (Array.isArray(firstRow.values)) {
+      headerValues = (firstRow.values as any[]).slice(1).map((v) =>
+        String(v || '')
+          .toLowerCase()
+          .trim(),
+      );
+    } else if (typeof firstRow.values === 'object') {
+      headerValues = Object.values(firstRow.values).map((v) =>
+        String(v || '')
+          .toLowerCase()
+          .trim(),
+      );
+    }
+
+    return { sheet, headerValues, hasHeader: this.isHeaderRow(headerValues) };
+  }
+
+  /**
+   * Turn a header like "Nama Lengkap" into a placeholder key: "nama_lengkap"
+   */
+  private normalizeColumnName(header: string): string {
+    return header
+      .toLowerCase()
+      .trim()
+      .replace(/\s+/g, '_')
+      .replace(/[^\w.-]/g, '');
+  }
+
   /**
    * Extract phone number from a cell value using pattern matching.
    * Handles formats like: 0821-3789-02, +62 821 3789 02, (62)821378902, etc.
@@ -188,20 +328,8 @@ export class UploadsService {
 
     // Check first column value
     const firstCell = String(row[0]).toLowerCase().trim();
-    const headerKeywords = [
-      'phone',
-      'nomor',
-      'no',
-      'number',
-      'hp',
-      'telepon',
-      'handphone',
-      'mobile',
-      'whatsapp',
-      'wa',
-    ];
-
-    return headerKeywords.some(
+
+    return this.PHONE_HEADER_KEYWORDS.some(
       (keyword) =>
         firstCell.includes(keyword) ||
         isNaN(Number(firstCell.replace(/\D/g, ''))),
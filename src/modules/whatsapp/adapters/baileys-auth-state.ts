@@ -0,0 +1,64 @@
+import {
+  BufferJSON,
+  initAuthCreds,
+  proto,
+  AuthenticationCreds,
+  AuthenticationState,
+  SignalDataTypeMap,
+} from '@whiskeysockets/baileys';
+import type { SessionAuthStore } from '../auth-state/auth-state-store.interface';
+
+const CREDS_KEY = 'creds';
+
+// Same naming as useMultiFileAuthState, so imported folders map one-to-one
+const toKey = (type: string, id: string) =>
+  `${type}-${id}`.replace(/\//g, '__').replace(/:/g, '-');
+
+/**
+ * Counterpart of Baileys' useMultiFileAuthState backed by a SessionAuthStore
+ */
+export async function useSessionAuthState(
+  store: SessionAuthStore,
+): Promise<{ state: AuthenticationState; saveCreds: () => Promise<void> }> {
+  const stored = (await store.get([CREDS_KEY])).get(CREDS_KEY);
+  const creds: AuthenticationCreds = stored
+    ? (JSON.parse(stored, BufferJSON.reviver) as AuthenticationCreds)
+    : initAuthCreds();
+
+  return {
+    state: {
+      creds,
+      keys: {
+        get: async (type, ids) => {
+          const values = await store.get(ids.map((id) => toKey(type, id)));
+          const data: { [id: string]: SignalDataTypeMap[typeof type] } = {};
+          for (const id of ids) {
+            const raw = values.get(toKey(type, id));
+            if (!raw) continue;
+
+            let value = JSON.parse(raw, BufferJSON.reviver) as unknown;
+            if (type === 'app-state-sync-key' && value) {
+              value = proto.Message.AppStateSyncKeyData.fromObject(value);
+            }
+            data[id] = value as SignalDataTypeMap[typeof type];
+          }
+          return data;
+        },
+        set: async (data) => {
+          const entries: Record<string, string | null> = {};
+          for (const type of Object.keys(data)) {
+            const values = data[type as keyof SignalDataTypeMap] || {};
+            for (const [id, value] of Object.entries(values)) {
+              entries[toKey(type, id)] = value
+                ? JSON.stringify(value, BufferJSON.replacer)
+                : null;
+            }
+          }
+          await store.set(entries);
+        },
+      },
+    },
+    saveCreds: () =>
+      store.set({ [CREDS_KEY]: JSON.stringify(creds, BufferJSON.replacer) }),
+  };
+}
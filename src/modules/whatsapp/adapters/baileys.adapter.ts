@@ -8,6 +8,7 @@ import makeWASocket, {
   proto,
   fetchLatestBaileysVersion,
 } from '@whiskeysockets/baileys';
+import { useSessionAuthState } from './baileys-auth-state';
 
 import { Boom } from '@hapi/boom';
 import * as fs from 'fs/promises';
@@ -70,7 +71,9 @@ export class BaileysAdapter implements IWhatsAppClientAdapter {
       this.cleanupPendingSends();
     }, PENDING_CLEANUP_INTERVAL_MS);
 
-    const { state, saveCreds } = await useMultiFileAuthState(config.authPath);
+    const { state, saveCreds } = config.authStore
+      ? await useSessionAuthState(config.authStore)
+      : await useMultiFileAuthState(config.authPath);
     const { version, isLatest } = await fetchLatestBaileysVersion();
     this.logger.log(
       `Using WA version: ${version.join('.')}, isLatest: ${isLatest}`,
@@ -923,5 +926,8 @@ export class BaileysAdapter implements IWhatsAppClientAdapter {
     } catch (e) {
       this.logger.warn(`Failed to cleanup auth state: ${e}`);
     }
+    this.config.authStore
+      ?.clear()
+      .catch((e) => this.logger.warn(`Failed to clear auth store: ${e}`));
   }
 }
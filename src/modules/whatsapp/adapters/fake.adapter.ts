@@ -0,0 +1,304 @@
+import { Logger } from '@nestjs/common';
+import type { FakeNetworkService } from '../fake/fake-network.service';
+import type {
+  IWhatsAppClientAdapter,
+  WhatsAppClientConfig,
+  SessionInfo,
+  IncomingMessage,
+  MediaData,
+  SendMessageOptions,
+  ContactInfo,
+  SentMessageResult,
+} from './whatsapp-client.interface';
+
+/**
+ * WhatsApp client without WhatsApp: pairing, delivery, read receipts and
+ * inbound messages are simulated in memory by FakeNetworkService and
+ * driven by its settings or the fake control API.
+ */
+export class FakeWhatsAppAdapter implements IWhatsAppClientAdapter {
+  private readonly logger = new Logger(FakeWhatsAppAdapter.name);
+  private config: WhatsAppClientConfig | null = null;
+  private sessionInfo: SessionInfo | null = null;
+  private ready = false;
+  private pairingPhone: string | null = null;
+  private contacts: Map<string, ContactInfo> = new Map();
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private readonly network: FakeNetworkService,
+    readonly sessionId: string,
+  ) {}
+
+  initialize(config: WhatsAppClientConfig): Promise<void> {
+    this.config = config;
+
+    const paired = this.network.pairedInfo(this.sessionId);
+    if (paired) {
+      const { connectDelayMs } = this.network.getSettings();
+      this.schedule(connectDelayMs, () => this.becomeReady(paired));
+      return Promise.resolve();
+    }
+
+    config.onQr(`fake-qr:${this.sessionId}:${Date.now()}`);
+
+    const { autoScanMs } = this.network.getSettings();
+    if (autoScanMs !== null) {
+      this.schedule(autoScanMs, () => this.scan());
+    }
+    return Promise.resolve();
+  }
+
+  destroy(): Promise<void> {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.ready = false;
+    return Promise.resolve();
+  }
+
+  async logout(): Promise<void> {
+    this.network.unpair(this.sessionId);
+    await this.destroy();
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getInfo(): SessionInfo | null {
+    return this.sessionInfo;
+  }
+
+  /**
+   * Link the session, as if the QR code was scanned or the pairing code
+   * entered on the phone
+   */
+  scan(phoneNumber?: string, pushName?: string): SessionInfo {
+    if (!this.config) throw new Error('Socket not initialized');
+    if (this.ready) throw new Error('Session is already connected');
+
+    const info: SessionInfo = {
+      phoneNumber:
+        phoneNumber || this.pairingPhone || this.network.nextPhoneNumber(),
+      pushName: pushName || 'Fake WhatsApp',
+    };
+    this.network.pair(this.sessionId, info);
+    this.becomeReady(info);
+    return info;
+  }
+
+  /**
+   * Drop the connection. A logged out session has to be linked again;
+   * any other reason lets the service reconnect it.
+   */
+  async disconnect(reason: string, loggedOut = false): Promise<void> {
+    if (!this.config) throw new Error('Socket not initialized');
+    const config = this.config;
+
+    await this.destroy();
+    if (loggedOut) {
+      this.network.unpair(this.sessionId);
+      config.onAuthFailure('Session logged out');
+    }
+    config.onDisconnected(reason);
+  }
+
+  /**
+   * Deliver a message from another number to this session
+   */
+  async receive(
+    from: string,
+    body: string,
+    pushName?: string,
+  ): Promise<IncomingMessage> {
+    const config = this.requireReady();
+
+    this.contacts.set(from, {
+      phoneNumber: from,
+      name: null,
+      pushname: pushName || null,
+      isMyContact: false,
+      isWAContact: true,
+    });
+
+    const message: IncomingMessage = {
+      id: { id: this.network.generateMessageId() },
+      from: `${from}@c.us`,
+      fromMe: false,
+      body,
+      hasMedia: false,
+      type: 'conversation',
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+
+    await config.onMessageUpsert?.(message);
+    // The service handles messages asynchronously; wait for reply detection
+    await Promise.resolve(config.onMessage(message));
+    return message;
+  }
+
+  sendMessage(chatId: string, content: string): Promise<SentMessageResult> {
+    return this.call(() => this.send(chatId, content));
+  }
+
+  sendMessageWithMedia(
+    chatId: string,
+    mediaData: MediaData,
+    options?: SendMessageOptions,
+  ): Promise<SentMessageResult> {
+    return this.call(() =>
+      this.send(chatId, options?.caption || '', mediaData.mimetype),
+    );
+  }
+
+  isRegisteredUser(chatId: string): Promise<boolean> {
+    return this.call(() => {
+      this.requireReady();
+      return this.network.isRegistered(this.toPhone(chatId));
+    });
+  }
+
+  onWhatsApp(jids: string[]): Promise<Array<{ jid: string; exists: boolean }>> {
+    return this.call(() => {
+      this.requireReady();
+      return jids.map((jid) => {
+        const phoneNumber = this.toPhone(jid);
+        return {
+          jid: `${phoneNumber}@c.us`,
+          exists: this.network.isRegistered(phoneNumber),
+        };
+      });
+    });
+  }
+
+  getContacts(): Promise<ContactInfo[]> {
+    return Promise.resolve(Array.from(this.contacts.values()));
+  }
+
+  getContactByPhone(phoneNumber: string): Promise<ContactInfo | null> {
+    const contact = this.contacts.get(phoneNumber.replace(/\D/g, ''));
+    return Promise.resolve(contact ?? null);
+  }
+
+  revokeMessage(chatId: string, messageId: string): Promise<void> {
+    return this.call(() => {
+      this.requireReady();
+      this.network.setStatus(messageId, 'revoked');
+    });
+  }
+
+  async markMessagesAsRead(): Promise<void> {
+    // Nobody reads receipts on the fake network
+  }
+
+  requestPairingCode(phoneNumber: string): Promise<string> {
+    return this.call(() => {
+      if (!this.config) throw new Error('Socket not initialized');
+
+      this.pairingPhone = phoneNumber.replace(/\D/g, '');
+      return this.network
+        .generateMessageId()
+        .slice(-8)
+        .replace(/^(.{4})/, '$1-');
+    });
+  }
+
+  private send(
+    chatId: string,
+    body: string,
+    mediaType?: string,
+  ): SentMessageResult {
+    const config = this.requireReady();
+    const to = this.toPhone(chatId);
+
+    const failure = this.network.failureFor(to);
+    if (failure) {
+      this.logger.error(`Error sending message to ${to}: ${failure}`);
+      throw new Error(failure);
+    }
+
+    const sent = this.network.record(this.sessionId, to, body, mediaType);
+    const messageId = sent.id;
+
+    // Our own message echoes back like on a real socket
+    this.schedule(0, () =>
+      config.onMessageUpsert?.({
+        id: { id: messageId },
+        from: `${to}@c.us`,
+        fromMe: true,
+        body,
+        hasMedia: !!mediaType,
+        type: mediaType ? 'documentMessage' : 'conversation',
+        timestamp: Math.floor(sent.sentAt.getTime() / 1000),
+      }),
+    );
+
+    // Unregistered numbers never receive anything
+    if (this.network.isRegistered(to)) {
+      const { deliveredAfterMs, readAfterMs } = this.network.getSettings();
+      if (deliveredAfterMs !== null) {
+        this.schedule(deliveredAfterMs, () =>
+          this.updateStatus(messageId, to, 'delivered'),
+        );
+      }
+      if (readAfterMs !== null) {
+        this.schedule(readAfterMs, () =>
+          this.updateStatus(messageId, to, 'read'),
+        );
+      }
+    }
+
+    return { messageId };
+  }
+
+  private async updateStatus(
+    messageId: string,
+    remoteJid: string,
+    status: 'delivered' | 'read',
+  ): Promise<void> {
+    this.network.setStatus(messageId, status);
+    await this.config?.onMessageStatusUpdate?.({
+      messageId,
+      remoteJid,
+      status,
+    });
+  }
+
+  private becomeReady(info: SessionInfo): void {
+    this.sessionInfo = info;
+    this.ready = true;
+    this.config?.onReady(info);
+  }
+
+  private requireReady(): WhatsAppClientConfig {
+    if (!this.config || !this.ready) throw new Error('Socket not initialized');
+    return this.config;
+  }
+
+  // Errors reject the returned promise, like a failed socket call
+  private call<T>(task: () => T): Promise<T> {
+    try {
+      return Promise.resolve(task());
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  private schedule(delayMs: number, task: () => unknown): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      Promise.resolve()
+        .then(task)
+        .catch((error) =>
+          this.logger.warn(`Fake session ${this.sessionId}: ${error}`),
+        );
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  private toPhone(chatId: string): string {
+    return chatId.replace(/@(c\.us|s\.whatsapp\.net)$/, '');
+  }
+}
@@ -1,2 +1,3 @@
 export * from './whatsapp-client.interface';
 export { BaileysAdapter } from './baileys.adapter';
+export { FakeWhatsAppAdapter } from './fake.adapter';
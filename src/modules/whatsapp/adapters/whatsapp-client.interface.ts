@@ -1,3 +1,5 @@
+import type { SessionAuthStore } from '../auth-state/auth-state-store.interface';
+
 export interface MessageStatusUpdate {
   messageId: string;
   remoteJid: string;
@@ -7,6 +9,8 @@ export interface MessageStatusUpdate {
 export interface WhatsAppClientConfig {
   userId: string;
   authPath: string;
+  // Keeps credentials out of authPath when set
+  authStore?: SessionAuthStore;
   onQr: (qr: string) => void;
   onPairingCode?: (code: string) => void;
   onReady: (info: SessionInfo) => void;
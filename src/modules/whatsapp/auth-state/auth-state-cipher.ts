@@ -0,0 +1,106 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const KEY_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Envelope encryption for auth state. Every session gets its own data key,
+ * stored wrapped with a master key. Master keys carry an id so retired keys
+ * keep decrypting until the data keys are re-wrapped with the active one.
+ */
+export class AuthStateCipher {
+  constructor(
+    private readonly masterKeys: Map<string, Buffer>,
+    private readonly activeKeyId: string,
+  ) {
+    if (!masterKeys.has(activeKeyId)) {
+      throw new Error(`Master key "${activeKeyId}" is not configured`);
+    }
+  }
+
+  /**
+   * Parse `id:base64key,id2:base64key`. The last key is the active one
+   * unless another id is given.
+   */
+  static fromConfig(masterKeys: string, activeKeyId?: string): AuthStateCipher {
+    const keys = new Map<string, Buffer>();
+    for (const entry of masterKeys.split(',')) {
+      if (!entry.trim()) continue;
+
+      const [id, encoded = ''] = entry.trim().split(':', 2);
+      const key = Buffer.from(encoded, 'base64');
+      if (!KEY_ID_PATTERN.test(id) || key.length !== KEY_BYTES) {
+        throw new Error(
+          `Invalid master key "${id}", expected <id>:<base64 ${KEY_BYTES}-byte key>`,
+        );
+      }
+      keys.set(id, key);
+    }
+
+    if (keys.size === 0) {
+      throw new Error('No master keys configured');
+    }
+    return new AuthStateCipher(keys, activeKeyId || [...keys.keys()].pop()!);
+  }
+
+  createDataKey(sessionId: string): { dataKey: Buffer; wrapped: string } {
+    const dataKey = randomBytes(KEY_BYTES);
+    return { dataKey, wrapped: this.wrapDataKey(dataKey, sessionId) };
+  }
+
+  unwrapDataKey(wrapped: string, sessionId: string): Buffer {
+    const separator = wrapped.indexOf(':');
+    const keyId = wrapped.slice(0, separator);
+    const masterKey = this.masterKeys.get(keyId);
+    if (separator <= 0 || !masterKey) {
+      throw new Error(`Master key "${keyId}" is not configured`);
+    }
+    return this.open(masterKey, wrapped.slice(separator + 1), sessionId);
+  }
+
+  isWrappedWithActiveKey(wrapped: string): boolean {
+    return wrapped.startsWith(`${this.activeKeyId}:`);
+  }
+
+  wrapDataKey(dataKey: Buffer, sessionId: string): string {
+    const masterKey = this.masterKeys.get(this.activeKeyId)!;
+    return `${this.activeKeyId}:${this.seal(masterKey, dataKey, sessionId)}`;
+  }
+
+  /**
+   * The AAD binds the ciphertext to its entry so values can't be swapped
+   */
+  encrypt(dataKey: Buffer, plaintext: string, aad: string): string {
+    return this.seal(dataKey, Buffer.from(plaintext, 'utf8'), aad);
+  }
+
+  decrypt(dataKey: Buffer, payload: string, aad: string): string {
+    return this.open(dataKey, payload, aad).toString('utf8');
+  }
+
+  private seal(key: Buffer, data: Buffer, aad: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(aad, 'utf8'));
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  private open(key: Buffer, payload: string, aad: string): Buffer {
+    const [iv, tag, encrypted] = payload
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'));
+    if (!iv || !tag || !encrypted) {
+      throw new Error('Malformed auth state ciphertext');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAAD(Buffer.from(aad, 'utf8'));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Backend that persists Baileys auth state entries per session as opaque
+ * (already encrypted) strings
+ */
+export interface AuthStateStore {
+  get(sessionId: string, keys: string[]): Promise<Map<string, string>>;
+  // A null value deletes the entry
+  set(sessionId: string, entries: Record<string, string | null>): Promise<void>;
+  clear(sessionId: string): Promise<void>;
+  listSessionIds(): Promise<string[]>;
+}
+
+/**
+ * Auth state of one session as the Baileys adapter sees it (plaintext)
+ */
+export interface SessionAuthStore {
+  get(keys: string[]): Promise<Map<string, string>>;
+  set(entries: Record<string, string | null>): Promise<void>;
+  clear(): Promise<void>;
+}
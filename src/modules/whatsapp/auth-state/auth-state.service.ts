@@ -0,0 +1,226 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import Redis from 'ioredis';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WhatsAppAuthState } from '../../../database/entities/whatsapp-auth-state.entity';
+import type {
+  AuthStateStore,
+  SessionAuthStore,
+} from './auth-state-store.interface';
+import { AuthStateCipher } from './auth-state-cipher';
+import { PostgresAuthStateStore } from './postgres-auth-state.store';
+import { RedisAuthStateStore } from './redis-auth-state.store';
+
+export type AuthStateDriver = 'postgres' | 'redis' | 'file';
+
+const DRIVERS: AuthStateDriver[] = ['postgres', 'redis', 'file'];
+// Entry holding the session's data key, wrapped with a master key
+const DATA_KEY_ENTRY = '__dek';
+// Caches the adapter keeps next to the auth files, not credentials
+const CACHE_FILES = new Set(['contacts.json', 'lid-mappings.json']);
+
+/**
+ * Where Baileys auth state lives. `postgres` and `redis` keep it encrypted
+ * at rest with WA_AUTH_MASTER_KEYS; `file` keeps the plain .baileys_auth
+ * folders and is meant for local development.
+ */
+@Injectable()
+export class AuthStateService implements OnModuleDestroy {
+  private readonly logger = new Logger(AuthStateService.name);
+  readonly driver: AuthStateDriver;
+  private readonly store: AuthStateStore | null = null;
+  private readonly cipher: AuthStateCipher | null = null;
+  private readonly redis: Redis | null = null;
+
+  // Unwrapped data keys by session id
+  private dataKeys = new Map<string, Promise<Buffer>>();
+
+  constructor(
+    @InjectRepository(WhatsAppAuthState)
+    authStateRepository: Repository<WhatsAppAuthState>,
+    configService: ConfigService,
+  ) {
+    const isProduction =
+      configService.get<string>('app.nodeEnv') === 'production';
+    const driver = (process.env.WA_AUTH_STORE ||
+      (isProduction ? 'postgres' : 'file')) as AuthStateDriver;
+    if (!DRIVERS.includes(driver)) {
+      throw new Error(
+        `WA_AUTH_STORE must be one of ${DRIVERS.join(', ')}, got "${driver}"`,
+      );
+    }
+    this.driver = driver;
+
+    if (driver === 'file') {
+      if (isProduction) {
+        this.logger.warn(
+          'WhatsApp auth state is stored unencrypted on disk (WA_AUTH_STORE=file)',
+        );
+      }
+      return;
+    }
+
+    // Fail fast rather than fall back to plaintext credentials
+    const masterKeys = process.env.WA_AUTH_MASTER_KEYS;
+    if (!masterKeys) {
+      throw new Error(
+        `WA_AUTH_MASTER_KEYS must be set to store WhatsApp auth state in ${driver}`,
+      );
+    }
+    this.cipher = AuthStateCipher.fromConfig(
+      masterKeys,
+      process.env.WA_AUTH_ACTIVE_KEY_ID,
+    );
+
+    if (driver === 'redis') {
+      this.redis = new Redis({
+        host: configService.get<string>('redis.host'),
+        port: configService.get<number>('redis.port'),
+      });
+      this.store = new RedisAuthStateStore(this.redis);
+    } else {
+      this.store = new PostgresAuthStateStore(authStateRepository);
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.redis?.quit();
+  }
+
+  /**
+   * Encrypted auth state of the session, or null when auth state is kept
+   * in files
+   */
+  forSession(sessionId: string): SessionAuthStore | null {
+    const { store, cipher } = this;
+    if (!store || !cipher) return null;
+
+    return {
+      get: async (keys) => {
+        const dataKey = await this.getDataKey(sessionId);
+        const values = await store.get(sessionId, keys);
+        const plain = new Map<string, string>();
+        for (const [key, value] of values) {
+          plain.set(key, cipher.decrypt(dataKey, value, `${sessionId}:${key}`));
+        }
+        return plain;
+      },
+      set: async (entries) => {
+        const dataKey = await this.getDataKey(sessionId);
+        const encrypted: Record<string, string | null> = {};
+        for (const [key, value] of Object.entries(entries)) {
+          encrypted[key] =
+            value === null
+              ? null
+              : cipher.encrypt(dataKey, value, `${sessionId}:${key}`);
+        }
+        await store.set(sessionId, encrypted);
+      },
+      clear: () => this.clearSession(sessionId),
+    };
+  }
+
+  async clearSession(sessionId: string): Promise<void> {
+    this.dataKeys.delete(sessionId);
+    await this.store?.clear(sessionId);
+  }
+
+  /**
+   * One-time import of a plain .baileys_auth/<sessionId> folder. The
+   * credential files are deleted afterwards; adapter caches stay.
+   */
+  async importAuthDir(sessionId: string, dir: string): Promise<boolean> {
+    if (!this.store || !fs.existsSync(path.join(dir, 'creds.json'))) {
+      return false;
+    }
+
+    const files = fs
+      .readdirSync(dir)
+      .filter((file) => file.endsWith('.json') && !CACHE_FILES.has(file));
+
+    // Imported before and the folder came back (e.g. a restored volume)
+    const existing = await this.store.get(sessionId, ['creds']);
+    if (existing.size === 0) {
+      const entries: Record<string, string> = {};
+      for (const file of files) {
+        entries[path.basename(file, '.json')] = fs.readFileSync(
+          path.join(dir, file),
+          'utf8',
+        );
+      }
+      await this.forSession(sessionId)!.set(entries);
+    }
+
+    for (const file of files) {
+      fs.rmSync(path.join(dir, file), { force: true });
+    }
+    this.logger.log(
+      `Imported auth state of session ${sessionId} into ${this.driver}`,
+    );
+    return true;
+  }
+
+  /**
+   * Re-wrap data keys that are still wrapped with a retired master key.
+   * Once this has run the old key can be removed from WA_AUTH_MASTER_KEYS.
+   */
+  async rotateKeys(): Promise<number> {
+    const { store, cipher } = this;
+    if (!store || !cipher) return 0;
+
+    let rotated = 0;
+    for (const sessionId of await store.listSessionIds()) {
+      const wrapped = (await store.get(sessionId, [DATA_KEY_ENTRY])).get(
+        DATA_KEY_ENTRY,
+      );
+      if (!wrapped || cipher.isWrappedWithActiveKey(wrapped)) continue;
+
+      try {
+        const dataKey = cipher.unwrapDataKey(wrapped, sessionId);
+        await store.set(sessionId, {
+          [DATA_KEY_ENTRY]: cipher.wrapDataKey(dataKey, sessionId),
+        });
+        rotated++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to re-wrap auth state key of session ${sessionId}: ${error}`,
+        );
+      }
+    }
+
+    if (rotated > 0) {
+      this.logger.log(`Re-wrapped ${rotated} auth state key(s)`);
+    }
+    return rotated;
+  }
+
+  private getDataKey(sessionId: string): Promise<Buffer> {
+    // Share one load so concurrent writes never create two data keys
+    let dataKey = this.dataKeys.get(sessionId);
+    if (!dataKey) {
+      dataKey = this.loadDataKey(sessionId);
+      this.dataKeys.set(sessionId, dataKey);
+      dataKey.catch(() => this.dataKeys.delete(sessionId));
+    }
+    return dataKey;
+  }
+
+  private async loadDataKey(sessionId: string): Promise<Buffer> {
+    const store = this.store!;
+    const cipher = this.cipher!;
+
+    const wrapped = (await store.get(sessionId, [DATA_KEY_ENTRY])).get(
+      DATA_KEY_ENTRY,
+    );
+    if (wrapped) {
+      return cipher.unwrapDataKey(wrapped, sessionId);
+    }
+
+    const created = cipher.createDataKey(sessionId);
+    await store.set(sessionId, { [DATA_KEY_ENTRY]: created.wrapped });
+    return created.dataKey;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './auth-state-store.interface';
+export * from './auth-state-cipher';
+export * from './auth-state.service';
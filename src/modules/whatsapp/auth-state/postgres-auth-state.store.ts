@@ -0,0 +1,53 @@
+import { Repository, In } from 'typeorm';
+import { WhatsAppAuthState } from '../../../database/entities/whatsapp-auth-state.entity';
+import type { AuthStateStore } from './auth-state-store.interface';
+
+export class PostgresAuthStateStore implements AuthStateStore {
+  constructor(private readonly repository: Repository<WhatsAppAuthState>) {}
+
+  async get(sessionId: string, keys: string[]): Promise<Map<string, string>> {
+    if (keys.length === 0) return new Map();
+
+    const rows = await this.repository.find({
+      where: { sessionId, key: In(keys) },
+      select: ['key', 'value'],
+    });
+    return new Map(rows.map((row) => [row.key, row.value]));
+  }
+
+  async set(
+    sessionId: string,
+    entries: Record<string, string | null>,
+  ): Promise<void> {
+    const upserts: Array<
+      Pick<WhatsAppAuthState, 'sessionId' | 'key' | 'value'>
+    > = [];
+    const deletes: string[] = [];
+    for (const [key, value] of Object.entries(entries)) {
+      if (value === null) {
+        deletes.push(key);
+      } else {
+        upserts.push({ sessionId, key, value });
+      }
+    }
+
+    if (upserts.length > 0) {
+      await this.repository.upsert(upserts, ['sessionId', 'key']);
+    }
+    if (deletes.length > 0) {
+      await this.repository.delete({ sessionId, key: In(deletes) });
+    }
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    await this.repository.delete({ sessionId });
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    const rows = await this.repository
+      .createQueryBuilder('state')
+      .select('DISTINCT state.sessionId', 'sessionId')
+      .getRawMany<{ sessionId: string }>();
+    return rows.map((row) => row.sessionId);
+  }
+}
@@ -0,0 +1,71 @@
+import Redis from 'ioredis';
+import type { AuthStateStore } from './auth-state-store.interface';
+
+const KEY_PREFIX = 'wa:auth:';
+
+/**
+ * One Redis hash per session, field = auth state key
+ */
+export class RedisAuthStateStore implements AuthStateStore {
+  constructor(private readonly redis: Redis) {}
+
+  async get(sessionId: string, keys: string[]): Promise<Map<string, string>> {
+    if (keys.length === 0) return new Map();
+
+    const values = await this.redis.hmget(this.hashKey(sessionId), ...keys);
+    const result = new Map<string, string>();
+    keys.forEach((key, i) => {
+      const value = values[i];
+      if (value !== null) result.set(key, value);
+    });
+    return result;
+  }
+
+  async set(
+    sessionId: string,
+    entries: Record<string, string | null>,
+  ): Promise<void> {
+    const hashKey = this.hashKey(sessionId);
+    const pipeline = this.redis.pipeline();
+    for (const [key, value] of Object.entries(entries)) {
+      if (value === null) {
+        pipeline.hdel(hashKey, key);
+      } else {
+        pipeline.hset(hashKey, key, value);
+      }
+    }
+    // ioredis reports per-command errors in the results instead of rejecting
+    const results = (await pipeline.exec()) ?? [];
+    const failed = results.filter(([error]) => error);
+    if (failed.length > 0) {
+      throw new Error(
+        `Failed to write ${failed.length} auth state entr${failed.length === 1 ? 'y' : 'ies'} of session ${sessionId}: ${failed[0][0]?.message}`,
+      );
+    }
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    await this.redis.del(this.hashKey(sessionId));
+  }
+
+  async listSessionIds(): Promise<string[]> {
+    const sessionIds: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        `${KEY_PREFIX}*`,
+        'COUNT',
+        100,
+      );
+      cursor = next;
+      sessionIds.push(...keys.map((key) => key.slice(KEY_PREFIX.length)));
+    } while (cursor !== '0');
+    return sessionIds;
+  }
+
+  private hashKey(sessionId: string): string {
+    return `${KEY_PREFIX}${sessionId}`;
+  }
+}
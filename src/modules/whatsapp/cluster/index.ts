@@ -0,0 +1,2 @@
+export * from './session-lease.service';
+export * from './session-rpc.service';
@@ -0,0 +1,191 @@
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import * as os from 'os';
+
+const LEASE_PREFIX = 'wa:lease:';
+const INSTANCE_PREFIX = 'wa:instance:';
+
+// Take the lease when it is free or already ours
+const ACQUIRE_SCRIPT = `
+local owner = redis.call('get', KEYS[1])
+if not owner or owner == ARGV[1] then
+  redis.call('set', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+return 0
+`;
+
+// Extend our leases; returns the keys another instance holds now
+const RENEW_SCRIPT = `
+local lost = {}
+for _, key in ipairs(KEYS) do
+  local owner = redis.call('get', key)
+  if not owner or owner == ARGV[1] then
+    redis.call('set', key, ARGV[1], 'PX', ARGV[2])
+  else
+    table.insert(lost, key)
+  end
+end
+return lost
+`;
+
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+export interface InstanceLoad {
+  instanceId: string;
+  active: number;
+  max: number;
+}
+
+/**
+ * Session ownership across API instances. An instance holds a Redis lease
+ * for every session it runs and renews it on a heartbeat; a lease that is
+ * not renewed expires, so another instance can take the session over.
+ *
+ * Disabled (the default) every session belongs to this process.
+ */
+@Injectable()
+export class SessionLeaseService implements OnApplicationShutdown {
+  private readonly logger = new Logger(SessionLeaseService.name);
+  private readonly redis: Redis | null = null;
+
+  readonly enabled = process.env.WA_CLUSTER_ENABLED === 'true';
+  readonly instanceId =
+    process.env.WA_INSTANCE_ID || `${os.hostname()}-${process.pid}`;
+  readonly LEASE_TTL_MS =
+    parseInt(process.env.WA_LEASE_TTL_SECONDS || '30', 10) * 1000;
+
+  constructor(configService: ConfigService) {
+    if (!this.enabled) return;
+
+    this.redis = new Redis({
+      host: configService.get<string>('redis.host'),
+      port: configService.get<number>('redis.port'),
+    });
+    this.logger.log(
+      `Cluster mode enabled as instance ${this.instanceId} (lease TTL ${this.LEASE_TTL_MS / 1000}s)`,
+    );
+  }
+
+  // After module destroy hooks, which still release leases
+  async onApplicationShutdown() {
+    if (!this.redis) return;
+    await this.redis.del(INSTANCE_PREFIX + this.instanceId);
+    await this.redis.quit();
+  }
+
+  async acquire(sessionId: string): Promise<boolean> {
+    if (!this.redis) return true;
+    const acquired = await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      1,
+      LEASE_PREFIX + sessionId,
+      this.instanceId,
+      this.LEASE_TTL_MS,
+    );
+    return acquired === 1;
+  }
+
+  /**
+   * Renew the leases of the sessions running here. Returns the sessions
+   * that were taken over by another instance in the meantime.
+   */
+  async renew(sessionIds: string[]): Promise<string[]> {
+    if (!this.redis || sessionIds.length === 0) return [];
+    const lost = (await this.redis.eval(
+      RENEW_SCRIPT,
+      sessionIds.length,
+      ...sessionIds.map((id) => LEASE_PREFIX + id),
+      this.instanceId,
+      this.LEASE_TTL_MS,
+    )) as string[];
+    return lost.map((key) => key.slice(LEASE_PREFIX.length));
+  }
+
+  async release(sessionId: string): Promise<void> {
+    if (!this.redis) return;
+    await this.redis.eval(
+      RELEASE_SCRIPT,
+      1,
+      LEASE_PREFIX + sessionId,
+      this.instanceId,
+    );
+  }
+
+  async ownerOf(sessionId: string): Promise<string | null> {
+    if (!this.redis) return null;
+    return this.redis.get(LEASE_PREFIX + sessionId);
+  }
+
+  /**
+   * Owning instance by session id; sessions without a live lease are left out
+   */
+  async owners(sessionIds: string[]): Promise<Map<string, string>> {
+    const owners = new Map<string, string>();
+    if (!this.redis || sessionIds.length === 0) return owners;
+
+    const values = await this.redis.mget(
+      sessionIds.map((id) => LEASE_PREFIX + id),
+    );
+    sessionIds.forEach((id, i) => {
+      const owner = values[i];
+      if (owner) owners.set(id, owner);
+    });
+    return owners;
+  }
+
+  /**
+   * Publish how many sessions this instance runs, for placing new ones
+   */
+  async announce(active: number, max: number): Promise<void> {
+    if (!this.redis) return;
+    const load: InstanceLoad = { instanceId: this.instanceId, active, max };
+    await this.redis.set(
+      INSTANCE_PREFIX + this.instanceId,
+      JSON.stringify(load),
+      'PX',
+      this.LEASE_TTL_MS,
+    );
+  }
+
+  /**
+   * Another live instance with the most free session slots, if any
+   */
+  async pickInstance(): Promise<string | null> {
+    if (!this.redis) return null;
+
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        `${INSTANCE_PREFIX}*`,
+        'COUNT',
+        100,
+      );
+      cursor = next;
+      keys.push(...batch);
+    } while (cursor !== '0');
+    if (keys.length === 0) return null;
+
+    let best: InstanceLoad | null = null;
+    for (const value of await this.redis.mget(keys)) {
+      if (!value) continue;
+      const load = JSON.parse(value) as InstanceLoad;
+      if (load.instanceId === this.instanceId || load.active >= load.max) {
+        continue;
+      }
+      if (!best || load.max - load.active > best.max - best.active) {
+        best = load;
+      }
+    }
+    return best?.instanceId ?? null;
+  }
+}
@@ -0,0 +1,213 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { SessionLeaseService } from './session-lease.service';
+
+const CHANNEL_PREFIX = 'wa:rpc:';
+const BROADCAST_CHANNEL = 'wa:rpc:broadcast';
+
+export type RpcHandler = (...args: any[]) => unknown;
+
+interface RpcRequest {
+  type: 'request';
+  id: string;
+  from: string;
+  method: string;
+  args: unknown[];
+}
+
+interface RpcResponse {
+  type: 'response';
+  id: string;
+  result?: unknown;
+  error?: { message: string; status?: number };
+}
+
+interface RpcBroadcast {
+  type: 'broadcast';
+  from: string;
+  method: string;
+  args: unknown[];
+}
+
+type RpcMessage = RpcRequest | RpcResponse | RpcBroadcast;
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Calls between API instances over Redis pub/sub. Every instance listens on
+ * its own channel, so work on a session can be sent to the instance that
+ * owns it; broadcasts reach every other instance.
+ */
+@Injectable()
+export class SessionRpcService implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(SessionRpcService.name);
+  private publisher: Redis | null = null;
+  private subscriber: Redis | null = null;
+  private handlers = new Map<string, RpcHandler>();
+  private pending = new Map<string, PendingCall>();
+
+  private readonly CALL_TIMEOUT_MS =
+    parseInt(process.env.WA_RPC_TIMEOUT_SECONDS || '60', 10) * 1000;
+
+  constructor(
+    private readonly leases: SessionLeaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit() {
+    if (!this.leases.enabled) return;
+
+    const options = {
+      host: this.configService.get<string>('redis.host'),
+      port: this.configService.get<number>('redis.port'),
+    };
+    this.publisher = new Redis(options);
+    this.subscriber = new Redis(options);
+
+    this.subscriber.on('message', (_channel: string, raw: string) => {
+      this.onMessage(raw).catch((error) =>
+        this.logger.error(`Error handling cluster message: ${error}`),
+      );
+    });
+    await this.subscriber.subscribe(
+      CHANNEL_PREFIX + this.leases.instanceId,
+      BROADCAST_CHANNEL,
+    );
+  }
+
+  async onApplicationShutdown() {
+    for (const call of this.pending.values()) {
+      clearTimeout(call.timer);
+      call.reject(new Error('Instance is shutting down'));
+    }
+    this.pending.clear();
+
+    await this.subscriber?.quit();
+    await this.publisher?.quit();
+  }
+
+  handle(method: string, handler: RpcHandler): void {
+    this.handlers.set(method, handler);
+  }
+
+  /**
+   * Run a handler on another instance and wait for its result. Errors
+   * thrown there are rethrown here with the same message (and HTTP status).
+   */
+  async call<T>(
+    instanceId: string,
+    method: string,
+    args: unknown[],
+  ): Promise<T> {
+    if (!this.publisher) {
+      throw new Error('Cluster mode is not enabled');
+    }
+
+    const id = randomUUID();
+    const result = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Instance ${instanceId} did not answer ${method}`));
+      }, this.CALL_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+    });
+
+    const request: RpcRequest = {
+      type: 'request',
+      id,
+      from: this.leases.instanceId,
+      method,
+      args,
+    };
+    const receivers = await this.publisher.publish(
+      CHANNEL_PREFIX + instanceId,
+      JSON.stringify(request),
+    );
+    if (receivers === 0) {
+      this.settle(id, {
+        type: 'response',
+        id,
+        error: { message: `Instance ${instanceId} is not reachable` },
+      });
+    }
+
+    return result as Promise<T>;
+  }
+
+  /**
+   * Run a handler on every other instance, without waiting for results
+   */
+  async broadcast(method: string, args: unknown[]): Promise<void> {
+    if (!this.publisher) return;
+
+    const message: RpcBroadcast = {
+      type: 'broadcast',
+      from: this.leases.instanceId,
+      method,
+      args,
+    };
+    await this.publisher.publish(BROADCAST_CHANNEL, JSON.stringify(message));
+  }
+
+  private async onMessage(raw: string): Promise<void> {
+    const message = JSON.parse(raw) as RpcMessage;
+
+    if (message.type === 'response') {
+      this.settle(message.id, message);
+      return;
+    }
+    if (message.from === this.leases.instanceId) return;
+
+    const handler = this.handlers.get(message.method);
+    if (message.type === 'broadcast') {
+      await handler?.(...message.args);
+      return;
+    }
+
+    const response: RpcResponse = { type: 'response', id: message.id };
+    try {
+      if (!handler) {
+        throw new Error(`Unknown cluster method ${message.method}`);
+      }
+      response.result = await handler(...message.args);
+    } catch (error) {
+      response.error = {
+        message: error instanceof Error ? error.message : String(error),
+        status: error instanceof HttpException ? error.getStatus() : undefined,
+      };
+    }
+    await this.publisher!.publish(
+      CHANNEL_PREFIX + message.from,
+      JSON.stringify(response),
+    );
+  }
+
+  private settle(id: string, response: RpcResponse): void {
+    const call = this.pending.get(id);
+    if (!call) return;
+
+    clearTimeout(call.timer);
+    this.pending.delete(id);
+
+    const { error } = response;
+    if (!error) {
+      call.resolve(response.result);
+    } else if (error.status) {
+      call.reject(new HttpException(error.message, error.status));
+    } else {
+      call.reject(new Error(error.message));
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SessionIdQueryDto } from './whatsapp-number.dto';
+
+const PHONE_PATTERN = /^\d{8,15}$/;
+const PHONE_MESSAGE = 'phone number must be 8-15 digits, e.g. 6281234567890';
+const MAX_DELAY_MS = 10 * 60 * 1000;
+
+export class UpdateFakeSettingsDto {
+  @ApiPropertyOptional({
+    example: 500,
+    description: 'Delay before an already linked session is ready (ms)',
+  })
+  @IsInt()
+  @Min(0)
+  @Max(MAX_DELAY_MS)
+  @IsOptional()
+  connectDelayMs?: number;
+
+  @ApiPropertyOptional({
+    example: 2000,
+    nullable: true,
+    description:
+      'Scan the QR code / enter the pairing code automatically after this delay (ms). null = only via POST /whatsapp/fake/scan',
+  })
+  @IsInt()
+  @Min(0)
+  @Max(MAX_DELAY_MS)
+  @IsOptional()
+  autoScanMs?: number | null;
+
+  @ApiPropertyOptional({
+    example: 1000,
+    nullable: true,
+    description: 'Delivery receipt after this delay (ms). null = never',
+  })
+  @IsInt()
+  @Min(0)
+  @Max(MAX_DELAY_MS)
+  @IsOptional()
+  deliveredAfterMs?: number | null;
+
+  @ApiPropertyOptional({
+    example: 3000,
+    nullable: true,
+    description: 'Read receipt after this delay (ms). null = never',
+  })
+  @IsInt()
+  @Min(0)
+  @Max(MAX_DELAY_MS)
+  @IsOptional()
+  readAfterMs?: number | null;
+}
+
+export class FakeScanDto {
+  @ApiPropertyOptional({
+    example: '6281234567890',
+    description:
+      'Number to link. Default: the pairing code number, else a generated one',
+  })
+  @Matches(PHONE_PATTERN, { message: PHONE_MESSAGE })
+  @IsOptional()
+  phoneNumber?: string;
+
+  @ApiPropertyOptional({ example: 'Toko Maju', maxLength: 50 })
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  pushName?: string;
+}
+
+export class FakeDisconnectDto {
+  @ApiPropertyOptional({ example: 'Connection lost', maxLength: 200 })
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  reason?: string;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Logged out from the phone: the number must be linked again instead of reconnecting',
+  })
+  @IsBoolean()
+  @IsOptional()
+  loggedOut?: boolean;
+}
+
+export class FakeInboundMessageDto {
+  @ApiProperty({ example: '6281234567890', description: 'Sender number' })
+  @Matches(PHONE_PATTERN, { message: PHONE_MESSAGE })
+  from: string;
+
+  @ApiProperty({ example: 'Halo, masih ada promonya?' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  body: string;
+
+  @ApiPropertyOptional({ example: 'Budi', maxLength: 50 })
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  pushName?: string;
+}
+
+export class FakeSentMessagesQueryDto extends SessionIdQueryDto {
+  @ApiPropertyOptional({ example: '6281234567890', description: 'Recipient' })
+  @Matches(PHONE_PATTERN, { message: PHONE_MESSAGE })
+  @IsOptional()
+  to?: string;
+}
+
+export class ConfigureFakeNumbersDto {
+  @ApiProperty({ example: ['6281234567890'] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(1000)
+  @Matches(PHONE_PATTERN, { each: true, message: PHONE_MESSAGE })
+  phoneNumbers: string[];
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Whether the numbers are on WhatsApp',
+  })
+  @IsBoolean()
+  @IsOptional()
+  registered?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'rate-overlimit',
+    nullable: true,
+    description:
+      'Sends to these numbers fail with this error message. null = stop failing',
+  })
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  failWith?: string | null;
+}
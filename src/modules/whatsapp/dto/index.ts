@@ -1,3 +1,5 @@
 export * from './whatsapp.dto';
 export * from './session-query.dto';
 export * from './connect-pairing.dto';
+export * from './whatsapp-number.dto';
+export * from './fake-whatsapp.dto';
@@ -7,6 +7,7 @@ export enum SessionSortBy {
   UPDATED_AT = 'updatedAt',
   CREATED_AT = 'createdAt',
   STATUS = 'status',
+  HEALTH_SCORE = 'healthScore',
 }
 
 export enum SortOrder {
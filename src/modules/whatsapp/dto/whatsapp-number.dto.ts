@@ -0,0 +1,45 @@
+import {
+  IsBoolean,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SessionIdQueryDto {
+  @ApiPropertyOptional({
+    description: 'WhatsApp number (session) to use. Default: default number',
+  })
+  @IsUUID()
+  @IsOptional()
+  sessionId?: string;
+}
+
+export class CreateWhatsAppNumberDto {
+  @ApiPropertyOptional({ example: 'CS Jakarta', maxLength: 50 })
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  label?: string;
+}
+
+export class UpdateWhatsAppNumberDto {
+  @ApiPropertyOptional({
+    example: 'CS Jakarta',
+    maxLength: 50,
+    nullable: true,
+  })
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  label?: string | null;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Use this number wherever no number is chosen',
+  })
+  @IsBoolean()
+  @IsOptional()
+  isDefault?: boolean;
+}
@@ -1,5 +1,6 @@
 import { IsString, IsArray, IsNumber, IsOptional } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SessionHealthSignals } from '../../../database/entities/whatsapp-session.entity';
 
 export class SessionStatusDto {
   @ApiProperty()
@@ -18,6 +19,18 @@ export class SessionStatusDto {
   lastDisconnectedAt?: Date;
   @ApiPropertyOptional()
   disconnectReason?: string;
+  @ApiProperty({ description: '0-100, low scores mean ban risk' })
+  healthScore: number;
+  @ApiPropertyOptional({
+    description: 'Failure, invalid and reply rates behind the score',
+  })
+  healthSignals?: SessionHealthSignals | null;
+  @ApiPropertyOptional()
+  healthCheckedAt?: Date | null;
+  @ApiPropertyOptional({
+    description: 'When a critical score auto-paused sending',
+  })
+  healthPausedAt?: Date | null;
 }
 
 export class SendMessageDto {
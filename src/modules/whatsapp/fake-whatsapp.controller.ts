@@ -0,0 +1,173 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WhatsAppService } from './whatsapp.service';
+import { FakeNetworkService } from './fake';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import {
+  ConfigureFakeNumbersDto,
+  FakeDisconnectDto,
+  FakeInboundMessageDto,
+  FakeScanDto,
+  FakeSentMessagesQueryDto,
+  SessionIdQueryDto,
+  UpdateFakeSettingsDto,
+} from './dto';
+
+/**
+ * Control API of the fake WhatsApp adapter (WA_ADAPTER=fake). Every route
+ * answers 404 with the real adapter.
+ */
+@ApiTags('WhatsApp (fake)')
+@ApiBearerAuth('JWT-auth')
+@Controller('whatsapp/fake')
+@UseGuards(JwtAuthGuard)
+export class FakeWhatsAppController {
+  constructor(
+    private readonly whatsappService: WhatsAppService,
+    private readonly fakeNetwork: FakeNetworkService,
+  ) {}
+
+  @Get('settings')
+  @ApiOperation({ summary: 'Get fake network settings' })
+  getSettings() {
+    this.ensureEnabled();
+    return this.fakeNetwork.getSettings();
+  }
+
+  @Patch('settings')
+  @ApiOperation({
+    summary: 'Update fake network settings',
+    description: 'Pairing and receipt delays, for every fake session',
+  })
+  updateSettings(@Body() dto: UpdateFakeSettingsDto) {
+    this.ensureEnabled();
+    return this.fakeNetwork.updateSettings(dto);
+  }
+
+  @Patch('numbers')
+  @ApiOperation({
+    summary: 'Configure fake recipients',
+    description:
+      'Mark numbers as not on WhatsApp, or make sends to them fail with an error',
+  })
+  configureNumbers(@Body() dto: ConfigureFakeNumbersDto) {
+    this.ensureEnabled();
+    this.fakeNetwork.configureNumbers(dto.phoneNumbers, dto);
+    return { success: true };
+  }
+
+  @Post('reset')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Reset the fake network',
+    description:
+      'Default settings, all numbers registered, empty sent log. Linked sessions stay linked.',
+  })
+  reset() {
+    this.ensureEnabled();
+    this.fakeNetwork.reset();
+    return { success: true };
+  }
+
+  @Post('scan')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Link a waiting session',
+    description: 'As if the QR code was scanned or the pairing code entered',
+  })
+  @ApiResponse({ status: 400, description: 'Session is already connected' })
+  @ApiResponse({ status: 404, description: 'Session is not running' })
+  scan(
+    @CurrentUser('id') userId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
+    @Body() dto: FakeScanDto,
+  ) {
+    const adapter = this.whatsappService.getFakeAdapter(userId, sessionId);
+    try {
+      return adapter.scan(dto.phoneNumber, dto.pushName);
+    } catch (error) {
+      throw new BadRequestException(`Failed to scan: ${error}`);
+    }
+  }
+
+  @Post('disconnect')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Drop a session connection',
+    description:
+      'The session reconnects by itself unless it was logged out from the phone',
+  })
+  @ApiResponse({ status: 404, description: 'Session is not running' })
+  async disconnect(
+    @CurrentUser('id') userId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
+    @Body() dto: FakeDisconnectDto,
+  ) {
+    const adapter = this.whatsappService.getFakeAdapter(userId, sessionId);
+    try {
+      await adapter.disconnect(dto.reason || 'Connection lost', dto.loggedOut);
+    } catch (error) {
+      throw new BadRequestException(`Failed to disconnect: ${error}`);
+    }
+    return { success: true };
+  }
+
+  @Post('messages')
+  @ApiOperation({
+    summary: 'Receive a message',
+    description:
+      'Inject an inbound message into a connected session, e.g. a reply to a blast',
+  })
+  @ApiResponse({ status: 201, description: 'Message handled' })
+  @ApiResponse({ status: 404, description: 'Session is not running' })
+  async receive(
+    @CurrentUser('id') userId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
+    @Body() dto: FakeInboundMessageDto,
+  ) {
+    const adapter = this.whatsappService.getFakeAdapter(userId, sessionId);
+    try {
+      const message = await adapter.receive(dto.from, dto.body, dto.pushName);
+      return { messageId: message.id.id };
+    } catch (error) {
+      throw new BadRequestException(`Failed to receive message: ${error}`);
+    }
+  }
+
+  @Get('messages')
+  @ApiOperation({
+    summary: 'List sent messages',
+    description: 'What the session sent, with delivery status',
+  })
+  @ApiResponse({ status: 404, description: 'Session is not running' })
+  getSentMessages(
+    @CurrentUser('id') userId: string,
+    @Query() { sessionId, to }: FakeSentMessagesQueryDto,
+  ) {
+    const adapter = this.whatsappService.getFakeAdapter(userId, sessionId);
+    return this.fakeNetwork.sentMessages(adapter.sessionId, to);
+  }
+
+  private ensureEnabled(): void {
+    if (!this.fakeNetwork.enabled) {
+      throw new NotFoundException('Fake WhatsApp adapter is not enabled');
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import type { SessionInfo } from '../adapters/whatsapp-client.interface';
+
+const MAX_SENT_LOG = 1000;
+
+export interface FakeNetworkSettings {
+  connectDelayMs: number; // Paired sessions become ready after this
+  autoScanMs: number | null; // Scan the QR / enter the pairing code; null = wait for the control API
+  deliveredAfterMs: number | null; // null = never delivered
+  readAfterMs: number | null; // null = never read
+}
+
+export type FakeMessageStatus = 'sent' | 'delivered' | 'read' | 'revoked';
+
+export interface FakeSentMessage {
+  id: string;
+  sessionId: string;
+  to: string;
+  body: string;
+  mediaType?: string;
+  status: FakeMessageStatus;
+  sentAt: Date;
+}
+
+const DEFAULT_SETTINGS: FakeNetworkSettings = {
+  connectDelayMs: 500,
+  autoScanMs: 2000,
+  deliveredAfterMs: 1000,
+  readAfterMs: 3000,
+};
+
+/**
+ * In-memory stand-in for the WhatsApp network, shared by every
+ * FakeWhatsAppAdapter of this process: which sessions are paired, which
+ * numbers exist or fail, and what was sent. Enabled with WA_ADAPTER=fake,
+ * for local development and end-to-end tests only.
+ */
+@Injectable()
+export class FakeNetworkService {
+  private readonly logger = new Logger(FakeNetworkService.name);
+
+  readonly enabled = process.env.WA_ADAPTER === 'fake';
+
+  private settings: FakeNetworkSettings = { ...DEFAULT_SETTINGS };
+  // Survives disconnects, like saved credentials
+  private paired = new Map<string, SessionInfo>();
+  private unregistered = new Set<string>();
+  private failures = new Map<string, string>();
+  private sent: FakeSentMessage[] = [];
+  private phoneCounter = 0;
+
+  constructor() {
+    if (!this.enabled) return;
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('WA_ADAPTER=fake must not be used in production');
+    }
+    this.logger.warn(
+      'Using the fake WhatsApp adapter: no message leaves this process',
+    );
+  }
+
+  getSettings(): FakeNetworkSettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(changes: Partial<FakeNetworkSettings>): FakeNetworkSettings {
+    this.settings = { ...this.settings, ...changes };
+    return this.getSettings();
+  }
+
+  pairedInfo(sessionId: string): SessionInfo | null {
+    return this.paired.get(sessionId) ?? null;
+  }
+
+  pair(sessionId: string, info: SessionInfo): void {
+    this.paired.set(sessionId, info);
+  }
+
+  unpair(sessionId: string): void {
+    this.paired.delete(sessionId);
+  }
+
+  /**
+   * A phone number no other fake session uses yet
+   */
+  nextPhoneNumber(): string {
+    this.phoneCounter++;
+    return `62800${String(this.phoneCounter).padStart(8, '0')}`;
+  }
+
+  isRegistered(phoneNumber: string): boolean {
+    return !this.unregistered.has(phoneNumber);
+  }
+
+  /**
+   * Mark numbers as (not) on WhatsApp and make sends to them fail with
+   * the given error; null clears the failure
+   */
+  configureNumbers(
+    phoneNumbers: string[],
+    options: { registered?: boolean; failWith?: string | null },
+  ): void {
+    for (const phoneNumber of phoneNumbers) {
+      if (options.registered === false) {
+        this.unregistered.add(phoneNumber);
+      } else if (options.registered === true) {
+        this.unregistered.delete(phoneNumber);
+      }
+
+      if (options.failWith) {
+        this.failures.set(phoneNumber, options.failWith);
+      } else if (options.failWith === null) {
+        this.failures.delete(phoneNumber);
+      }
+    }
+  }
+
+  failureFor(phoneNumber: string): string | null {
+    return this.failures.get(phoneNumber) ?? null;
+  }
+
+  record(
+    sessionId: string,
+    to: string,
+    body: string,
+    mediaType?: string,
+  ): FakeSentMessage {
+    const message: FakeSentMessage = {
+      id: this.generateMessageId(),
+      sessionId,
+      to,
+      body,
+      mediaType,
+      status: 'sent',
+      sentAt: new Date(),
+    };
+    this.sent.push(message);
+    if (this.sent.length > MAX_SENT_LOG) {
+      this.sent.shift();
+    }
+    return message;
+  }
+
+  setStatus(messageId: string, status: FakeMessageStatus): void {
+    const message = this.sent.find((m) => m.id === messageId);
+    if (message) message.status = status;
+  }
+
+  sentMessages(sessionId: string, to?: string): FakeSentMessage[] {
+    return this.sent.filter(
+      (m) => m.sessionId === sessionId && (!to || m.to === to),
+    );
+  }
+
+  generateMessageId(): string {
+    return `FAKE${randomBytes(8).toString('hex').toUpperCase()}`;
+  }
+
+  /**
+   * Back to the default settings and numbers, with an empty sent log.
+   * Pairings are kept, so connected sessions stay connected.
+   */
+  reset(): void {
+    this.settings = { ...DEFAULT_SETTINGS };
+    this.unregistered.clear();
+    this.failures.clear();
+    this.sent = [];
+  }
+}
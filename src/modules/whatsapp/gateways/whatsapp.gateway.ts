@@ -258,8 +258,8 @@ export class WhatsAppGateway
   }
 
   // Send QR code to specific user
-  sendQrCode(userId: string, qrCode: string) {
-    this.server.to(`user:${userId}`).emit('qr', { qrCode });
+  sendQrCode(userId: string, qrCode: string, sessionId?: string) {
+    this.server.to(`user:${userId}`).emit('qr', { qrCode, sessionId });
     this.logger.log(`QR code sent to user ${userId}`);
   }
 
@@ -313,6 +313,43 @@ export class WhatsAppGateway
     this.logger.log(`Blast started: ${data.name} (${data.total} recipients)`);
   }
 
+  // Send blast queued notification (another blast of the user is running)
+  sendBlastQueued(
+    userId: string,
+    data: {
+      blastId: string;
+      name: string;
+      position: number;
+      total: number;
+    },
+  ) {
+    this.server.to(`user:${userId}`).emit('blast-queued', data);
+    this.logger.log(`Blast queued: ${data.name} (position ${data.position})`);
+  }
+
+  // Send the user's blast queue after it changed
+  sendBlastQueueUpdated(
+    userId: string,
+    data: {
+      active: {
+        id: string;
+        name: string;
+        status: string;
+        totalRecipients: number;
+      } | null;
+      queued: {
+        id: string;
+        name: string;
+        status: string;
+        totalRecipients: number;
+        position?: number;
+        queuedAt?: Date;
+      }[];
+    },
+  ) {
+    this.server.to(`user:${userId}`).emit('blast-queue-updated', data);
+  }
+
   // Send blast progress notification
   sendBlastProgress(
     userId: string,
@@ -347,6 +384,68 @@ export class WhatsAppGateway
     );
   }
 
+  // Send blast paused notification
+  sendBlastPaused(
+    userId: string,
+    data: {
+      blastId: string;
+      name: string;
+      sent: number;
+      failed: number;
+      invalid: number;
+      pending: number;
+      total: number;
+    },
+  ) {
+    this.server.to(`user:${userId}`).emit('blast-paused', data);
+    this.logger.log(`Blast paused: ${data.name} (${data.pending} pending)`);
+  }
+
+  // Send blast resumed notification
+  sendBlastResumed(
+    userId: string,
+    data: {
+      blastId: string;
+      name: string;
+      remaining: number;
+      total: number;
+    },
+  ) {
+    this.server.to(`user:${userId}`).emit('blast-resumed', data);
+    this.logger.log(
+      `Blast resumed: ${data.name} (${data.remaining} remaining)`,
+    );
+  }
+
+  // Send A/B test progress (evaluation started / winner picked)
+  sendBlastAbTestUpdate(
+    userId: string,
+    data: {
+      blastId: string;
+      status: string;
+      evaluateAt?: Date;
+      winnerIndex?: number;
+      variants?: {
+        index: number;
+        sent: number;
+        replied: number;
+        replyRate: number;
+      }[];
+    },
+  ) {
+    this.server.to(`user:${userId}`).emit('blast-ab-test', data);
+    this.logger.log(`Blast A/B test ${data.blastId}: ${data.status}`);
+  }
+
+  // Send blast slowed down notification (rate limit / session errors spiked)
+  sendBlastThrottled(
+    userId: string,
+    data: { blastId: string; slowdown: number; reason: string },
+  ) {
+    this.server.to(`user:${userId}`).emit('blast-throttled', data);
+    this.logger.log(`Blast ${data.blastId} slowed down x${data.slowdown}`);
+  }
+
   // ==================== Subscription/Quota Events ====================
 
   // Send quota warning notification
@@ -2,11 +2,15 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Delete,
   Body,
+  Param,
   Query,
   UseGuards,
   BadRequestException,
+  ForbiddenException,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -17,12 +21,20 @@ import {
 } from '@nestjs/swagger';
 import { WhatsAppService } from './whatsapp.service';
 import { ContactsService } from '../contacts/contacts.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole } from '../../database/entities/user.entity';
-import { SendMessageDto, SessionQueryDto, ConnectPairingDto } from './dto';
+import {
+  SendMessageDto,
+  SessionQueryDto,
+  ConnectPairingDto,
+  SessionIdQueryDto,
+  CreateWhatsAppNumberDto,
+  UpdateWhatsAppNumberDto,
+} from './dto';
 
 @ApiTags('WhatsApp')
 @ApiBearerAuth('JWT-auth')
@@ -32,17 +44,87 @@ export class WhatsAppController {
   constructor(
     private readonly whatsappService: WhatsAppService,
     private readonly contactsService: ContactsService,
+    private readonly subscriptionsService: SubscriptionsService,
   ) {}
 
+  // ==================== Numbers ====================
+
+  @Get('numbers')
+  @ApiOperation({ summary: 'List my WhatsApp numbers' })
+  @ApiResponse({
+    status: 200,
+    description: 'Numbers with connection status, default first',
+  })
+  async getNumbers(@CurrentUser('id') userId: string) {
+    const numbers = await this.whatsappService.getSessions(userId);
+    const limit = await this.subscriptionsService.checkNumberLimit(
+      userId,
+      numbers.length,
+    );
+    return { data: numbers, limit: limit.limit, canAdd: limit.canAdd };
+  }
+
+  @Post('numbers')
+  @ApiOperation({
+    summary: 'Add a WhatsApp number',
+    description:
+      'Creates a number slot; connect it with POST /whatsapp/connect?sessionId=...',
+  })
+  @ApiResponse({ status: 201, description: 'Number added' })
+  @ApiResponse({ status: 403, description: 'Package number limit reached' })
+  async createNumber(
+    @CurrentUser('id') userId: string,
+    @Body() dto: CreateWhatsAppNumberDto,
+  ) {
+    const used = await this.whatsappService.countSessions(userId);
+    const limit = await this.subscriptionsService.checkNumberLimit(
+      userId,
+      used,
+    );
+    if (!limit.canAdd) {
+      throw new ForbiddenException(limit.message);
+    }
+    return this.whatsappService.createSession(userId, dto.label);
+  }
+
+  @Patch('numbers/:id')
+  @ApiOperation({ summary: 'Rename a number or make it the default' })
+  @ApiResponse({ status: 200, description: 'Number updated' })
+  @ApiResponse({ status: 404, description: 'Number not found' })
+  updateNumber(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateWhatsAppNumberDto,
+  ) {
+    return this.whatsappService.updateSession(userId, id, dto);
+  }
+
+  @Delete('numbers/:id')
+  @ApiOperation({ summary: 'Log out and remove a number' })
+  @ApiResponse({ status: 200, description: 'Number removed' })
+  @ApiResponse({ status: 404, description: 'Number not found' })
+  async deleteNumber(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    await this.whatsappService.deleteSession(userId, id);
+    return { message: 'Number removed successfully' };
+  }
+
+  // ==================== Session ====================
+
   @Post('connect')
   @ApiOperation({ summary: 'Initialize/Connect WhatsApp session' })
   @ApiResponse({
     status: 201,
     description: 'Session initialized, returns QR code if needed',
   })
-  async connect(@CurrentUser('id') userId: string) {
+  async connect(
+    @CurrentUser('id') userId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
+  ) {
     try {
-      return await this.whatsappService.initializeSession(userId);
+      return await this.whatsappService.initializeSession(userId, sessionId);
     } catch (error) {
       throw new BadRequestException(`Failed to connect: ${error}`);
     }
@@ -69,11 +151,13 @@ export class WhatsAppController {
   async connectWithPairing(
     @CurrentUser('id') userId: string,
     @Body() dto: ConnectPairingDto,
+    @Query() { sessionId }: SessionIdQueryDto,
   ) {
     try {
       return await this.whatsappService.initializeSessionWithPairing(
         userId,
         dto.phoneNumber,
+        sessionId,
       );
     } catch (error) {
       throw new BadRequestException(
@@ -88,14 +172,17 @@ export class WhatsAppController {
       'Force reconnect WhatsApp session (destroys existing and creates new)',
   })
   @ApiResponse({ status: 201, description: 'Session reinitialized' })
-  async reconnect(@CurrentUser('id') userId: string) {
+  async reconnect(
+    @CurrentUser('id') userId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
+  ) {
     try {
       // Force disconnect first
-      await this.whatsappService.forceDisconnect(userId);
+      await this.whatsappService.forceDisconnect(userId, sessionId);
       // Wait a moment for cleanup
       await new Promise((resolve) => setTimeout(resolve, 1000));
       // Then connect
-      return await this.whatsappService.initializeSession(userId);
+      return await this.whatsappService.initializeSession(userId, sessionId);
     } catch (error) {
       throw new BadRequestException(`Failed to reconnect: ${error}`);
     }
@@ -104,8 +191,11 @@ export class WhatsAppController {
   @Delete('disconnect')
   @ApiOperation({ summary: 'Disconnect session' })
   @ApiResponse({ status: 200, description: 'Session disconnected' })
-  async disconnect(@CurrentUser('id') userId: string) {
-    await this.whatsappService.disconnectSession(userId);
+  async disconnect(
+    @CurrentUser('id') userId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
+  ) {
+    await this.whatsappService.disconnectSession(userId, sessionId);
     return { message: 'Session disconnected successfully' };
   }
 
@@ -115,9 +205,18 @@ export class WhatsAppController {
     status: 200,
     description: 'Current session status and readiness',
   })
-  async getStatus(@CurrentUser('id') userId: string) {
-    const session = await this.whatsappService.getSessionStatus(userId);
-    const isReady = await this.whatsappService.isSessionReady(userId);
+  async getStatus(
+    @CurrentUser('id') userId: string,
+    @Query() { sessionId }: SessionIdQueryDto,
+  ) {
+    const session = await this.whatsappService.getSessionStatus(
+      userId,
+      sessionId,
+    );
+    const isReady = await this.whatsappService.isSessionReady(
+      userId,
+      sessionId,
+    );
     const stats = this.whatsappService.getSessionStats();
 
     return {
@@ -134,8 +233,12 @@ export class WhatsAppController {
   async sendMessage(
     @CurrentUser('id') userId: string,
     @Body() sendMessageDto: SendMessageDto,
+    @Query() { sessionId }: SessionIdQueryDto,
   ) {
-    const isReady = await this.whatsappService.isSessionReady(userId);
+    const isReady = await this.whatsappService.isSessionReady(
+      userId,
+      sessionId,
+    );
     if (!isReady) {
       throw new BadRequestException('WhatsApp session is not connected');
     }
@@ -145,6 +248,7 @@ export class WhatsAppController {
         userId,
         sendMessageDto.phoneNumber,
         sendMessageDto.message,
+        sessionId,
       );
       return { success: true, message: 'Message sent successfully' };
     } catch (error) {
@@ -230,7 +334,7 @@ export class WhatsAppController {
     @CurrentUser('id') userId: string,
     @Query('onlyMyContacts') onlyMyContacts?: string,
   ) {
-    const isReady = await this.whatsappService.isSessionReady(userId);
+    const isReady = await this.whatsappService.hasReadySession(userId);
     if (!isReady) {
       throw new BadRequestException(
         'WhatsApp session is not connected. Please connect first.',
@@ -316,7 +420,7 @@ export class WhatsAppController {
     @CurrentUser('id') userId: string,
     @Query('updateExisting') updateExisting?: string,
   ) {
-    const isReady = await this.whatsappService.isSessionReady(userId);
+    const isReady = await this.whatsappService.hasReadySession(userId);
     if (!isReady) {
       throw new BadRequestException(
         'WhatsApp session is not connected. Please connect first.',
@@ -376,7 +480,7 @@ export class WhatsAppController {
     @CurrentUser('id') userId: string,
     @Body() body: { phoneNumbers: string[] },
   ) {
-    const isReady = await this.whatsappService.isSessionReady(userId);
+    const isReady = await this.whatsappService.hasReadySession(userId);
     if (!isReady) {
       throw new BadRequestException(
         'WhatsApp session is not connected. Please connect first.',
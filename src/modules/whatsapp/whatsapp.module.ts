@@ -2,20 +2,38 @@ import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { WhatsAppService } from './whatsapp.service';
 import { WhatsAppController } from './whatsapp.controller';
+import { FakeWhatsAppController } from './fake-whatsapp.controller';
 import { WhatsAppGateway } from './gateways/whatsapp.gateway';
 import { WhatsAppSession } from '../../database/entities/whatsapp-session.entity';
 import { Notification } from '../../database/entities/notification.entity';
+import { WhatsAppAuthState } from '../../database/entities/whatsapp-auth-state.entity';
+import { AuthStateService } from './auth-state';
+import { SessionLeaseService, SessionRpcService } from './cluster';
+import { FakeNetworkService } from './fake';
 import { UploadsModule } from '../uploads/uploads.module';
 import { ContactsModule } from '../contacts/contacts.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([WhatsAppSession, Notification]),
+    TypeOrmModule.forFeature([
+      WhatsAppSession,
+      WhatsAppAuthState,
+      Notification,
+    ]),
     UploadsModule,
     forwardRef(() => ContactsModule),
+    forwardRef(() => SubscriptionsModule),
+  ],
+  controllers: [WhatsAppController, FakeWhatsAppController],
+  providers: [
+    WhatsAppService,
+    WhatsAppGateway,
+    AuthStateService,
+    SessionLeaseService,
+    SessionRpcService,
+    FakeNetworkService,
   ],
-  controllers: [WhatsAppController],
-  providers: [WhatsAppService, WhatsAppGateway],
   exports: [WhatsAppService, WhatsAppGateway],
 })
 export class WhatsAppModule {}
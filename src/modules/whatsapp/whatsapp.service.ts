@@ -1,6 +1,8 @@
 import {
+  ConflictException,
   Injectable,
   Logger,
+  NotFoundException,
   OnModuleDestroy,
   OnModuleInit,
 } from '@nestjs/common';
@@ -17,9 +19,14 @@ import {
 import { WhatsAppGateway } from './gateways/whatsapp.gateway';
 import { StorageService } from '../uploads/storage.service';
 import { BaileysAdapter } from './adapters/baileys.adapter';
+import { FakeWhatsAppAdapter } from './adapters/fake.adapter';
+import { AuthStateService } from './auth-state';
+import { SessionLeaseService, SessionRpcService } from './cluster';
+import { FakeNetworkService } from './fake';
 import type {
   IWhatsAppClientAdapter,
   MediaData,
+  MessageStatusUpdate,
 } from './adapters/whatsapp-client.interface';
 
 // Interface for reply detection handler
@@ -28,12 +35,17 @@ export interface ReplyHandler {
     userId: string,
     phoneNumber: string,
     message: any,
+    sessionId?: string,
   ): Promise<any>;
 }
 
 // Interface for chat message storage handler
 export interface MessageStoreHandler {
-  handleMessageUpsert(userId: string, message: any): Promise<void>;
+  handleMessageUpsert(
+    userId: string,
+    message: any,
+    sessionPhoneNumber?: string,
+  ): Promise<void>;
 }
 
 // Interface for message status update handler
@@ -48,7 +60,10 @@ export interface MessageStatusHandler {
 
 interface ClientInstance {
   adapter: IWhatsAppClientAdapter;
+  sessionId: string;
   userId: string;
+  isDefault: boolean;
+  phoneNumber?: string;
   isReady: boolean;
   lastActivity: number;
   isBlasting: boolean;
@@ -57,6 +72,7 @@ interface ClientInstance {
 @Injectable()
 export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(WhatsAppService.name);
+  // Connected numbers by session id
   private clients: Map<string, ClientInstance> = new Map();
   private mediaCache = new Map<
     string,
@@ -72,20 +88,52 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
   private readonly IDLE_TIMEOUT_MS =
     parseInt(process.env.WA_IDLE_TIMEOUT_MINUTES || '15', 10) * 60 * 1000;
   private readonly IDLE_CHECK_INTERVAL_MS = 60 * 1000; // Check every minute
+  private readonly NUMBER_CHECK_BATCH_SIZE = 50; // Numbers per onWhatsApp query
+  private readonly NUMBER_CHECK_TTL_MS =
+    parseInt(process.env.WA_NUMBER_CHECK_TTL_HOURS || '24', 10) * 3600000;
+
+  // Sends by idempotency key (e.g. blast message id), so a job retried after
+  // a cluster call timed out does not send the same message twice
+  private sendsByKey = new Map<
+    string,
+    {
+      result: Promise<{ success: boolean; messageId?: string }>;
+      expiresAt: number;
+    }
+  >();
+  private readonly SEND_KEY_TTL_MS = 30 * 60 * 1000;
+
+  // Registration verdicts per user: chatId -> exists
+  private numberCheckCache = new Map<
+    string,
+    Map<string, { exists: boolean; expiresAt: number }>
+  >();
+
+  // Last rotated sender per user
+  private rotationCursor = new Map<string, number>();
 
   private idleCheckTimer: NodeJS.Timeout | null = null;
+  private clusterTimer: NodeJS.Timeout | null = null;
+  private isClaiming = false;
+  // Users with a running blast, as far as this instance knows
+  private blastingUsers = new Set<string>();
   private replyHandler: ReplyHandler | null = null;
   private messageStoreHandler: MessageStoreHandler | null = null;
-  private messageStatusHandler: MessageStatusHandler | null = null;
-  private manualDisconnectUsers: Set<string> = new Set(); // Track users who manually disconnect
+  private messageStatusHandlers: MessageStatusHandler[] = [];
+  private manualDisconnectSessions: Set<string> = new Set(); // Track sessions that were manually disconnected
 
   constructor(
     @InjectRepository(WhatsAppSession)
     private readonly sessionRepository: Repository<WhatsAppSession>,
     private readonly whatsappGateway: WhatsAppGateway,
     private readonly storageService: StorageService,
+    private readonly authStateService: AuthStateService,
+    private readonly leases: SessionLeaseService,
+    private readonly rpc: SessionRpcService,
+    private readonly fakeNetwork: FakeNetworkService,
   ) {
     this.startIdleSessionCleanup();
+    this.registerClusterHandlers();
   }
 
   /**
@@ -95,50 +143,41 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     this.logger.log('Restoring WhatsApp sessions...');
 
     try {
-      // Find sessions that were previously connected
-      const connectedSessions = await this.sessionRepository.find({
-        where: { status: SessionStatus.CONNECTED },
-      });
-
-      if (connectedSessions.length === 0) {
-        this.logger.log('No previous sessions to restore');
-        return;
-      }
+      await this.migrateLegacyAuthDirs();
+      await this.importAuthDirs();
+      await this.authStateService.rotateKeys();
 
-      this.logger.log(
-        `Found ${connectedSessions.length} session(s) to restore`,
-      );
-
-      // Restore each session (with delay to avoid overwhelming)
-      for (const session of connectedSessions) {
-        try {
-          this.logger.log(`Restoring session for user ${session.userId}...`);
-          await this.initializeSession(session.userId);
-        } catch (error) {
-          this.logger.error(
-            `Failed to restore session for user ${session.userId}`,
-            error,
-          );
-        }
-      }
-
-      this.logger.log('Session restoration complete');
+      // Sessions that were connected before the restart
+      const restored = await this.claimOrphanedSessions();
+      this.logger.log(`Session restoration complete (${restored} restored)`);
     } catch (error) {
       this.logger.error('Error during session restoration', error);
     }
+
+    this.startClusterHeartbeat();
   }
 
   async onModuleDestroy() {
     if (this.idleCheckTimer) {
       clearInterval(this.idleCheckTimer);
     }
+    if (this.clusterTimer) {
+      clearInterval(this.clusterTimer);
+    }
 
-    for (const [userId, instance] of this.clients) {
+    for (const [sessionId, instance] of this.clients) {
       try {
         await instance.adapter.destroy();
-        this.logger.log(`Client destroyed for user ${userId}`);
+        // Let another instance take over right away
+        await this.leases.release(sessionId);
+        this.logger.log(
+          `Client ${sessionId} destroyed for user ${instance.userId}`,
+        );
       } catch (error) {
-        this.logger.error(`Error destroying client for user ${userId}`, error);
+        this.logger.error(
+          `Error destroying client ${sessionId} for user ${instance.userId}`,
+          error,
+        );
       }
     }
   }
@@ -153,11 +192,29 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     this.logger.log('Message store handler registered');
   }
 
-  setMessageStatusHandler(handler: MessageStatusHandler) {
-    this.messageStatusHandler = handler;
+  addMessageStatusHandler(handler: MessageStatusHandler) {
+    this.messageStatusHandlers.push(handler);
     this.logger.log('Message status handler registered');
   }
 
+  private async dispatchMessageStatusUpdate(
+    userId: string,
+    update: MessageStatusUpdate,
+  ): Promise<void> {
+    for (const handler of this.messageStatusHandlers) {
+      try {
+        await handler.handleMessageStatusUpdate(
+          userId,
+          update.messageId,
+          update.remoteJid,
+          update.status,
+        );
+      } catch (error) {
+        this.logger.error(`Error in message status handler: ${error}`);
+      }
+    }
+  }
+
   private startIdleSessionCleanup() {
     this.idleCheckTimer = setInterval(async () => {
       await this.cleanupIdleSessions();
@@ -170,22 +227,25 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
 
   private async cleanupIdleSessions() {
     const now = Date.now();
-    const idleSessions: string[] = [];
+    const idleSessions: ClientInstance[] = [];
 
-    for (const [userId, instance] of this.clients) {
+    for (const instance of this.clients.values()) {
       if (instance.isBlasting) continue;
 
       const idleTime = now - instance.lastActivity;
       if (idleTime > this.IDLE_TIMEOUT_MS) {
-        idleSessions.push(userId);
+        idleSessions.push(instance);
       }
     }
 
-    for (const userId of idleSessions) {
-      this.logger.log(`Auto-disconnecting idle session for user ${userId}`);
-      await this.forceDisconnect(userId);
+    for (const { userId, sessionId } of idleSessions) {
+      this.logger.log(
+        `Auto-disconnecting idle session ${sessionId} for user ${userId}`,
+      );
+      await this.forceDisconnect(userId, sessionId);
 
       this.whatsappGateway.sendStatusUpdate(userId, {
+        sessionId,
         status: SessionStatus.DISCONNECTED,
         reason:
           'Session disconnected due to inactivity. Please reconnect when needed.',
@@ -207,16 +267,86 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     };
   }
 
-  private updateActivity(userId: string) {
-    const instance = this.clients.get(userId);
-    if (instance) {
-      instance.lastActivity = Date.now();
+  private createAdapter(sessionId: string): IWhatsAppClientAdapter {
+    return this.fakeNetwork.enabled
+      ? new FakeWhatsAppAdapter(this.fakeNetwork, sessionId)
+      : new BaileysAdapter();
+  }
+
+  /**
+   * The running fake client of the user's session, for the fake control API
+   */
+  getFakeAdapter(userId: string, sessionId?: string): FakeWhatsAppAdapter {
+    if (!this.fakeNetwork.enabled) {
+      throw new NotFoundException('Fake WhatsApp adapter is not enabled');
+    }
+
+    const instance = this.getClient(userId, sessionId);
+    if (!instance || !(instance.adapter instanceof FakeWhatsAppAdapter)) {
+      throw new NotFoundException('WhatsApp session is not running');
+    }
+    return instance.adapter;
+  }
+
+  /**
+   * The user's client for a session, or for the default number when no
+   * session is given
+   */
+  private getClient(
+    userId: string,
+    sessionId?: string | null,
+  ): ClientInstance | undefined {
+    if (sessionId) {
+      const instance = this.clients.get(sessionId);
+      return instance?.userId === userId ? instance : undefined;
+    }
+    for (const instance of this.clients.values()) {
+      if (instance.userId === userId && instance.isDefault) return instance;
     }
+    return undefined;
+  }
+
+  /**
+   * Like getClient, but falls back to any connected number of the user.
+   * For lookups that don't depend on the sending number.
+   */
+  private getAnyReadyClient(
+    userId: string,
+    sessionId?: string | null,
+  ): ClientInstance | undefined {
+    const instance = this.getClient(userId, sessionId);
+    if (instance?.isReady) return instance;
+    return this.getReadyClients(userId)[0];
+  }
+
+  private getReadyClients(userId: string): ClientInstance[] {
+    return [...this.clients.values()]
+      .filter((instance) => instance.userId === userId && instance.isReady)
+      .sort((a, b) => a.sessionId.localeCompare(b.sessionId));
   }
 
   setBlastingStatus(userId: string, isBlasting: boolean) {
-    const instance = this.clients.get(userId);
-    if (instance) {
+    // Called for every message; the cluster only needs to hear the start
+    const announced = isBlasting && this.blastingUsers.has(userId);
+    this.markBlasting(userId, isBlasting);
+
+    // The user's numbers may be connected on other instances
+    if (!announced) {
+      this.rpc
+        .broadcast('setBlastingStatus', [userId, isBlasting])
+        .catch((error) =>
+          this.logger.warn(`Failed to broadcast blasting status: ${error}`),
+        );
+    }
+  }
+
+  private markBlasting(userId: string, isBlasting: boolean) {
+    if (isBlasting) this.blastingUsers.add(userId);
+    else this.blastingUsers.delete(userId);
+
+    // Rotating blasts send from every number of the user
+    for (const instance of this.clients.values()) {
+      if (instance.userId !== userId) continue;
       instance.isBlasting = isBlasting;
       instance.lastActivity = Date.now();
     }
@@ -224,25 +354,49 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
 
   async initializeSession(
     userId: string,
-  ): Promise<{ status: string; qrCode?: string; message?: string }> {
+    sessionId?: string,
+  ): Promise<{
+    status: string;
+    sessionId?: string;
+    qrCode?: string;
+    message?: string;
+  }> {
+    const session = await this.getOrCreateSession(userId, sessionId);
+
+    const target = await this.pickConnectInstance(session.id);
+    if (target !== this.leases.instanceId) {
+      return this.rpc.call(target, 'initializeSession', [userId, session.id]);
+    }
+    return this.startSession(userId, session);
+  }
+
+  private async startSession(
+    userId: string,
+    session: WhatsAppSession,
+  ): Promise<{
+    status: string;
+    sessionId?: string;
+    qrCode?: string;
+    message?: string;
+  }> {
     // Check if client already exists
-    if (this.clients.has(userId)) {
-      const instance = this.clients.get(userId)!;
+    if (this.clients.has(session.id)) {
+      const instance = this.clients.get(session.id)!;
       if (instance.isReady) {
         instance.lastActivity = Date.now();
-        return { status: 'connected' };
+        return { status: 'connected', sessionId: session.id };
       }
 
       // Client exists but not ready - destroy and recreate
       this.logger.warn(
-        `Client exists but not ready for user ${userId}, destroying and recreating...`,
+        `Client exists but not ready for session ${session.id}, destroying and recreating...`,
       );
       try {
         await instance.adapter.destroy();
       } catch (e) {
         this.logger.warn(`Error destroying stale client: ${e}`);
       }
-      this.clients.delete(userId);
+      this.clients.delete(session.id);
     }
 
     // Check session limit
@@ -252,49 +406,60 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
       );
       return {
         status: 'limit_reached',
+        sessionId: session.id,
         message: `Server is at capacity (${this.MAX_CONCURRENT_SESSIONS} active sessions). Please try again later.`,
       };
     }
 
-    const session = await this.getOrCreateSession(userId);
-    await this.updateSessionStatus(userId, SessionStatus.CONNECTING);
+    if (!(await this.leases.acquire(session.id))) {
+      throw new ConflictException(
+        'WhatsApp number is being connected by another instance',
+      );
+    }
+
+    await this.updateSessionStatus(session.id, SessionStatus.CONNECTING);
 
-    const adapter = new BaileysAdapter();
-    const authPath = path.join(process.cwd(), this.AUTH_DIR, userId);
+    const adapter = this.createAdapter(session.id);
+    const authPath = path.join(process.cwd(), this.AUTH_DIR, session.id);
 
     const instance: ClientInstance = {
       adapter,
+      sessionId: session.id,
       userId,
+      isDefault: session.isDefault,
       isReady: false,
       lastActivity: Date.now(),
-      isBlasting: false,
+      isBlasting: this.blastingUsers.has(userId),
     };
 
-    this.clients.set(userId, instance);
+    this.clients.set(session.id, instance);
 
     try {
       await adapter.initialize({
         userId,
         authPath,
+        authStore: this.authStateService.forSession(session.id) ?? undefined,
         onQr: async (qr: string) => {
-          this.logger.log(`QR Code received for user ${userId}`);
+          this.logger.log(`QR Code received for session ${session.id}`);
 
           const qrDataUrl = await qrcode.toDataURL(qr);
 
-          await this.updateSessionStatus(userId, SessionStatus.SCANNING);
-          await this.sessionRepository.update(
-            { userId },
-            { lastQrCode: qrDataUrl },
-          );
+          await this.updateSessionStatus(session.id, SessionStatus.SCANNING);
+          await this.sessionRepository.update(session.id, {
+            lastQrCode: qrDataUrl,
+          });
 
-          this.whatsappGateway.sendQrCode(userId, qrDataUrl);
+          this.whatsappGateway.sendQrCode(userId, qrDataUrl, session.id);
         },
         onReady: async (info) => {
-          this.logger.log(`Client ready for user ${userId}`);
+          this.logger.log(
+            `Client ready for session ${session.id} (user ${userId})`,
+          );
 
-          const inst = this.clients.get(userId);
+          const inst = this.clients.get(session.id);
           if (inst) {
             inst.isReady = true;
+            inst.phoneNumber = info.phoneNumber;
           }
 
           const updateData: Partial<WhatsAppSession> = {
@@ -309,69 +474,83 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
             updateData.pushName = info.pushName;
           }
 
-          await this.sessionRepository.update({ userId }, updateData);
+          const pairedAt = await this.resolvePairedAt(
+            session.id,
+            info.phoneNumber,
+          );
+          if (pairedAt) {
+            updateData.pairedAt = pairedAt;
+          }
+
+          await this.sessionRepository.update(session.id, updateData);
 
           // Clear QR code and disconnect reason
           await this.sessionRepository
             .createQueryBuilder()
             .update(WhatsAppSession)
             .set({ lastQrCode: () => 'NULL', disconnectReason: () => 'NULL' })
-            .where('userId = :userId', { userId })
+            .where('id = :id', { id: session.id })
             .execute();
 
           this.whatsappGateway.sendStatusUpdate(userId, {
+            sessionId: session.id,
             status: SessionStatus.CONNECTED,
             phoneNumber: info.phoneNumber,
             pushName: info.pushName,
           });
         },
         onDisconnected: async (reason: string) => {
-          this.logger.log(`Client disconnected for user ${userId}: ${reason}`);
+          this.logger.log(
+            `Client disconnected for session ${session.id}: ${reason}`,
+          );
 
-          const inst = this.clients.get(userId);
+          const inst = this.clients.get(session.id);
           if (inst) {
             inst.isReady = false;
           }
 
-          this.clients.delete(userId);
+          this.clients.delete(session.id);
 
-          await this.sessionRepository.update(
-            { userId },
-            {
-              status: SessionStatus.DISCONNECTED,
-              lastDisconnectedAt: new Date(),
-              disconnectReason: reason,
-            },
-          );
+          await this.sessionRepository.update(session.id, {
+            status: SessionStatus.DISCONNECTED,
+            lastDisconnectedAt: new Date(),
+            disconnectReason: reason,
+          });
 
           this.whatsappGateway.sendStatusUpdate(userId, {
+            sessionId: session.id,
             status: SessionStatus.DISCONNECTED,
             reason,
           });
 
           // Auto-reconnect for ALL disconnects EXCEPT manual disconnect
-          if (!this.manualDisconnectUsers.has(userId)) {
+          if (!this.manualDisconnectSessions.has(session.id)) {
             this.logger.log(
-              `Session disconnected for user ${userId} (reason: ${reason}). Auto-reconnecting in 5s...`,
+              `Session ${session.id} disconnected (reason: ${reason}). Auto-reconnecting in 5s...`,
             );
             setTimeout(() => {
-              this.initializeSession(userId).catch((e) =>
+              this.initializeSession(userId, session.id).catch((e) =>
                 this.logger.error(
-                  `Auto-reconnect failed for user ${userId}: ${e}`,
+                  `Auto-reconnect failed for session ${session.id}: ${e}`,
                 ),
               );
             }, 5000);
           } else {
             this.logger.log(
-              `Manual disconnect for user ${userId}, skipping auto-reconnect`,
+              `Manual disconnect for session ${session.id}, skipping auto-reconnect`,
             );
-            this.manualDisconnectUsers.delete(userId);
+            this.manualDisconnectSessions.delete(session.id);
           }
         },
         onAuthFailure: async (error: string) => {
-          this.logger.error(`Auth failure for user ${userId}: ${error}`);
-          await this.updateSessionStatus(userId, SessionStatus.FAILED, error);
+          this.logger.error(`Auth failure for session ${session.id}: ${error}`);
+          await this.updateSessionStatus(
+            session.id,
+            SessionStatus.FAILED,
+            error,
+          );
           this.whatsappGateway.sendStatusUpdate(userId, {
+            sessionId: session.id,
             status: SessionStatus.FAILED,
             error,
           });
@@ -391,6 +570,7 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
                 userId,
                 phoneNumber,
                 message,
+                session.id,
               );
             } else {
               this.logger.warn(`[Reply] No replyHandler registered!`);
@@ -405,44 +585,35 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
               await this.messageStoreHandler.handleMessageUpsert(
                 userId,
                 message,
+                this.clients.get(session.id)?.phoneNumber,
               );
             } catch (error) {
               this.logger.error(`Error in message store handler: ${error}`);
             }
           }
         },
-        onMessageStatusUpdate: async (update) => {
-          if (this.messageStatusHandler) {
-            try {
-              await this.messageStatusHandler.handleMessageStatusUpdate(
-                userId,
-                update.messageId,
-                update.remoteJid,
-                update.status,
-              );
-            } catch (error) {
-              this.logger.error(`Error in message status handler: ${error}`);
-            }
-          }
-        },
+        onMessageStatusUpdate: (update) =>
+          this.dispatchMessageStatusUpdate(userId, update),
       });
 
       return {
         status: 'connecting',
+        sessionId: session.id,
       };
     } catch (error) {
       this.logger.error(
-        `Failed to initialize client for user ${userId}`,
+        `Failed to initialize client for session ${session.id}`,
         error,
       );
 
       try {
         await adapter.destroy();
       } catch (e) {}
-      this.clients.delete(userId);
+      this.clients.delete(session.id);
+      await this.leases.release(session.id);
 
       await this.updateSessionStatus(
-        userId,
+        session.id,
         SessionStatus.FAILED,
         String(error),
       );
@@ -453,13 +624,42 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
   async initializeSessionWithPairing(
     userId: string,
     phoneNumber: string,
-  ): Promise<{ status: string; code?: string; message?: string }> {
+    sessionId?: string,
+  ): Promise<{
+    status: string;
+    sessionId?: string;
+    code?: string;
+    message?: string;
+  }> {
+    const session = await this.getOrCreateSession(userId, sessionId);
+
+    const target = await this.pickConnectInstance(session.id);
+    if (target !== this.leases.instanceId) {
+      return this.rpc.call(target, 'initializeSessionWithPairing', [
+        userId,
+        phoneNumber,
+        session.id,
+      ]);
+    }
+    return this.startPairingSession(userId, phoneNumber, session);
+  }
+
+  private async startPairingSession(
+    userId: string,
+    phoneNumber: string,
+    session: WhatsAppSession,
+  ): Promise<{
+    status: string;
+    sessionId?: string;
+    code?: string;
+    message?: string;
+  }> {
     // Check if client already exists and is connected
-    if (this.clients.has(userId)) {
-      const instance = this.clients.get(userId)!;
+    if (this.clients.has(session.id)) {
+      const instance = this.clients.get(session.id)!;
       if (instance.isReady) {
         instance.lastActivity = Date.now();
-        return { status: 'connected' };
+        return { status: 'connected', sessionId: session.id };
       }
 
       // Client exists but not ready - destroy and recreate
@@ -468,46 +668,58 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
       } catch (e) {
         this.logger.warn(`Error destroying stale client: ${e}`);
       }
-      this.clients.delete(userId);
+      this.clients.delete(session.id);
     }
 
     // Check session limit
     if (this.clients.size >= this.MAX_CONCURRENT_SESSIONS) {
       return {
         status: 'limit_reached',
+        sessionId: session.id,
         message: `Server is at capacity (${this.MAX_CONCURRENT_SESSIONS} active sessions). Please try again later.`,
       };
     }
 
-    await this.getOrCreateSession(userId);
-    await this.updateSessionStatus(userId, SessionStatus.CONNECTING);
+    if (!(await this.leases.acquire(session.id))) {
+      throw new ConflictException(
+        'WhatsApp number is being connected by another instance',
+      );
+    }
+
+    await this.updateSessionStatus(session.id, SessionStatus.CONNECTING);
 
-    const adapter = new BaileysAdapter();
-    const authPath = path.join(process.cwd(), this.AUTH_DIR, userId);
+    const adapter = this.createAdapter(session.id);
+    const authPath = path.join(process.cwd(), this.AUTH_DIR, session.id);
 
     const instance: ClientInstance = {
       adapter,
+      sessionId: session.id,
       userId,
+      isDefault: session.isDefault,
       isReady: false,
       lastActivity: Date.now(),
-      isBlasting: false,
+      isBlasting: this.blastingUsers.has(userId),
     };
 
-    this.clients.set(userId, instance);
+    this.clients.set(session.id, instance);
 
     try {
       await adapter.initialize({
         userId,
         authPath,
+        authStore: this.authStateService.forSession(session.id) ?? undefined,
         onQr: () => {
           // Ignore QR events for pairing code flow
         },
         onReady: async (info) => {
-          this.logger.log(`Client ready for user ${userId} (via pairing code)`);
+          this.logger.log(
+            `Client ready for session ${session.id} (via pairing code)`,
+          );
 
-          const inst = this.clients.get(userId);
+          const inst = this.clients.get(session.id);
           if (inst) {
             inst.isReady = true;
+            inst.phoneNumber = info.phoneNumber;
           }
 
           const updateData: Partial<WhatsAppSession> = {
@@ -522,70 +734,87 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
             updateData.pushName = info.pushName;
           }
 
-          await this.sessionRepository.update({ userId }, updateData);
+          const pairedAt = await this.resolvePairedAt(
+            session.id,
+            info.phoneNumber,
+          );
+          if (pairedAt) {
+            updateData.pairedAt = pairedAt;
+          }
+
+          await this.sessionRepository.update(session.id, updateData);
 
           await this.sessionRepository
             .createQueryBuilder()
             .update(WhatsAppSession)
             .set({ lastQrCode: () => 'NULL', disconnectReason: () => 'NULL' })
-            .where('userId = :userId', { userId })
+            .where('id = :id', { id: session.id })
             .execute();
 
           this.whatsappGateway.sendStatusUpdate(userId, {
+            sessionId: session.id,
             status: SessionStatus.CONNECTED,
             phoneNumber: info.phoneNumber,
             pushName: info.pushName,
           });
         },
         onDisconnected: async (reason: string) => {
-          this.logger.log(`Client disconnected for user ${userId}: ${reason}`);
+          this.logger.log(
+            `Client disconnected for session ${session.id}: ${reason}`,
+          );
 
-          const inst = this.clients.get(userId);
+          const inst = this.clients.get(session.id);
           if (inst) {
             inst.isReady = false;
           }
 
-          this.clients.delete(userId);
+          this.clients.delete(session.id);
 
-          await this.sessionRepository.update(
-            { userId },
-            {
-              status: SessionStatus.DISCONNECTED,
-              lastDisconnectedAt: new Date(),
-              disconnectReason: reason,
-            },
-          );
+          await this.sessionRepository.update(session.id, {
+            status: SessionStatus.DISCONNECTED,
+            lastDisconnectedAt: new Date(),
+            disconnectReason: reason,
+          });
 
           this.whatsappGateway.sendStatusUpdate(userId, {
+            sessionId: session.id,
             status: SessionStatus.DISCONNECTED,
             reason,
           });
 
           // Auto-reconnect for ALL disconnects EXCEPT manual disconnect
-          if (!this.manualDisconnectUsers.has(userId)) {
+          if (!this.manualDisconnectSessions.has(session.id)) {
             this.logger.log(
-              `Session disconnected for user ${userId} (reason: ${reason}). Auto-reconnecting in 5s...`,
+              `Session ${session.id} disconnected (reason: ${reason}). Auto-reconnecting in 5s...`,
             );
             setTimeout(() => {
               // Re-initialize with pairing if phone number is available
-              this.initializeSessionWithPairing(userId, phoneNumber).catch(
-                (e) =>
-                  this.logger.error(
-                    `Auto-reconnect failed for user ${userId}: ${e}`,
-                  ),
+              this.initializeSessionWithPairing(
+                userId,
+                phoneNumber,
+                session.id,
+              ).catch((e) =>
+                this.logger.error(
+                  `Auto-reconnect failed for session ${session.id}: ${e}`,
+                ),
               );
             }, 5000);
           } else {
             this.logger.log(
-              `Manual disconnect for user ${userId}, skipping auto-reconnect`,
+              `Manual disconnect for session ${session.id}, skipping auto-reconnect`,
             );
-            this.manualDisconnectUsers.delete(userId);
+            this.manualDisconnectSessions.delete(session.id);
           }
         },
         onAuthFailure: async (error: string) => {
-          this.logger.error(`Auth failure for user ${userId}: ${error}`);
-          await this.updateSessionStatus(userId, SessionStatus.FAILED, error);
+          this.logger.error(`Auth failure for session ${session.id}: ${error}`);
+          await this.updateSessionStatus(
+            session.id,
+            SessionStatus.FAILED,
+            error,
+          );
           this.whatsappGateway.sendStatusUpdate(userId, {
+            sessionId: session.id,
             status: SessionStatus.FAILED,
             error,
           });
@@ -601,6 +830,7 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
                 userId,
                 phoneNumber,
                 message,
+                session.id,
               );
             }
           } catch (error) {
@@ -613,26 +843,15 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
               await this.messageStoreHandler.handleMessageUpsert(
                 userId,
                 message,
+                this.clients.get(session.id)?.phoneNumber,
               );
             } catch (error) {
               this.logger.error(`Error in message store handler: ${error}`);
             }
           }
         },
-        onMessageStatusUpdate: async (update) => {
-          if (this.messageStatusHandler) {
-            try {
-              await this.messageStatusHandler.handleMessageStatusUpdate(
-                userId,
-                update.messageId,
-                update.remoteJid,
-                update.status,
-              );
-            } catch (error) {
-              this.logger.error(`Error in message status handler: ${error}`);
-            }
-          }
-        },
+        onMessageStatusUpdate: (update) =>
+          this.dispatchMessageStatusUpdate(userId, update),
       });
 
       // Request pairing code after socket is initialized
@@ -640,21 +859,23 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
 
       return {
         status: 'waiting_code',
+        sessionId: session.id,
         code,
       };
     } catch (error) {
       this.logger.error(
-        `Failed to initialize pairing for user ${userId}`,
+        `Failed to initialize pairing for session ${session.id}`,
         error,
       );
 
       try {
         await adapter.destroy();
       } catch (e) {}
-      this.clients.delete(userId);
+      this.clients.delete(session.id);
+      await this.leases.release(session.id);
 
       await this.updateSessionStatus(
-        userId,
+        session.id,
         SessionStatus.FAILED,
         String(error),
       );
@@ -662,68 +883,504 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async disconnectSession(userId: string): Promise<void> {
+  async disconnectSession(userId: string, sessionId?: string): Promise<void> {
+    const session = await this.findSession(userId, sessionId);
+    if (!session) return;
+
+    const owner = await this.remoteOwnerOf(session.id);
+    if (owner) {
+      await this.rpc.call(owner, 'disconnectSession', [userId, session.id]);
+      return;
+    }
+
     // Mark as manual disconnect to prevent auto-reconnect
-    this.manualDisconnectUsers.add(userId);
+    this.manualDisconnectSessions.add(session.id);
 
-    const instance = this.clients.get(userId);
+    const instance = this.clients.get(session.id);
     if (instance) {
       try {
         await instance.adapter.logout();
       } catch (error) {
         this.logger.error(
-          `Error disconnecting client for user ${userId}`,
+          `Error disconnecting client for session ${session.id}`,
           error,
         );
       }
-      this.clients.delete(userId);
+      this.clients.delete(session.id);
+      await this.leases.release(session.id);
+    }
+    if (this.getReadyClients(userId).length === 0) {
+      this.numberCheckCache.delete(userId);
     }
 
     await this.updateSessionStatus(
-      userId,
+      session.id,
       SessionStatus.DISCONNECTED,
       'Manual disconnect',
     );
   }
 
-  async forceDisconnect(userId: string): Promise<void> {
-    this.logger.log(`Force disconnecting session for user ${userId}`);
+  async forceDisconnect(userId: string, sessionId?: string): Promise<void> {
+    const session = await this.findSession(userId, sessionId);
+    if (!session) return;
 
-    const instance = this.clients.get(userId);
+    const owner = await this.remoteOwnerOf(session.id);
+    if (owner) {
+      await this.rpc.call(owner, 'forceDisconnect', [userId, session.id]);
+      return;
+    }
+
+    this.logger.log(`Force disconnecting session ${session.id}`);
+
+    const instance = this.clients.get(session.id);
     if (instance) {
       try {
         await instance.adapter.destroy();
       } catch (error) {
         this.logger.warn(
-          `Error destroying client for user ${userId}: ${error}`,
+          `Error destroying client for session ${session.id}: ${error}`,
         );
       }
-      this.clients.delete(userId);
+      this.clients.delete(session.id);
+      await this.leases.release(session.id);
     }
 
     await this.updateSessionStatus(
-      userId,
+      session.id,
       SessionStatus.DISCONNECTED,
       'Force disconnect',
     );
   }
 
-  async getSessionStatus(userId: string): Promise<WhatsAppSession | null> {
-    return this.sessionRepository.findOne({ where: { userId } });
+  // ==================== Cluster ====================
+
+  /**
+   * Calls that other instances forward to the sessions running here
+   */
+  private registerClusterHandlers() {
+    this.rpc.handle(
+      'initializeSession',
+      async (userId: string, sessionId: string) =>
+        this.startSession(
+          userId,
+          await this.getOrCreateSession(userId, sessionId),
+        ),
+    );
+    this.rpc.handle(
+      'initializeSessionWithPairing',
+      async (userId: string, phoneNumber: string, sessionId: string) =>
+        this.startPairingSession(
+          userId,
+          phoneNumber,
+          await this.getOrCreateSession(userId, sessionId),
+        ),
+    );
+    this.rpc.handle(
+      'disconnectSession',
+      (...args: Parameters<WhatsAppService['disconnectSession']>) =>
+        this.disconnectSession(...args),
+    );
+    this.rpc.handle(
+      'forceDisconnect',
+      (...args: Parameters<WhatsAppService['forceDisconnect']>) =>
+        this.forceDisconnect(...args),
+    );
+    this.rpc.handle(
+      'sendMessage',
+      (...args: Parameters<WhatsAppService['sendMessage']>) =>
+        this.sendMessage(...args),
+    );
+    this.rpc.handle(
+      'sendMessageWithMedia',
+      (...args: Parameters<WhatsAppService['sendMessageWithMedia']>) =>
+        this.sendMessageWithMedia(...args),
+    );
+    this.rpc.handle(
+      'markMessagesAsRead',
+      (...args: Parameters<WhatsAppService['markMessagesAsRead']>) =>
+        this.markMessagesAsRead(...args),
+    );
+    this.rpc.handle(
+      'revokeMessage',
+      (...args: Parameters<WhatsAppService['revokeMessage']>) =>
+        this.revokeMessage(...args),
+    );
+    this.rpc.handle(
+      'isNumberRegistered',
+      (...args: Parameters<WhatsAppService['isNumberRegistered']>) =>
+        this.isNumberRegistered(...args),
+    );
+    this.rpc.handle(
+      'checkNumbersBulk',
+      (...args: Parameters<WhatsAppService['checkNumbersBulk']>) =>
+        this.checkNumbersBulk(...args),
+    );
+    this.rpc.handle(
+      'resolvePhoneNumber',
+      (...args: Parameters<WhatsAppService['resolvePhoneNumber']>) =>
+        this.resolvePhoneNumber(...args),
+    );
+    this.rpc.handle(
+      'getWhatsAppContacts',
+      (...args: Parameters<WhatsAppService['getWhatsAppContacts']>) =>
+        this.getWhatsAppContacts(...args),
+    );
+    this.rpc.handle(
+      'getContactByPhone',
+      (...args: Parameters<WhatsAppService['getContactByPhone']>) =>
+        this.getContactByPhone(...args),
+    );
+    this.rpc.handle(
+      'getContactsPushNames',
+      (...args: Parameters<WhatsAppService['getContactsPushNames']>) =>
+        this.getContactsPushNames(...args),
+    );
+
+    // Broadcasts
+    this.rpc.handle(
+      'setBlastingStatus',
+      (userId: string, isBlasting: boolean) =>
+        this.markBlasting(userId, isBlasting),
+    );
+    this.rpc.handle('setDefaultSession', (userId: string, sessionId: string) =>
+      this.applyDefaultSession(userId, sessionId),
+    );
+  }
+
+  private startClusterHeartbeat() {
+    if (!this.leases.enabled) return;
+
+    this.clusterTimer = setInterval(() => {
+      this.clusterHeartbeat().catch((error) =>
+        this.logger.error(`Cluster heartbeat failed: ${error}`),
+      );
+    }, this.leases.LEASE_TTL_MS / 3);
+  }
+
+  /**
+   * Renew the leases of the sessions running here, drop the ones another
+   * instance took over and pick up sessions of instances that went away
+   */
+  private async clusterHeartbeat(): Promise<void> {
+    const lost = await this.leases.renew([...this.clients.keys()]);
+    for (const sessionId of lost) {
+      this.logger.warn(
+        `Session ${sessionId} was taken over by another instance`,
+      );
+      const instance = this.clients.get(sessionId);
+      this.clients.delete(sessionId);
+      await instance?.adapter.destroy().catch(() => {});
+    }
+
+    await this.leases.announce(this.clients.size, this.MAX_CONCURRENT_SESSIONS);
+
+    if (this.isClaiming) return;
+    this.isClaiming = true;
+    try {
+      const claimed = await this.claimOrphanedSessions();
+      if (claimed > 0) {
+        this.logger.log(`Took over ${claimed} orphaned session(s)`);
+      }
+    } finally {
+      this.isClaiming = false;
+    }
+  }
+
+  /**
+   * Connect sessions that were connected but have no live owner, up to
+   * this instance's capacity. Without cluster mode that's every session
+   * connected before a restart.
+   */
+  private async claimOrphanedSessions(): Promise<number> {
+    const sessions = await this.sessionRepository.find({
+      where: { status: SessionStatus.CONNECTED },
+    });
+    const owners = await this.leases.owners(
+      sessions.map((session) => session.id),
+    );
+
+    let claimed = 0;
+    for (const session of sessions) {
+      if (this.clients.size >= this.MAX_CONCURRENT_SESSIONS) break;
+
+      const owner = owners.get(session.id);
+      if (this.clients.has(session.id)) continue;
+      if (owner && owner !== this.leases.instanceId) continue;
+      if (!(await this.leases.acquire(session.id))) continue;
+
+      try {
+        this.logger.log(
+          `Restoring session ${session.id} for user ${session.userId}...`,
+        );
+        await this.startSession(session.userId, session);
+        claimed++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to restore session ${session.id} for user ${session.userId}`,
+          error,
+        );
+      }
+    }
+    return claimed;
+  }
+
+  /**
+   * Instance that should connect the session: its current owner, this
+   * instance while it has room, or the other instance with most room
+   */
+  private async pickConnectInstance(sessionId: string): Promise<string> {
+    const self = this.leases.instanceId;
+    if (!this.leases.enabled || this.clients.has(sessionId)) return self;
+
+    const owner = await this.leases.ownerOf(sessionId);
+    if (owner) return owner;
+    if (this.clients.size < this.MAX_CONCURRENT_SESSIONS) return self;
+    return (await this.leases.pickInstance()) ?? self;
+  }
+
+  /**
+   * Instance running the session, when that is not this one
+   */
+  private async remoteOwnerOf(sessionId: string): Promise<string | null> {
+    if (!this.leases.enabled || this.clients.has(sessionId)) return null;
+    const owner = await this.leases.ownerOf(sessionId);
+    return owner && owner !== this.leases.instanceId ? owner : null;
+  }
+
+  /**
+   * The user's session (or default number) when it is connected on
+   * another instance
+   */
+  private async findRemoteOwner(
+    userId: string,
+    sessionId?: string | null,
+  ): Promise<{ instanceId: string; session: WhatsAppSession } | null> {
+    if (!this.leases.enabled) return null;
+
+    const session = await this.findSession(userId, sessionId);
+    if (session?.status !== SessionStatus.CONNECTED) return null;
+
+    const instanceId = await this.remoteOwnerOf(session.id);
+    return instanceId ? { instanceId, session } : null;
+  }
+
+  /**
+   * Connected sessions of the user running on other instances
+   */
+  private async getRemoteSessions(
+    userId: string,
+  ): Promise<Array<{ instanceId: string; session: WhatsAppSession }>> {
+    if (!this.leases.enabled) return [];
+
+    const sessions = await this.sessionRepository.find({
+      where: { userId, status: SessionStatus.CONNECTED },
+      order: { createdAt: 'ASC' },
+    });
+    const owners = await this.leases.owners(
+      sessions
+        .filter((session) => !this.clients.has(session.id))
+        .map((session) => session.id),
+    );
+
+    return sessions.flatMap((session) => {
+      const instanceId = owners.get(session.id);
+      return instanceId && instanceId !== this.leases.instanceId
+        ? [{ instanceId, session }]
+        : [];
+    });
+  }
+
+  /**
+   * A session of the user, or the default one when no id is given
+   */
+  async getSessionStatus(
+    userId: string,
+    sessionId?: string | null,
+  ): Promise<WhatsAppSession | null> {
+    return this.findSession(userId, sessionId);
+  }
+
+  // ==================== Numbers ====================
+
+  /**
+   * All WhatsApp numbers of the user, default first
+   */
+  async getSessions(
+    userId: string,
+  ): Promise<Array<WhatsAppSession & { isReady: boolean }>> {
+    const sessions = await this.sessionRepository.find({
+      where: { userId },
+      order: { isDefault: 'DESC', createdAt: 'ASC' },
+    });
+    const remote = new Set(
+      (await this.getRemoteSessions(userId)).map(({ session }) => session.id),
+    );
+    return sessions.map((session) => ({
+      ...session,
+      isReady: this.clients.get(session.id)?.isReady || remote.has(session.id),
+    }));
+  }
+
+  async countSessions(userId: string): Promise<number> {
+    return this.sessionRepository.count({ where: { userId } });
+  }
+
+  /**
+   * Add a number slot to connect with /connect or /connect-pairing.
+   * The user's first number becomes the default.
+   */
+  async createSession(
+    userId: string,
+    label?: string | null,
+  ): Promise<WhatsAppSession> {
+    const hasDefault = await this.sessionRepository.exists({
+      where: { userId, isDefault: true },
+    });
+    return this.sessionRepository.save(
+      this.sessionRepository.create({
+        userId,
+        label: label || null,
+        isDefault: !hasDefault,
+        status: SessionStatus.DISCONNECTED,
+      }),
+    );
+  }
+
+  async updateSession(
+    userId: string,
+    sessionId: string,
+    changes: { label?: string | null; isDefault?: boolean },
+  ): Promise<WhatsAppSession> {
+    const session = await this.findSession(userId, sessionId);
+    if (!session) {
+      throw new NotFoundException('WhatsApp number not found');
+    }
+
+    if (changes.label !== undefined) {
+      session.label = changes.label || null;
+    }
+    if (changes.isDefault && !session.isDefault) {
+      await this.sessionRepository.update(
+        { userId, isDefault: true },
+        { isDefault: false },
+      );
+      session.isDefault = true;
+    }
+    await this.sessionRepository.update(session.id, {
+      label: session.label,
+      isDefault: session.isDefault,
+    });
+
+    if (session.isDefault) {
+      this.applyDefaultSession(userId, session.id);
+      await this.rpc.broadcast('setDefaultSession', [userId, session.id]);
+    }
+    return session;
+  }
+
+  private applyDefaultSession(userId: string, sessionId: string) {
+    for (const instance of this.clients.values()) {
+      if (instance.userId === userId) {
+        instance.isDefault = instance.sessionId === sessionId;
+      }
+    }
+  }
+
+  /**
+   * Log out and remove a number. Another number takes over as default.
+   */
+  async deleteSession(userId: string, sessionId: string): Promise<void> {
+    const session = await this.findSession(userId, sessionId);
+    if (!session) {
+      throw new NotFoundException('WhatsApp number not found');
+    }
+
+    await this.disconnectSession(userId, session.id);
+    await this.authStateService.clearSession(session.id);
+    await this.sessionRepository.delete(session.id);
+
+    if (session.isDefault) {
+      const next = await this.sessionRepository.findOne({
+        where: { userId },
+        order: { createdAt: 'ASC' },
+      });
+      if (next) {
+        await this.updateSession(userId, next.id, { isDefault: true });
+      }
+    }
+  }
+
+  /**
+   * Connected number to send from: the given session (or the default
+   * number), or the next connected number in turn when rotating.
+   * Returns null when no suitable number is connected.
+   */
+  async pickSender(
+    userId: string,
+    options: { sessionId?: string | null; rotate?: boolean } = {},
+  ): Promise<{ sessionId: string; phoneNumber?: string } | null> {
+    if (options.rotate) {
+      const ready = [
+        ...this.getReadyClients(userId),
+        ...(await this.getRemoteSessions(userId)).map(({ session }) => ({
+          sessionId: session.id,
+          phoneNumber: session.phoneNumber,
+        })),
+      ].sort((a, b) => a.sessionId.localeCompare(b.sessionId));
+      if (ready.length === 0) return null;
+
+      const cursor =
+        ((this.rotationCursor.get(userId) ?? -1) + 1) % ready.length;
+      this.rotationCursor.set(userId, cursor);
+      const { sessionId, phoneNumber } = ready[cursor];
+      return { sessionId, phoneNumber };
+    }
+
+    const instance = this.getClient(userId, options.sessionId);
+    if (instance?.isReady) {
+      return {
+        sessionId: instance.sessionId,
+        phoneNumber: instance.phoneNumber,
+      };
+    }
+
+    const remote = await this.findRemoteOwner(userId, options.sessionId);
+    if (!remote) return null;
+    return {
+      sessionId: remote.session.id,
+      phoneNumber: remote.session.phoneNumber,
+    };
+  }
+
+  async hasReadySession(userId: string): Promise<boolean> {
+    if (this.getReadyClients(userId).length > 0) return true;
+    return (await this.getRemoteSessions(userId)).length > 0;
   }
 
   async isNumberRegistered(
     userId: string,
     phoneNumber: string,
   ): Promise<boolean> {
-    const instance = this.clients.get(userId);
+    const instance = this.getAnyReadyClient(userId);
     if (!instance || !instance.isReady) {
+      const [remote] = await this.getRemoteSessions(userId);
+      if (remote) {
+        return this.rpc.call(remote.instanceId, 'isNumberRegistered', [
+          userId,
+          phoneNumber,
+        ]);
+      }
       throw new Error('WhatsApp session is not connected');
     }
 
+    const chatId = this.formatPhoneNumber(phoneNumber);
+    const cached = this.getCachedVerdict(userId, chatId);
+    if (cached !== undefined) return cached;
+
     try {
-      const chatId = this.formatPhoneNumber(phoneNumber);
-      return await instance.adapter.isRegisteredUser(chatId);
+      const exists = await instance.adapter.isRegisteredUser(chatId);
+      this.cacheVerdict(userId, chatId, exists);
+      return exists;
     } catch (error) {
       this.logger.warn(
         `Failed to check if number ${phoneNumber} is registered: ${error}`,
@@ -732,21 +1389,39 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Send a text message. With an idempotency key, a repeated call with the
+   * same key returns the earlier (or in-flight) result instead of sending again.
+   */
   async sendMessage(
     userId: string,
     phoneNumber: string,
     message: string,
+    sessionId?: string | null,
+    idempotencyKey?: string,
   ): Promise<{ success: boolean; messageId?: string }> {
-    const instance = this.clients.get(userId);
+    const instance = this.getClient(userId, sessionId);
     if (!instance || !instance.isReady) {
+      const remote = await this.findRemoteOwner(userId, sessionId);
+      if (remote) {
+        return this.rpc.call(remote.instanceId, 'sendMessage', [
+          userId,
+          phoneNumber,
+          message,
+          remote.session.id,
+          idempotencyKey,
+        ]);
+      }
       throw new Error('WhatsApp session is not connected');
     }
 
     try {
       const chatId = this.formatPhoneNumber(phoneNumber);
-      this.updateActivity(userId);
-      const result = await instance.adapter.sendMessage(chatId, message);
-      return { success: true, messageId: result.messageId };
+      instance.lastActivity = Date.now();
+      return await this.sendOnce(idempotencyKey, async () => {
+        const result = await instance.adapter.sendMessage(chatId, message);
+        return { success: true, messageId: result.messageId };
+      });
     } catch (error: any) {
       const errorMessage = error?.message || String(error);
       this.logger.error(
@@ -756,51 +1431,62 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Send media from a URL, a local path or already loaded data. Takes an
+   * idempotency key like sendMessage.
+   */
   async sendMessageWithMedia(
     userId: string,
     phoneNumber: string,
     message: string,
-    mediaPath: string,
+    media: string | MediaData,
     mediaType?: string,
+    sessionId?: string | null,
+    idempotencyKey?: string,
   ): Promise<{ success: boolean; messageId?: string }> {
-    const instance = this.clients.get(userId);
+    const instance = this.getClient(userId, sessionId);
     if (!instance || !instance.isReady) {
+      const remote = await this.findRemoteOwner(userId, sessionId);
+      if (remote) {
+        // The owning instance can download URLs but not read our local files
+        const forwarded =
+          typeof media === 'string' && !this.isMediaUrl(media)
+            ? await this.loadMedia(media, mediaType)
+            : media;
+        return this.rpc.call(remote.instanceId, 'sendMessageWithMedia', [
+          userId,
+          phoneNumber,
+          message,
+          forwarded,
+          mediaType,
+          remote.session.id,
+          idempotencyKey,
+        ]);
+      }
       throw new Error('WhatsApp session is not connected');
     }
 
     try {
       const chatId = this.formatPhoneNumber(phoneNumber);
-      this.updateActivity(userId);
-
-      // Load media
-      let mediaData: MediaData;
+      instance.lastActivity = Date.now();
 
-      if (mediaPath.startsWith('http://') || mediaPath.startsWith('https://')) {
-        this.logger.debug(
-          `Sending media from URL: ${mediaPath} (type: ${mediaType})`,
-        );
-        mediaData = await this.getCachedMediaFromUrl(mediaPath);
-      } else {
-        let absolutePath = mediaPath;
-        if (mediaPath.startsWith('/uploads')) {
-          absolutePath = path.join(process.cwd(), mediaPath);
-        }
-        this.logger.debug(
-          `Sending media from local: ${absolutePath} (type: ${mediaType})`,
+      return await this.sendOnce(idempotencyKey, async () => {
+        const mediaData =
+          typeof media === 'string'
+            ? await this.loadMedia(media, mediaType)
+            : media;
+
+        const result = await instance.adapter.sendMessageWithMedia(
+          chatId,
+          mediaData,
+          {
+            sendMediaAsDocument: mediaType === 'document',
+            caption: message,
+          },
         );
-        mediaData = await this.getCachedMedia(absolutePath);
-      }
 
-      const result = await instance.adapter.sendMessageWithMedia(
-        chatId,
-        mediaData,
-        {
-          sendMediaAsDocument: mediaType === 'document',
-          caption: message,
-        },
-      );
-
-      return { success: true, messageId: result.messageId };
+        return { success: true, messageId: result.messageId };
+      });
     } catch (error: any) {
       this.logger.error(
         `Failed to send message with media for user ${userId}`,
@@ -813,9 +1499,18 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
   async markMessagesAsRead(
     userId: string,
     keys: { remoteJid: string; id: string; fromMe: boolean }[],
+    sessionId?: string | null,
   ): Promise<void> {
-    const instance = this.clients.get(userId);
+    const instance = this.getClient(userId, sessionId);
     if (!instance || !instance.isReady) {
+      const remote = await this.findRemoteOwner(userId, sessionId);
+      if (remote) {
+        await this.rpc.call(remote.instanceId, 'markMessagesAsRead', [
+          userId,
+          keys,
+          remote.session.id,
+        ]);
+      }
       return;
     }
 
@@ -828,9 +1523,13 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async isSessionReady(userId: string): Promise<boolean> {
-    const instance = this.clients.get(userId);
-    return instance?.isReady || false;
+  async isSessionReady(
+    userId: string,
+    sessionId?: string | null,
+  ): Promise<boolean> {
+    const instance = this.getClient(userId, sessionId);
+    if (instance?.isReady) return true;
+    return (await this.findRemoteOwner(userId, sessionId)) !== null;
   }
 
   // Cache for resolved phone numbers (Baileys JID → canonical phone)
@@ -846,8 +1545,16 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     const cached = this.phoneResolveCache.get(cleaned);
     if (cached) return cached;
 
-    const instance = this.clients.get(userId);
-    if (!instance || !instance.isReady) return cleaned;
+    const instance = this.getAnyReadyClient(userId);
+    if (!instance) {
+      const [remote] = await this.getRemoteSessions(userId);
+      return remote
+        ? this.rpc.call(remote.instanceId, 'resolvePhoneNumber', [
+            userId,
+            phone,
+          ])
+        : cleaned;
+    }
 
     try {
       const results = await instance.adapter.onWhatsApp([cleaned]);
@@ -865,6 +1572,33 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     return cleaned;
   }
 
+  private getCachedVerdict(
+    userId: string,
+    chatId: string,
+  ): boolean | undefined {
+    const userCache = this.numberCheckCache.get(userId);
+    const entry = userCache?.get(chatId);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      userCache!.delete(chatId);
+      return undefined;
+    }
+    return entry.exists;
+  }
+
+  private cacheVerdict(userId: string, chatId: string, exists: boolean): void {
+    let userCache = this.numberCheckCache.get(userId);
+    if (!userCache) {
+      userCache = new Map();
+      this.numberCheckCache.set(userId, userCache);
+    }
+    userCache.set(chatId, {
+      exists,
+      expiresAt: Date.now() + this.NUMBER_CHECK_TTL_MS,
+    });
+  }
+
   private formatPhoneNumber(phone: string): string {
     let cleaned = phone.replace(/\D/g, '');
 
@@ -875,6 +1609,70 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     return cleaned + '@c.us';
   }
 
+  /**
+   * Digits of a number or jid with the country code normalised, for
+   * comparing numbers written differently (0812..., 620812..., 62812...@c.us)
+   */
+  private toNumberKey(jid: string): string {
+    const digits = jid.split('@')[0].split(':')[0].replace(/\D/g, '');
+
+    if (digits.startsWith('0062')) return digits.substring(2);
+    if (digits.startsWith('620')) return '62' + digits.substring(3);
+    if (digits.startsWith('0')) return '62' + digits.substring(1);
+    return digits;
+  }
+
+  private sendOnce(
+    key: string | undefined,
+    send: () => Promise<{ success: boolean; messageId?: string }>,
+  ): Promise<{ success: boolean; messageId?: string }> {
+    if (!key) return send();
+
+    const now = Date.now();
+    const existing = this.sendsByKey.get(key);
+    if (existing && existing.expiresAt > now) {
+      this.logger.warn(`Skipping repeated send with key ${key}`);
+      return existing.result;
+    }
+
+    if (this.sendsByKey.size > 1000) {
+      for (const [k, value] of this.sendsByKey.entries()) {
+        if (value.expiresAt < now) this.sendsByKey.delete(k);
+      }
+    }
+
+    // Only successful sends are remembered; a failed send may be retried
+    const result = send();
+    this.sendsByKey.set(key, { result, expiresAt: now + this.SEND_KEY_TTL_MS });
+    result.catch(() => this.sendsByKey.delete(key));
+    return result;
+  }
+
+  private isMediaUrl(media: string): boolean {
+    return media.startsWith('http://') || media.startsWith('https://');
+  }
+
+  private async loadMedia(
+    mediaPath: string,
+    mediaType?: string,
+  ): Promise<MediaData> {
+    if (this.isMediaUrl(mediaPath)) {
+      this.logger.debug(
+        `Sending media from URL: ${mediaPath} (type: ${mediaType})`,
+      );
+      return this.getCachedMediaFromUrl(mediaPath);
+    }
+
+    let absolutePath = mediaPath;
+    if (mediaPath.startsWith('/uploads')) {
+      absolutePath = path.join(process.cwd(), mediaPath);
+    }
+    this.logger.debug(
+      `Sending media from local: ${absolutePath} (type: ${mediaType})`,
+    );
+    return this.getCachedMedia(absolutePath);
+  }
+
   private async getCachedMedia(absolutePath: string): Promise<MediaData> {
     const now = Date.now();
     const cached = this.mediaCache.get(absolutePath);
@@ -1009,33 +1807,114 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     return mimeTypes[ext] || 'application/octet-stream';
   }
 
-  private async getOrCreateSession(userId: string): Promise<WhatsAppSession> {
-    let session = await this.sessionRepository.findOne({ where: { userId } });
+  /**
+   * A session of the user, or the default one when no id is given
+   */
+  private async findSession(
+    userId: string,
+    sessionId?: string | null,
+  ): Promise<WhatsAppSession | null> {
+    return this.sessionRepository.findOne({
+      where: sessionId
+        ? { id: sessionId, userId }
+        : { userId, isDefault: true },
+    });
+  }
 
-    if (!session) {
-      session = this.sessionRepository.create({
-        userId,
-        status: SessionStatus.DISCONNECTED,
+  private async getOrCreateSession(
+    userId: string,
+    sessionId?: string,
+  ): Promise<WhatsAppSession> {
+    const session = await this.findSession(userId, sessionId);
+    if (session) return session;
+
+    if (sessionId) {
+      throw new NotFoundException('WhatsApp number not found');
+    }
+    return this.createSession(userId);
+  }
+
+  /**
+   * Auth folders used to be named after the user; move them to the
+   * user's first session
+   */
+  private async migrateLegacyAuthDirs(): Promise<void> {
+    const root = path.join(process.cwd(), this.AUTH_DIR);
+    if (!fs.existsSync(root)) return;
+
+    for (const entry of fs.readdirSync(root)) {
+      const session = await this.sessionRepository.findOne({
+        where: { userId: entry },
+        order: { createdAt: 'ASC' },
       });
-      await this.sessionRepository.save(session);
+      if (!session || fs.existsSync(path.join(root, session.id))) continue;
+
+      fs.renameSync(path.join(root, entry), path.join(root, session.id));
+      this.logger.log(`Moved auth state of user ${entry} to ${session.id}`);
     }
+  }
 
-    return session;
+  /**
+   * Move auth folders into the configured auth state store, if it isn't
+   * the file system
+   */
+  private async importAuthDirs(): Promise<void> {
+    const root = path.join(process.cwd(), this.AUTH_DIR);
+    if (this.authStateService.driver === 'file' || !fs.existsSync(root)) {
+      return;
+    }
+
+    for (const entry of fs.readdirSync(root)) {
+      const session = await this.sessionRepository.findOne({
+        where: { id: entry },
+        select: ['id'],
+      });
+      if (!session) continue;
+
+      try {
+        await this.authStateService.importAuthDir(
+          session.id,
+          path.join(root, entry),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to import auth state of session ${session.id}: ${error}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * New number linked (or never paired) - restart the blast warm-up period
+   */
+  private async resolvePairedAt(
+    sessionId: string,
+    phoneNumber?: string,
+  ): Promise<Date | undefined> {
+    const current = await this.sessionRepository.findOne({
+      where: { id: sessionId },
+      select: ['id', 'phoneNumber', 'pairedAt'],
+    });
+    if (
+      !current?.pairedAt ||
+      (phoneNumber && phoneNumber !== current.phoneNumber)
+    ) {
+      return new Date();
+    }
+    return undefined;
   }
 
   private async updateSessionStatus(
-    userId: string,
+    sessionId: string,
     status: SessionStatus,
     reason?: string,
   ): Promise<void> {
-    await this.getOrCreateSession(userId);
-
     const updateData: Partial<WhatsAppSession> = { status };
     if (reason) {
       updateData.disconnectReason = reason;
     }
 
-    await this.sessionRepository.update({ userId }, updateData);
+    await this.sessionRepository.update(sessionId, updateData);
   }
 
   async getAllSessions(query?: {
@@ -1088,13 +1967,19 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     }>;
     total: number;
   }> {
-    const instance = this.clients.get(userId);
-    if (!instance || !instance.isReady) {
+    const instance = this.getAnyReadyClient(userId);
+    if (!instance) {
+      const [remote] = await this.getRemoteSessions(userId);
+      if (remote) {
+        return this.rpc.call(remote.instanceId, 'getWhatsAppContacts', [
+          userId,
+        ]);
+      }
       throw new Error('WhatsApp session is not connected');
     }
 
     try {
-      this.updateActivity(userId);
+      instance.lastActivity = Date.now();
 
       const contacts = await instance.adapter.getContacts();
 
@@ -1126,33 +2011,93 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     registered: string[];
     notRegistered: string[];
   }> {
-    const instance = this.clients.get(userId);
-    if (!instance || !instance.isReady) {
+    const result = await this.checkNumbersBulk(userId, phoneNumbers);
+
+    // Numbers that could not be checked are assumed registered
+    return {
+      registered: [...result.registered, ...result.unchecked],
+      notRegistered: result.notRegistered,
+    };
+  }
+
+  /**
+   * Check numbers in batches through the adapter's onWhatsApp.
+   * Cached verdicts are reused; numbers of a batch that failed to check,
+   * or that no result could be paired with, are returned as unchecked.
+   */
+  async checkNumbersBulk(
+    userId: string,
+    phoneNumbers: string[],
+  ): Promise<{
+    registered: string[];
+    notRegistered: string[];
+    unchecked: string[];
+  }> {
+    const instance = this.getAnyReadyClient(userId);
+    if (!instance) {
+      const [remote] = await this.getRemoteSessions(userId);
+      if (remote) {
+        return this.rpc.call(remote.instanceId, 'checkNumbersBulk', [
+          userId,
+          phoneNumbers,
+        ]);
+      }
       throw new Error('WhatsApp session is not connected');
     }
 
     const registered: string[] = [];
     const notRegistered: string[] = [];
+    const unchecked: string[] = [];
 
-    this.updateActivity(userId);
+    instance.lastActivity = Date.now();
 
+    const toCheck: string[] = [];
     for (const phone of phoneNumbers) {
+      const cached = this.getCachedVerdict(
+        userId,
+        this.formatPhoneNumber(phone),
+      );
+      if (cached === undefined) {
+        toCheck.push(phone);
+      } else {
+        (cached ? registered : notRegistered).push(phone);
+      }
+    }
+
+    for (let i = 0; i < toCheck.length; i += this.NUMBER_CHECK_BATCH_SIZE) {
+      const batch = toCheck.slice(i, i + this.NUMBER_CHECK_BATCH_SIZE);
+      const chatIds = batch.map((phone) => this.formatPhoneNumber(phone));
+
       try {
-        const chatId = this.formatPhoneNumber(phone);
-        const isRegistered = await instance.adapter.isRegisteredUser(chatId);
+        const results = await instance.adapter.onWhatsApp(chatIds);
 
-        if (isRegistered) {
-          registered.push(phone);
-        } else {
-          notRegistered.push(phone);
+        // The server answers with its canonical jid, which may be written
+        // differently than the one we asked for
+        const verdicts = new Map<string, boolean>();
+        for (const result of results) {
+          verdicts.set(this.toNumberKey(result.jid), result.exists);
         }
+
+        // Baileys leaves out numbers it found no account for; those are
+        // left to the check before each send
+        batch.forEach((phone, j) => {
+          const exists = verdicts.get(this.toNumberKey(chatIds[j]));
+          if (exists === undefined) {
+            unchecked.push(phone);
+            return;
+          }
+          this.cacheVerdict(userId, chatIds[j], exists);
+          (exists ? registered : notRegistered).push(phone);
+        });
       } catch (error) {
-        this.logger.warn(`Failed to check number ${phone}: ${error}`);
-        registered.push(phone);
+        this.logger.warn(
+          `Failed to check ${batch.length} numbers for user ${userId}: ${error}`,
+        );
+        unchecked.push(...batch);
       }
     }
 
-    return { registered, notRegistered };
+    return { registered, notRegistered, unchecked };
   }
 
   /**
@@ -1166,9 +2111,15 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     name: string | null;
     pushname: string | null;
   } | null> {
-    const instance = this.clients.get(userId);
-    if (!instance || !instance.isReady) {
-      return null;
+    const instance = this.getAnyReadyClient(userId);
+    if (!instance) {
+      const [remote] = await this.getRemoteSessions(userId);
+      return remote
+        ? this.rpc.call(remote.instanceId, 'getContactByPhone', [
+            userId,
+            phoneNumber,
+          ])
+        : null;
     }
 
     try {
@@ -1193,9 +2144,15 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     userId: string,
     phoneNumbers: string[],
   ): Promise<Record<string, string | null>> {
-    const instance = this.clients.get(userId);
-    if (!instance || !instance.isReady) {
-      return {};
+    const instance = this.getAnyReadyClient(userId);
+    if (!instance) {
+      const [remote] = await this.getRemoteSessions(userId);
+      return remote
+        ? this.rpc.call(remote.instanceId, 'getContactsPushNames', [
+            userId,
+            phoneNumbers,
+          ])
+        : {};
     }
 
     const result: Record<string, string | null> = {};
@@ -1235,14 +2192,24 @@ export class WhatsAppService implements OnModuleInit, OnModuleDestroy {
     userId: string,
     phoneNumber: string,
     messageId: string,
+    sessionId?: string | null,
   ): Promise<void> {
-    const instance = this.clients.get(userId);
+    const instance = this.getClient(userId, sessionId);
     if (!instance || !instance.isReady) {
+      const remote = await this.findRemoteOwner(userId, sessionId);
+      if (remote) {
+        return this.rpc.call(remote.instanceId, 'revokeMessage', [
+          userId,
+          phoneNumber,
+          messageId,
+          remote.session.id,
+        ]);
+      }
       throw new Error('WhatsApp session is not connected');
     }
 
     const chatId = this.formatPhoneNumber(phoneNumber);
     await instance.adapter.revokeMessage(chatId, messageId);
-    this.updateActivity(userId);
+    instance.lastActivity = Date.now();
   }
 }
@@ -0,0 +1,250 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { AppModule } from './../src/app.module';
+import { TransformInterceptor } from './../src/common/interceptors/transform.interceptor';
+import { Package } from './../src/database/entities/package.entity';
+import { FollowupMessage } from './../src/database/entities/followup-message.entity';
+import { SubscriptionsService } from './../src/modules/subscriptions/subscriptions.service';
+import { FollowupSchedulerService } from './../src/modules/followups/services/followup-scheduler.service';
+
+// Runs against the database and Redis from .env, with the fake WhatsApp
+// adapter in place of Baileys
+process.env.WA_ADAPTER = 'fake';
+
+const REPLIER = '6281100000001';
+const SILENT = '6281100000002';
+const UNREGISTERED = '6281100000003';
+const FAILING = '6281100000004';
+
+// Response payload, unwrapped from the { success, message, data } envelope
+function data<T>(res: request.Response): T {
+  return (res.body as { data: T }).data;
+}
+
+async function waitFor<T>(
+  check: () => Promise<T | null | undefined | false>,
+  timeoutMs = 30000,
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const result = await check();
+    if (result) return result;
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+}
+
+describe('Blast flow on the fake WhatsApp adapter (e2e)', () => {
+  let app: INestApplication<App>;
+  let token: string;
+  let blastId: string;
+
+  const api = () => request(app.getHttpServer());
+  const get = (url: string) =>
+    api().get(url).set('Authorization', `Bearer ${token}`);
+  const post = (url: string, body: object = {}) =>
+    api().post(url).set('Authorization', `Bearer ${token}`).send(body);
+  const patch = (url: string, body: object) =>
+    api().patch(url).set('Authorization', `Bearer ${token}`).send(body);
+
+  const blastMessages = async () => {
+    const res = await get(`/api/blasts/${blastId}/messages`).expect(200);
+    return data<{
+      messages: Array<{
+        phoneNumber: string;
+        status: string;
+        errorMessage: string | null;
+      }>;
+    }>(res).messages;
+  };
+  const messageTo = async (phoneNumber: string) =>
+    (await blastMessages()).find((m) => m.phoneNumber === phoneNumber);
+  const sentTo = async (phoneNumber: string) => {
+    const res = await get(`/api/whatsapp/fake/messages?to=${phoneNumber}`);
+    return data<Array<{ body: string; status: string }>>(res);
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalInterceptors(new TransformInterceptor());
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        transformOptions: { enableImplicitConversion: true },
+      }),
+    );
+    app.setGlobalPrefix('api');
+    await app.init();
+
+    const registered = await api()
+      .post('/api/auth/register')
+      .send({ email: `e2e-${Date.now()}@example.com`, password: 'secret123' })
+      .expect(201);
+    const auth = data<{ accessToken: string; user: { id: string } }>(
+      registered,
+    );
+    token = auth.accessToken;
+
+    const pkg = await app
+      .get(DataSource)
+      .getRepository(Package)
+      .save({ name: 'E2E', price: 0, isPurchasable: false });
+    await app
+      .get(SubscriptionsService)
+      .activateSubscription(auth.user.id, pkg.id, null);
+
+    await post('/api/whatsapp/fake/reset').expect(200);
+    await patch('/api/whatsapp/fake/settings', {
+      autoScanMs: 100,
+      deliveredAfterMs: 200,
+      readAfterMs: 400,
+    }).expect(200);
+    await patch('/api/whatsapp/fake/numbers', {
+      phoneNumbers: [UNREGISTERED],
+      registered: false,
+    }).expect(200);
+    await patch('/api/whatsapp/fake/numbers', {
+      phoneNumbers: [FAILING],
+      failWith: 'Fake send failure',
+    }).expect(200);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('connects a number by scanning the QR code', async () => {
+    await post('/api/whatsapp/connect').expect(201);
+
+    await waitFor(async () => {
+      const res = await get('/api/whatsapp/status').expect(200);
+      return data<{ isReady: boolean }>(res).isReady;
+    });
+  });
+
+  it('sends a blast and tracks delivery, read and failures', async () => {
+    const created = await post('/api/blasts', {
+      name: 'E2E blast',
+      message: 'Halo, ada promo spesial minggu ini!',
+      phoneNumbers: [REPLIER, SILENT, UNREGISTERED, FAILING],
+      delayMs: 1000,
+      throttleProfile: 'aggressive',
+    }).expect(201);
+    blastId = data<{ id: string }>(created).id;
+
+    await post(`/api/blasts/${blastId}/start`).expect(201);
+
+    await waitFor(async () => {
+      const messages = await blastMessages();
+      return [REPLIER, SILENT].every(
+        (phoneNumber) =>
+          messages.find((m) => m.phoneNumber === phoneNumber)?.status ===
+          'read',
+      );
+    }, 60000);
+    expect((await sentTo(SILENT))[0].status).toBe('read');
+    expect((await messageTo(UNREGISTERED))?.status).toBe('invalid_number');
+    expect(await sentTo(UNREGISTERED)).toHaveLength(0);
+
+    const failure = await waitFor(
+      async () => (await messageTo(FAILING))?.errorMessage,
+      60000,
+    );
+    expect(failure).toContain('Fake send failure');
+    expect(await sentTo(FAILING)).toHaveLength(0);
+
+    // The retry goes through once the number stops failing
+    await patch('/api/whatsapp/fake/numbers', {
+      phoneNumbers: [FAILING],
+      failWith: null,
+    }).expect(200);
+    await waitFor(
+      async () => (await messageTo(FAILING))?.status === 'read',
+      60000,
+    );
+    expect(await sentTo(FAILING)).toHaveLength(1);
+  }, 180000);
+
+  it('detects a reply and moves the funnel to replied', async () => {
+    await post('/api/whatsapp/fake/messages', {
+      from: REPLIER,
+      body: 'Halo kak',
+      pushName: 'Budi',
+    }).expect(201);
+
+    const replies = await get(`/api/blasts/${blastId}/replies`).expect(200);
+    expect(data<{ data: unknown[] }>(replies).data).toEqual([
+      expect.objectContaining({
+        phoneNumber: REPLIER,
+        messageContent: 'Halo kak',
+      }),
+    ]);
+
+    const funnel = await waitFor(async () => {
+      const res = await get(`/api/analytics/funnel/${REPLIER}`);
+      return res.status === 200 && data<{ currentStage: string }>(res);
+    });
+    expect(funnel.currentStage).toBe('replied');
+  });
+
+  it('follows up only with recipients that did not reply', async () => {
+    await waitFor(async () => {
+      const res = await get(`/api/blasts/${blastId}`).expect(200);
+      return data<{ status: string }>(res).status === 'completed';
+    }, 60000);
+
+    const created = await post('/api/followups', {
+      name: 'E2E followup',
+      originalBlastId: blastId,
+      trigger: 'no_reply',
+      delayHours: 0.0167,
+      messages: [
+        { step: 1, message: 'Masih tertarik dengan promonya?', delayHours: 1 },
+      ],
+      maxFollowups: 1,
+    }).expect(201);
+    const campaignId = data<{ id: string }>(created).id;
+
+    await post(`/api/followups/${campaignId}/schedule`).expect(201);
+
+    // Skip the one-minute delay and run the scheduler tick right away
+    await app
+      .get(DataSource)
+      .getRepository(FollowupMessage)
+      .update({ followupCampaignId: campaignId }, { scheduledAt: new Date() });
+    await app.get(FollowupSchedulerService).processScheduledFollowups();
+
+    await waitFor(
+      async () =>
+        (await sentTo(SILENT)).some(
+          (m) => m.body === 'Masih tertarik dengan promonya?',
+        ),
+      60000,
+    );
+    expect((await sentTo(REPLIER)).map((m) => m.body)).not.toContain(
+      'Masih tertarik dengan promonya?',
+    );
+  }, 120000);
+
+  it('reconnects by itself after the connection drops', async () => {
+    await post('/api/whatsapp/fake/disconnect', {
+      reason: 'Connection lost',
+    }).expect(200);
+
+    await waitFor(async () => {
+      const res = await get('/api/whatsapp/status').expect(200);
+      return data<{ isReady: boolean }>(res).isReady;
+    }, 20000);
+  }, 30000);
+});